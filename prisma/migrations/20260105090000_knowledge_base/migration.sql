@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "KnowledgeArticle" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "published" BOOLEAN NOT NULL DEFAULT false,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeArticle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeArticle_published_idx" ON "KnowledgeArticle"("published");
+
+-- Seed the policies that were previously hardcoded in the system prompt
+INSERT INTO "KnowledgeArticle" ("id", "title", "category", "body", "published", "createdAt", "updatedAt") VALUES
+('kb_shipping_policy', 'Shipping Policy', 'shipping', E'- We offer free shipping on orders over $50\n- Standard shipping takes 3-5 business days within the US\n- Express shipping (1-2 business days) is available for $12.99\n- We ship to all 50 US states and Puerto Rico\n- International shipping is not currently available', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+('kb_return_policy', 'Return & Refund Policy', 'returns', E'- Returns are accepted within 30 days of purchase\n- Items must be unworn, unwashed, and in original packaging\n- Return shipping is free for defective items\n- For other returns, customer pays return shipping ($5.99 flat rate)\n- Refunds are processed within 5-7 business days of receiving the return\n- Gift cards and final sale items cannot be returned', true, CURRENT_TIMESTAMP + INTERVAL '1 millisecond', CURRENT_TIMESTAMP),
+('kb_support_hours', 'Support Hours', 'support', E'- Our support team is available Monday-Friday, 9 AM - 6 PM EST\n- Weekend support is limited to email only\n- Response time: typically within 2 hours during business hours', true, CURRENT_TIMESTAMP + INTERVAL '2 milliseconds', CURRENT_TIMESTAMP),
+('kb_payment_methods', 'Payment Methods', 'payment', E'- We accept all major credit cards (Visa, Mastercard, Amex, Discover)\n- PayPal, Apple Pay, and Google Pay are also accepted\n- All payments are securely processed', true, CURRENT_TIMESTAMP + INTERVAL '3 milliseconds', CURRENT_TIMESTAMP);
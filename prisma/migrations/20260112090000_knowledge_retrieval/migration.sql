@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "sources" JSONB;
+
+-- CreateTable
+CREATE TABLE "KnowledgeChunk" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "articleVersion" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "terms" JSONB NOT NULL,
+    "length" INTEGER NOT NULL,
+
+    CONSTRAINT "KnowledgeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_articleId_idx" ON "KnowledgeChunk"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeChunk" ADD CONSTRAINT "KnowledgeChunk_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "KnowledgeArticle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
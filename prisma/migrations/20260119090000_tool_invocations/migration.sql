@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ToolInvocation" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "callId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "arguments" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ToolInvocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolInvocation_messageId_idx" ON "ToolInvocation"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "HandoffState" AS ENUM ('BOT', 'WAITING_FOR_HUMAN', 'HUMAN', 'CLOSED');
+
+-- AlterEnum
+ALTER TYPE "Sender" ADD VALUE 'AGENT';
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "assignedAgent" TEXT,
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "escalationReason" TEXT,
+ADD COLUMN     "handoffState" "HandoffState" NOT NULL DEFAULT 'BOT';
+
+-- CreateIndex
+CREATE INDEX "Conversation_handoffState_idx" ON "Conversation"("handoffState");
@@ -0,0 +1,6 @@
+-- Full-text search over message text for the admin dashboard. Expression
+-- indexes can't be declared in schema.prisma, so this one lives only here.
+CREATE INDEX "Message_text_fts_idx" ON "Message" USING GIN (to_tsvector('english', "text"));
+
+-- CreateIndex
+CREATE INDEX "Conversation_createdAt_idx" ON "Conversation"("createdAt");
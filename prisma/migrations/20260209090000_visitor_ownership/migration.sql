@@ -0,0 +1,8 @@
+-- Conversations created before visitor ids existed have no owner and are
+-- only reachable from the admin dashboard.
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "visitorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Conversation_visitorId_idx" ON "Conversation"("visitorId");
@@ -0,0 +1,51 @@
+-- DropIndex
+DROP INDEX "KnowledgeArticle_published_idx";
+
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "hostnames" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "persona" TEXT,
+    "supportEmail" TEXT NOT NULL,
+    "llmProvider" TEXT,
+    "llmModel" TEXT,
+    "temperature" DOUBLE PRECISION NOT NULL DEFAULT 0.7,
+    "maxTokens" INTEGER NOT NULL DEFAULT 500,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workspace_slug_key" ON "Workspace"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workspace_publicKey_key" ON "Workspace"("publicKey");
+
+-- Existing data belongs to the original store, which becomes the default workspace
+INSERT INTO "Workspace" ("id", "slug", "name", "publicKey", "supportEmail", "updatedAt") VALUES
+('ws_spurmart', 'spurmart', 'SpurMart', 'pk_spurmart', 'support@spurmart.com', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "workspaceId" TEXT NOT NULL DEFAULT 'ws_spurmart';
+ALTER TABLE "Conversation" ALTER COLUMN "workspaceId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "KnowledgeArticle" ADD COLUMN     "workspaceId" TEXT NOT NULL DEFAULT 'ws_spurmart';
+ALTER TABLE "KnowledgeArticle" ALTER COLUMN "workspaceId" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Conversation_workspaceId_idx" ON "Conversation"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeArticle_workspaceId_published_idx" ON "KnowledgeArticle"("workspaceId", "published");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeArticle" ADD CONSTRAINT "KnowledgeArticle_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "Channel" AS ENUM ('WEB', 'WHATSAPP', 'SMS');
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "channel" "Channel" NOT NULL DEFAULT 'WEB',
+ADD COLUMN     "externalUserId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "externalId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "smsNumber" TEXT,
+ADD COLUMN     "whatsappPhoneNumberId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Conversation_workspaceId_channel_externalUserId_idx" ON "Conversation"("workspaceId", "channel", "externalUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Message_externalId_key" ON "Message"("externalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workspace_whatsappPhoneNumberId_key" ON "Workspace"("whatsappPhoneNumberId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workspace_smsNumber_key" ON "Workspace"("smsNumber");
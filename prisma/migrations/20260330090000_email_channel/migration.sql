@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "Channel" ADD VALUE 'EMAIL';
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "subject" TEXT;
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "inboundEmail" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workspace_inboundEmail_key" ON "Workspace"("inboundEmail");
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "fromCache" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ReplyCacheEntry" (
+    "key" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "reply" TEXT NOT NULL,
+    "sources" JSONB,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyCacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "PinnedAnswer" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "normalizedQuestion" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PinnedAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyCacheEntry_workspaceId_idx" ON "ReplyCacheEntry"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "ReplyCacheEntry_expiresAt_idx" ON "ReplyCacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PinnedAnswer_workspaceId_normalizedQuestion_key" ON "PinnedAnswer"("workspaceId", "normalizedQuestion");
+
+-- AddForeignKey
+ALTER TABLE "PinnedAnswer" ADD CONSTRAINT "PinnedAnswer_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
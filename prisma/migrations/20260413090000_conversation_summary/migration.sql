@@ -0,0 +1,10 @@
+-- DropIndex
+DROP INDEX "Message_conversationId_idx";
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "summary" TEXT,
+ADD COLUMN     "summaryUpTo" TIMESTAMP(3),
+ADD COLUMN     "summaryUpdatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Message_conversationId_timestamp_idx" ON "Message"("conversationId", "timestamp");
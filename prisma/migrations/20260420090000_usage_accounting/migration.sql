@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "costUsd" DECIMAL(14,8),
+ADD COLUMN     "inputTokens" INTEGER,
+ADD COLUMN     "latencyMs" INTEGER,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "outputTokens" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "budgetAlertThresholds" INTEGER[] DEFAULT ARRAY[50, 80, 100]::INTEGER[],
+ADD COLUMN     "monthlyBudgetUsd" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "BudgetAlert" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "spendUsd" DECIMAL(12,6) NOT NULL,
+    "budgetUsd" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BudgetAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetAlert_workspaceId_period_threshold_key" ON "BudgetAlert"("workspaceId", "period", "threshold");
+
+-- AddForeignKey
+ALTER TABLE "BudgetAlert" ADD CONSTRAINT "BudgetAlert_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "FeedbackRating" AS ENUM ('UP', 'DOWN');
+
+-- CreateTable
+CREATE TABLE "MessageFeedback" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "rating" "FeedbackRating" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MessageFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConversationRating" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConversationRating_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageFeedback_messageId_key" ON "MessageFeedback"("messageId");
+
+-- CreateIndex
+CREATE INDEX "MessageFeedback_rating_createdAt_idx" ON "MessageFeedback"("rating", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationRating_conversationId_key" ON "ConversationRating"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "ConversationRating_createdAt_idx" ON "ConversationRating"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MessageFeedback" ADD CONSTRAINT "MessageFeedback_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationRating" ADD CONSTRAINT "ConversationRating_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
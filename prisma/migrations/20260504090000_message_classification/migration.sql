@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "Sentiment" AS ENUM ('POSITIVE', 'NEUTRAL', 'NEGATIVE');
+
+-- CreateEnum
+CREATE TYPE "Intent" AS ENUM ('ORDER_STATUS', 'RETURN', 'BILLING', 'SHIPPING', 'PRODUCT', 'ACCOUNT', 'COMPLAINT', 'HUMAN_REQUEST', 'GREETING', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "Urgency" AS ENUM ('LOW', 'NORMAL', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "intent" "Intent",
+ADD COLUMN     "negativeMessages" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sentiment" "Sentiment",
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "urgency" "Urgency";
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "classifiedBy" TEXT,
+ADD COLUMN     "intent" "Intent",
+ADD COLUMN     "sentiment" "Sentiment",
+ADD COLUMN     "urgency" "Urgency";
+
+-- CreateTable
+CREATE TABLE "ConversationRule" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "conditions" JSONB NOT NULL,
+    "actions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConversationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RuleMatch" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RuleMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Conversation_sentiment_idx" ON "Conversation"("sentiment");
+
+-- CreateIndex
+CREATE INDEX "ConversationRule_workspaceId_idx" ON "ConversationRule"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "RuleMatch_conversationId_idx" ON "RuleMatch"("conversationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RuleMatch_ruleId_conversationId_key" ON "RuleMatch"("ruleId", "conversationId");
+
+-- AddForeignKey
+ALTER TABLE "ConversationRule" ADD CONSTRAINT "ConversationRule_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RuleMatch" ADD CONSTRAINT "RuleMatch_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "ConversationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RuleMatch" ADD CONSTRAINT "RuleMatch_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "guardrailFlags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "replacedReply" TEXT;
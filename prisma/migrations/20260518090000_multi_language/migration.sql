@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "locale" TEXT;
+
+-- AlterTable
+ALTER TABLE "KnowledgeArticle" ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN     "translationOfId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeArticle_translationOfId_locale_key" ON "KnowledgeArticle"("translationOfId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeArticle" ADD CONSTRAINT "KnowledgeArticle_translationOfId_fkey" FOREIGN KEY ("translationOfId") REFERENCES "KnowledgeArticle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The tokenizer now folds accented letters instead of splitting on them;
+-- drop the stored chunks so every article is re-indexed when next loaded
+DELETE FROM "KnowledgeChunk";
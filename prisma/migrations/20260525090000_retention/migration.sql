@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "RetentionAction" AS ENUM ('DELETE', 'ANONYMIZE');
+
+-- CreateEnum
+CREATE TYPE "DeletionReason" AS ENUM ('RETENTION', 'CUSTOMER_REQUEST', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "retentionDays" INTEGER,
+ADD COLUMN     "retentionAction" "RetentionAction" NOT NULL DEFAULT 'DELETE';
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "anonymizedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DeletionLog" (
+    "id" TEXT NOT NULL,
+    "action" "RetentionAction" NOT NULL,
+    "reason" "DeletionReason" NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "channel" "Channel" NOT NULL,
+    "messageCount" INTEGER NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeletionLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Conversation_workspaceId_updatedAt_idx" ON "Conversation"("workspaceId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "DeletionLog_workspaceId_createdAt_idx" ON "DeletionLog"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeletionLog_conversationId_idx" ON "DeletionLog"("conversationId");
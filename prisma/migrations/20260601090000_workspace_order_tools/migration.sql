@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "orderAdapter" TEXT,
+ADD COLUMN     "returnWindowDays" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "returnInstructions" TEXT;
+
+-- The seeded demo orders belong to SpurMart; other workspaces have no order system until one is configured
+UPDATE "Workspace" SET
+    "orderAdapter" = 'memory',
+    "returnInstructions" = 'Return instructions will be emailed within 24 hours. Return shipping is free for defective items, otherwise a $5.99 flat rate applies. Refunds are processed within 5-7 business days of receiving the return.'
+WHERE "id" = 'ws_spurmart';
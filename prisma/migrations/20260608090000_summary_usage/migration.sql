@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "SummaryUsage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" DECIMAL(14,8),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryUsage_conversationId_idx" ON "SummaryUsage"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "SummaryUsage_createdAt_idx" ON "SummaryUsage"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SummaryUsage" ADD CONSTRAINT "SummaryUsage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ADD COLUMN     "conversationId" TEXT;
+
+-- Link existing deliveries to the conversation in their payload
+UPDATE "WebhookDelivery" d SET "conversationId" = c."id"
+FROM "Conversation" c
+WHERE c."id" = d."payload"->'data'->'conversation'->>'id';
+
+-- Deliveries about conversations that were erased before deliveries were
+-- linked still carry their text; finish the erasure
+DELETE FROM "WebhookDelivery" d
+WHERE d."conversationId" IS NULL AND d."payload"->'data' ? 'conversation';
+
+DELETE FROM "WebhookDelivery" d
+USING "Conversation" c
+WHERE c."id" = d."conversationId" AND c."anonymizedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_conversationId_idx" ON "WebhookDelivery"("conversationId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PiiMask" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "masked" TEXT NOT NULL,
+    "original" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PiiMask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PiiMask_conversationId_masked_key" ON "PiiMask"("conversationId", "masked");
+
+-- AddForeignKey
+ALTER TABLE "PiiMask" ADD CONSTRAINT "PiiMask_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
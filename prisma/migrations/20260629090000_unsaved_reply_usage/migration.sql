@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "UnsavedReplyUsage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" DECIMAL(14,8),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UnsavedReplyUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UnsavedReplyUsage_conversationId_idx" ON "UnsavedReplyUsage"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "UnsavedReplyUsage_createdAt_idx" ON "UnsavedReplyUsage"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UnsavedReplyUsage" ADD CONSTRAINT "UnsavedReplyUsage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
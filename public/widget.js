@@ -0,0 +1,87 @@
+/*
+ * Support chat loader for merchant sites. Drop onto any page:
+ *
+ *   <script src="https://support.example.com/widget.js" data-key="pk_..." async></script>
+ *
+ * Optional attributes: data-position ("right" | "left"), data-color (hex,
+ * e.g. "#16a34a"), data-greeting and data-locale ("en", "es", "fr" or "de";
+ * by default the visitor's language). The launcher button lives in a shadow
+ * root so the host page's CSS can't reach it; the chat itself runs in an
+ * iframe served from this app's /embed page.
+ */
+(function () {
+  var script = document.currentScript;
+  if (!script || window.__spurChatLoaded) return;
+  window.__spurChatLoaded = true;
+
+  var key = script.getAttribute('data-key');
+  if (!key) {
+    console.error('[spur-chat] Missing data-key attribute on the widget script tag');
+    return;
+  }
+
+  var origin = new URL(script.src).origin;
+  var side = script.getAttribute('data-position') === 'left' ? 'left' : 'right';
+  var color = script.getAttribute('data-color') || '';
+  if (!/^#[0-9a-f]{3,8}$/i.test(color)) color = '#2563eb';
+  var greeting = script.getAttribute('data-greeting');
+  var locale = script.getAttribute('data-locale');
+
+  var params = new URLSearchParams({ key: key, color: color });
+  if (greeting) params.set('greeting', greeting);
+  if (locale) params.set('locale', locale);
+
+  var host = document.createElement('div');
+  var root = host.attachShadow({ mode: 'open' });
+  root.innerHTML =
+    '<style>' +
+    '.launcher{position:fixed;bottom:24px;' + side + ':24px;width:56px;height:56px;border:0;border-radius:50%;' +
+    'background:' + color + ';color:#fff;cursor:pointer;box-shadow:0 10px 15px rgba(0,0,0,.2);z-index:2147483646;' +
+    'display:flex;align-items:center;justify-content:center}' +
+    '.launcher svg{width:24px;height:24px}' +
+    '.frame{position:fixed;bottom:24px;' + side + ':24px;width:500px;height:500px;max-width:calc(100vw - 48px);' +
+    'max-height:calc(100vh - 48px);border:0;border-radius:16px;box-shadow:0 25px 50px rgba(0,0,0,.25);' +
+    'background:#fff;z-index:2147483647}' +
+    '.frame[hidden],.launcher[hidden]{display:none}' +
+    '@media (max-width:767px){.frame{inset:0;width:100%;height:100%;max-width:none;max-height:none;border-radius:0}}' +
+    '</style>' +
+    '<button class="launcher" type="button" aria-label="Open chat">' +
+    '<svg fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" ' +
+    'stroke-width="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72' +
+    'C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"/></svg>' +
+    '</button>' +
+    '<iframe class="frame" title="Support chat" hidden></iframe>';
+
+  var launcher = root.querySelector('.launcher');
+  var frame = root.querySelector('.frame');
+
+  function open() {
+    // Load the chat on first open so the host page doesn't pay for it upfront
+    if (!frame.src) frame.src = origin + '/embed?' + params.toString();
+    frame.hidden = false;
+    launcher.hidden = true;
+  }
+
+  function close() {
+    frame.hidden = true;
+    launcher.hidden = false;
+  }
+
+  launcher.addEventListener('click', open);
+
+  // The iframe asks to be closed from its own close button
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || event.source !== frame.contentWindow) return;
+    if (event.data && event.data.type === 'spur-chat:close') close();
+  });
+
+  function mount() {
+    document.body.appendChild(host);
+  }
+
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener('DOMContentLoaded', mount);
+  }
+})();
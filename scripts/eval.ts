@@ -0,0 +1,144 @@
+// Offline eval runner: answers a dataset of support questions with one or two
+// assistant configurations, grades the replies and writes a JSON and an HTML
+// report. Runs in-process through tsx, so the app doesn't need to be running;
+// provider keys (and DATABASE_URL, for configurations with a workspaceId) are
+// read from the environment or .env.
+//
+//   npm run eval -- --baseline provider=mock
+//   npm run eval -- \
+//     --baseline provider=openai,model=gpt-4o-mini,temperature=0.7 \
+//     --candidate provider=openai,model=gpt-4o-mini,temperature=0.2 \
+//     --judge provider=openai,model=gpt-4o
+//
+// A configuration is either key=value pairs (name, provider, model,
+// temperature, maxTokens, workspaceId) or a path to a JSON file, which can
+// also set a `persona`. --dataset takes a JSON file shaped like the built-in
+// one ({ name, knowledge, cases }). Reports go to --out (default
+// eval-reports/<timestamp>). --fail-on-regression exits with 1 when a case the
+// baseline passes fails with the candidate.
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { config as loadEnv } from 'dotenv';
+import { z } from 'zod';
+import {
+  DEFAULT_EVAL_DATASET,
+  evalConfigSchema,
+  evalDatasetSchema,
+  EvalRun,
+  judgeConfigSchema,
+  renderEvalReportHtml,
+  runEvalSuite,
+} from '@/lib/evals';
+
+const NUMBER_KEYS = new Set(['temperature', 'maxTokens']);
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (!flag.startsWith('--')) throw new Error(`Unexpected argument "${flag}"`);
+    const key = flag.slice(2);
+    if (key === 'fail-on-regression') {
+      args[key] = true;
+    } else if (i + 1 < argv.length) {
+      args[key] = argv[++i];
+    } else {
+      throw new Error(`${flag} needs a value`);
+    }
+  }
+  return args;
+}
+
+async function readJson(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, 'utf8'));
+}
+
+function validate<T extends z.ZodType>(schema: T, value: unknown, label: string): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${label}: ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+  }
+  return result.data;
+}
+
+async function parseConfig(value: string, defaultName: string): Promise<Record<string, unknown>> {
+  if (value.endsWith('.json')) {
+    return { name: defaultName, ...((await readJson(value)) as Record<string, unknown>) };
+  }
+
+  const config: Record<string, unknown> = { name: defaultName };
+  for (const pair of value.split(',')) {
+    const [key, ...rest] = pair.split('=');
+    const raw = rest.join('=').trim();
+    config[key.trim()] = NUMBER_KEYS.has(key.trim()) ? Number(raw) : raw;
+  }
+  return config;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function printRun(run: EvalRun): void {
+  const { summary } = run;
+  console.log(
+    `${run.config.name} (${run.model}): ${summary.passed}/${summary.cases} passed (${formatPercent(summary.passRate)}), ` +
+      `fact recall ${formatPercent(summary.factRecall)}, forbidden claims ${summary.forbiddenClaims}, ` +
+      `judge ${formatPercent(summary.judgeScore)}, errors ${summary.errors}, ${summary.averageLatencyMs} ms avg`
+  );
+  for (const result of run.results.filter((result) => !result.passed)) {
+    const reasons = result.grades.filter((grade) => !grade.passed).map((grade) => grade.details);
+    if (result.error) reasons.unshift(result.error);
+    console.log(`  ✗ ${result.caseId}: ${reasons.join('; ')}`);
+  }
+}
+
+async function main(): Promise<void> {
+  loadEnv({ quiet: true });
+
+  const args = parseArgs(process.argv.slice(2));
+  const option = (key: string) => (typeof args[key] === 'string' ? (args[key] as string) : undefined);
+  const baselineArg = option('baseline');
+  if (!baselineArg) {
+    throw new Error('--baseline is required, e.g. --baseline provider=mock');
+  }
+
+  const baseline = validate(evalConfigSchema, await parseConfig(baselineArg, 'baseline'), 'Baseline');
+  const candidateArg = option('candidate');
+  const candidate = candidateArg
+    ? validate(evalConfigSchema, await parseConfig(candidateArg, 'candidate'), 'Candidate')
+    : null;
+  if (candidate && candidate.name === baseline.name) {
+    throw new Error('Baseline and candidate need different names');
+  }
+  const judgeArg = option('judge');
+  const judge = judgeArg ? validate(judgeConfigSchema, await parseConfig(judgeArg, 'judge'), 'Judge') : null;
+  const datasetArg = option('dataset');
+  const dataset = datasetArg ? validate(evalDatasetSchema, await readJson(datasetArg), 'Dataset') : DEFAULT_EVAL_DATASET;
+
+  console.log(`Running ${dataset.cases.length} cases from ${dataset.name}...`);
+  const report = await runEvalSuite(dataset, baseline, candidate, judge);
+
+  const out = option('out') ?? `eval-reports/${report.createdAt.replace(/[:.]/g, '-')}`;
+  await mkdir(dirname(out), { recursive: true });
+  await writeFile(`${out}.json`, JSON.stringify(report, null, 2));
+  await writeFile(`${out}.html`, renderEvalReportHtml(report));
+
+  printRun(report.baseline);
+  if (report.candidate && report.comparison) {
+    printRun(report.candidate);
+    const { comparison } = report;
+    console.log(`Fixed: ${comparison.fixed.join(', ') || 'none'}. Regressed: ${comparison.regressed.join(', ') || 'none'}.`);
+  }
+  console.log(`Report written to ${out}.json and ${out}.html`);
+
+  if (args['fail-on-regression'] && report.comparison && report.comparison.regressed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(`✗ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
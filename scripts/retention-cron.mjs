@@ -0,0 +1,50 @@
+// Cron-style runner for the retention job, for local development or any host
+// without a scheduler. Calls POST /api/admin/retention/run on an interval.
+//
+//   ADMIN_API_KEY=... node scripts/retention-cron.mjs
+//
+// APP_URL defaults to http://localhost:3000 and INTERVAL_MINUTES to 60. Pass
+// --once to run a single time and exit, e.g. from a system crontab.
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+const INTERVAL_MS = (Number(process.env.INTERVAL_MINUTES) || 60) * 60 * 1000;
+const ONCE = process.argv.includes('--once');
+
+if (!ADMIN_API_KEY) {
+  console.error('ADMIN_API_KEY is required');
+  process.exit(1);
+}
+
+async function run() {
+  // A run stops at its cap when there's a backlog, so keep going until it's cleared
+  for (;;) {
+    const response = await fetch(`${APP_URL}/api/admin/retention/run`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${ADMIN_API_KEY}` },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+
+    console.log(
+      `${new Date().toISOString()} ✓ ${result.deleted} deleted, ${result.anonymized} anonymized across ${result.workspaces} workspaces`
+    );
+    if (!result.more) return;
+  }
+}
+
+async function tick() {
+  try {
+    await run();
+  } catch (error) {
+    console.error(`${new Date().toISOString()} ✗ ${error instanceof Error ? error.message : error}`);
+    if (ONCE) process.exitCode = 1;
+  }
+}
+
+await tick();
+if (!ONCE) {
+  console.log(`Running retention every ${INTERVAL_MS / 60000} minutes against ${APP_URL}`);
+  setInterval(tick, INTERVAL_MS);
+}
@@ -0,0 +1,53 @@
+// Local webhook receiver for trying out subscriptions during development.
+// Verifies the X-Spur-Signature header and prints each event.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+//
+// Then create a subscription pointing at http://localhost:4000/webhooks.
+// Set FAIL_RATE=0.5 to answer half the deliveries with a 500 and watch the
+// retries in the delivery log.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 4000;
+const SECRET = process.env.WEBHOOK_SECRET;
+const FAIL_RATE = Number(process.env.FAIL_RATE) || 0;
+// Reject deliveries signed longer ago than this, to stop replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+function verify(body, header) {
+  const parts = Object.fromEntries((header || '').split(',').map((part) => part.split('=')));
+  const timestamp = Number(parts.t);
+  if (!timestamp || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  return expected.length === parts.v1.length && timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+}
+
+createServer((request, response) => {
+  let body = '';
+  request.on('data', (chunk) => (body += chunk));
+  request.on('end', () => {
+    const signature = request.headers['x-spur-signature'];
+    if (SECRET && !verify(body, signature)) {
+      console.log(`✗ bad signature on ${request.headers['x-spur-delivery']}`);
+      response.writeHead(401).end();
+      return;
+    }
+
+    if (Math.random() < FAIL_RATE) {
+      console.log(`… failing ${request.headers['x-spur-delivery']} on purpose`);
+      response.writeHead(500).end();
+      return;
+    }
+
+    const event = JSON.parse(body);
+    console.log(`✓ ${event.type} ${event.id}${SECRET ? '' : ' (signature not checked)'}`);
+    console.log(JSON.stringify(event.data, null, 2));
+    response.writeHead(204).end();
+  });
+}).listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}/webhooks`);
+});
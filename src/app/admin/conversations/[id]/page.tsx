@@ -0,0 +1,5 @@
+import { TranscriptViewer } from '@/components/admin/TranscriptViewer';
+
+export default function AdminConversationPage({ params }: { params: { id: string } }) {
+  return <TranscriptViewer conversationId={params.id} />;
+}
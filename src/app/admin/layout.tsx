@@ -0,0 +1,19 @@
+import type { Metadata } from 'next';
+import { AdminHeader } from '@/components/admin/AdminHeader';
+
+export const metadata: Metadata = {
+  title: 'SpurMart Admin',
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <main className="max-w-6xl mx-auto px-4 py-6">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { AdminLoginForm } from '@/components/admin/AdminLoginForm';
+
+export default function AdminLoginPage({ searchParams }: { searchParams: { next?: string } }) {
+  // Only allow redirects back into the admin area
+  const next = searchParams.next?.startsWith('/admin') ? searchParams.next : '/admin';
+
+  return <AdminLoginForm next={next} />;
+}
@@ -0,0 +1,5 @@
+import { ConversationList } from '@/components/admin/ConversationList';
+
+export default function AdminConversationsPage() {
+  return <ConversationList />;
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+
+const handoffSchema = z.discriminatedUnion('action', [
+  // Take ownership of the conversation; the AI stops replying
+  z.object({
+    action: z.literal('claim'),
+    agentName: z.string().trim().min(1, 'Agent name is required').max(100, 'Agent name too long'),
+  }),
+  // Hand the conversation back to the AI
+  z.object({ action: z.literal('release') }),
+  z.object({ action: z.literal('close') }),
+]);
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = handoffSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.conversation.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const input = validationResult.data;
+    const data =
+      input.action === 'claim'
+        ? { handoffState: 'HUMAN' as const, assignedAgent: input.agentName }
+        : input.action === 'release'
+          ? { handoffState: 'BOT' as const, assignedAgent: null }
+          : { handoffState: 'CLOSED' as const };
+
+    const conversation = await prisma.conversation.update({
+      where: { id: params.id },
+      data,
+    });
+
+    return NextResponse.json({
+      id: conversation.id,
+      handoffState: conversation.handoffState,
+      assignedAgent: conversation.assignedAgent,
+    });
+  } catch (error) {
+    console.error('Handoff API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+}
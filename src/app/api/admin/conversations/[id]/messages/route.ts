@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { emitWebhookEvent, toWebhookConversation, toWebhookMessage } from '@/lib/webhooks';
+import { sendToChannel } from '@/lib/channels';
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+const agentMessageSchema = z.object({
+  agentName: z.string().trim().min(1, 'Agent name is required').max(100, 'Agent name too long'),
+  message: z
+    .string()
+    .trim()
+    .min(1, 'Message cannot be empty')
+    .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`),
+});
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Posting as an agent takes the conversation over: the AI stays silent until
+// the agent releases or closes it.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = agentMessageSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { agentName, message } = validationResult.data;
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const [savedMessage, updated] = await prisma.$transaction([
+      prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          sender: 'AGENT',
+          text: message,
+        },
+      }),
+      prisma.conversation.update({
+        where: { id: conversation.id },
+        data: {
+          handoffState: 'HUMAN',
+          assignedAgent: agentName,
+          updatedAt: new Date(),
+        },
+      }),
+    ]);
+
+    await emitWebhookEvent(updated.workspaceId, 'message.created', {
+      conversation: toWebhookConversation(updated),
+      message: toWebhookMessage(savedMessage),
+    });
+
+    // WhatsApp and SMS customers only see the reply once it's sent on their channel
+    try {
+      await sendToChannel(updated, message);
+    } catch (error) {
+      console.error('Agent reply delivery error:', error);
+      return NextResponse.json(
+        { error: 'Reply saved but could not be delivered to the customer' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      message: {
+        id: savedMessage.id,
+        sender: savedMessage.sender,
+        text: savedMessage.text,
+        timestamp: savedMessage.timestamp,
+      },
+      handoffState: updated.handoffState,
+      assignedAgent: updated.assignedAgent,
+    });
+  } catch (error) {
+    console.error('Agent message API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { anonymizeConversations, deleteConversations, ErasureRequest } from '@/lib/retention';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Full transcript for the admin viewer: the customer history plus the
+// knowledge sources, tool calls and customer feedback behind each AI reply.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: params.id },
+      include: {
+        workspace: {
+          select: { id: true, name: true },
+        },
+        messages: {
+          orderBy: { timestamp: 'asc' },
+          include: {
+            toolInvocations: {
+              orderBy: { createdAt: 'asc' },
+            },
+            feedback: true,
+          },
+        },
+        rating: true,
+      },
+    });
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Admin conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+const ADMIN_REQUEST: ErasureRequest = { reason: 'ADMIN', requestedBy: 'admin' };
+
+// Deletes the conversation, or with `?action=anonymize` strips its content and
+// customer details but keeps it for reporting. Logged in the deletion log.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const action = new URL(request.url).searchParams.get('action') ?? 'delete';
+    if (action !== 'delete' && action !== 'anonymize') {
+      return NextResponse.json({ error: 'Action must be delete or anonymize' }, { status: 400 });
+    }
+
+    const where = { id: params.id };
+    const erased =
+      action === 'anonymize'
+        ? await anonymizeConversations(where, ADMIN_REQUEST)
+        : await deleteConversations(where, ADMIN_REQUEST);
+
+    if (erased === 0) {
+      const exists = action === 'anonymize' && (await prisma.conversation.count({ where })) > 0;
+      return exists
+        ? NextResponse.json({ error: 'Conversation is already anonymized' }, { status: 409 })
+        : NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
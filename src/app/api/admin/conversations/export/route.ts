@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { EXPORT_FORMATS, exportResponse } from '@/lib/transcript-export';
+
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS, { error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` }),
+  // One conversation; the other filters are ignored when it's set
+  conversationId: z.string().optional(),
+  workspaceId: z.string().optional(),
+  from: z.coerce.date({ error: 'Invalid "from" date' }).optional(),
+  to: z.coerce.date({ error: 'Invalid "to" date' }).optional(),
+});
+
+// Downloads transcripts of one conversation, or of every conversation started
+// in a date range and/or workspace, oldest first
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const params = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = exportSchema.safeParse(params);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { format, conversationId, workspaceId, from, to } = validationResult.data;
+
+    if (conversationId) {
+      const conversation = await prisma.conversation.findUnique({ where: { id: conversationId } });
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+      return exportResponse({ id: conversation.id }, format, 'staff', `conversation-${conversation.sessionId}`);
+    }
+
+    const where: Prisma.ConversationWhereInput = {
+      ...(workspaceId ? { workspaceId } : {}),
+      ...(from || to ? { createdAt: { gte: from, lte: to } } : {}),
+    };
+    const day = new Date().toISOString().slice(0, 10);
+    return exportResponse(where, format, 'staff', `conversations-${day}`);
+  } catch (error) {
+    console.error('Conversation export API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export conversations' },
+      { status: 500 }
+    );
+  }
+}
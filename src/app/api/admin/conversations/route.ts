@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Intent, Sentiment, Urgency } from '@prisma/client';
+import { requireAdmin } from '@/lib/admin-auth';
+import { searchConversations } from '@/lib/conversation-search';
+import { LOCALES } from '@/lib/i18n';
+
+const MAX_PAGE_SIZE = 100;
+
+const booleanParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const listSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page size must be at least 1')
+    .max(MAX_PAGE_SIZE, `Page size too large (max ${MAX_PAGE_SIZE})`)
+    .default(20),
+  from: z.coerce.date({ error: 'Invalid "from" date' }).optional(),
+  to: z.coerce.date({ error: 'Invalid "to" date' }).optional(),
+  minMessages: z.coerce.number().int().min(0).optional(),
+  maxMessages: z.coerce.number().int().min(0).optional(),
+  handoffState: z.enum(['BOT', 'WAITING_FOR_HUMAN', 'HUMAN', 'CLOSED']).optional(),
+  escalated: booleanParam.optional(),
+  unanswered: booleanParam.optional(),
+  q: z.string().trim().max(200, 'Search query too long').optional(),
+  workspaceId: z.string().optional(),
+  channel: z.enum(['WEB', 'WHATSAPP', 'SMS', 'EMAIL']).optional(),
+  sentiment: z.enum(Sentiment).optional(),
+  intent: z.enum(Intent).optional(),
+  urgency: z.enum(Urgency).optional(),
+  tag: z.string().trim().toLowerCase().max(50, 'Tag too long').optional(),
+  locale: z.enum(LOCALES).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const params = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = listSchema.safeParse(params);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { q, ...filters } = validationResult.data;
+    const { conversations, total } = await searchConversations({ ...filters, query: q || undefined });
+
+    return NextResponse.json({
+      conversations,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+    });
+  } catch (error) {
+    console.error('Admin conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversations' },
+      { status: 500 }
+    );
+  }
+}
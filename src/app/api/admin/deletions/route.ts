@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+
+const MAX_PAGE_SIZE = 100;
+
+const listSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page size must be at least 1')
+    .max(MAX_PAGE_SIZE, `Page size too large (max ${MAX_PAGE_SIZE})`)
+    .default(50),
+  reason: z.enum(['RETENTION', 'CUSTOMER_REQUEST', 'ADMIN']).optional(),
+  action: z.enum(['DELETE', 'ANONYMIZE']).optional(),
+  from: z.coerce.date({ error: 'Invalid "from" date' }).optional(),
+  to: z.coerce.date({ error: 'Invalid "to" date' }).optional(),
+  workspaceId: z.string().optional(),
+  // Look up what happened to one conversation
+  conversationId: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+
+// Deletion log: every conversation deleted or anonymized, newest first
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const params = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = listSchema.safeParse(params);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { page, pageSize, from, to, ...filters } = validationResult.data;
+    const where: Prisma.DeletionLogWhereInput = {
+      ...filters,
+      ...(from || to ? { createdAt: { gte: from, lte: to } } : {}),
+    };
+
+    const [deletions, total] = await Promise.all([
+      prisma.deletionLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.deletionLog.count({ where }),
+    ]);
+
+    return NextResponse.json({ deletions, page, pageSize, total });
+  } catch (error) {
+    console.error('Deletion log API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deletion log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listRatedAnswers } from '@/lib/feedback';
+
+const MAX_PAGE_SIZE = 100;
+
+const listSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page size must be at least 1')
+    .max(MAX_PAGE_SIZE, `Page size too large (max ${MAX_PAGE_SIZE})`)
+    .default(20),
+  // Thumbs down by default: the answers that need attention
+  rating: z.enum(['UP', 'DOWN', 'ALL']).default('DOWN'),
+  from: z.coerce.date({ error: 'Invalid "from" date' }).optional(),
+  to: z.coerce.date({ error: 'Invalid "to" date' }).optional(),
+  workspaceId: z.string().optional(),
+});
+
+// Rated AI replies with the customer question they answered and the
+// knowledge and tools behind them, newest vote first
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const params = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = listSchema.safeParse(params);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { rating, ...filters } = validationResult.data;
+    const { answers, total } = await listRatedAnswers({
+      ...filters,
+      rating: rating === 'ALL' ? undefined : rating,
+    });
+
+    return NextResponse.json({
+      answers,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+    });
+  } catch (error) {
+    console.error('Admin feedback API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback' },
+      { status: 500 }
+    );
+  }
+}
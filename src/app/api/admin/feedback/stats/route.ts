@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getFeedbackStats } from '@/lib/feedback';
+
+const statsSchema = z.object({
+  from: z.coerce.date({ error: 'Invalid "from" date' }).optional(),
+  to: z.coerce.date({ error: 'Invalid "to" date' }).optional(),
+  workspaceId: z.string().optional(),
+});
+
+// Vote counts, CSAT average and distribution, and the knowledge articles
+// behind the most thumbs down
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const params = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = statsSchema.safeParse(params);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const stats = await getFeedbackStats(validationResult.data);
+
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('Admin feedback API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { invalidateKnowledgeCache } from '@/lib/knowledge-base';
+import { clearReplyCache } from '@/lib/reply-cache';
+
+const updateArticleSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title cannot be empty').max(200, 'Title too long (max 200 characters)'),
+    category: z.string().trim().min(1, 'Category cannot be empty').max(50, 'Category too long (max 50 characters)'),
+    body: z.string().trim().min(1, 'Body cannot be empty'),
+    published: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const article = await prisma.knowledgeArticle.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!article) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ article });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch article' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateArticleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.knowledgeArticle.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+
+    const { published, ...content } = validationResult.data;
+
+    // Only content edits bump the version; publishing/unpublishing does not
+    const article = await prisma.knowledgeArticle.update({
+      where: { id: params.id },
+      data: {
+        ...validationResult.data,
+        ...(Object.keys(content).length > 0 ? { version: { increment: 1 } } : {}),
+      },
+    });
+
+    if (existing.published || published) {
+      invalidateKnowledgeCache();
+      await clearReplyCache(existing.workspaceId);
+    }
+
+    return NextResponse.json({ article });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update article' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const existing = await prisma.knowledgeArticle.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 });
+    }
+
+    await prisma.knowledgeArticle.delete({
+      where: { id: params.id },
+    });
+
+    if (existing.published) {
+      invalidateKnowledgeCache();
+      await clearReplyCache(existing.workspaceId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete article' },
+      { status: 500 }
+    );
+  }
+}
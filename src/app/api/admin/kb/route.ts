@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { invalidateKnowledgeCache } from '@/lib/knowledge-base';
+import { clearReplyCache } from '@/lib/reply-cache';
+import { DEFAULT_LOCALE, LOCALES } from '@/lib/i18n';
+
+const createArticleSchema = z.object({
+  workspaceId: z.string().min(1, 'Workspace is required'),
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long (max 200 characters)'),
+  category: z.string().trim().min(1, 'Category is required').max(50, 'Category too long (max 50 characters)'),
+  body: z.string().trim().min(1, 'Body is required'),
+  published: z.boolean().optional(),
+  locale: z.enum(LOCALES).optional(),
+  // The default-language article this one translates
+  translationOfId: z.string().min(1).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const workspaceId = searchParams.get('workspaceId');
+    const category = searchParams.get('category');
+    const published = searchParams.get('published');
+    const locale = searchParams.get('locale');
+
+    const articles = await prisma.knowledgeArticle.findMany({
+      where: {
+        ...(workspaceId ? { workspaceId } : {}),
+        ...(category ? { category } : {}),
+        ...(published !== null ? { published: published === 'true' } : {}),
+        ...(locale ? { locale } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ articles });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch articles' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createArticleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: validationResult.data.workspaceId },
+    });
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 400 });
+    }
+
+    const { translationOfId, locale = DEFAULT_LOCALE } = validationResult.data;
+    if (translationOfId) {
+      const original = await prisma.knowledgeArticle.findFirst({
+        where: { id: translationOfId, workspaceId: workspace.id },
+      });
+      if (!original || original.translationOfId || original.locale !== DEFAULT_LOCALE) {
+        return NextResponse.json(
+          { error: `Translations must point to a ${DEFAULT_LOCALE} article in the same workspace` },
+          { status: 400 }
+        );
+      }
+      if (locale === DEFAULT_LOCALE) {
+        return NextResponse.json({ error: `A translation needs a locale other than ${DEFAULT_LOCALE}` }, { status: 400 });
+      }
+    }
+
+    const article = await prisma.knowledgeArticle.create({
+      data: validationResult.data,
+    });
+
+    invalidateKnowledgeCache();
+    await clearReplyCache(article.workspaceId);
+
+    return NextResponse.json({ article }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'This article already has a translation in that language' }, { status: 409 });
+    }
+
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create article' },
+      { status: 500 }
+    );
+  }
+}
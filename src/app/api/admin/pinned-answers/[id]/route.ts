@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { normalizeQuestion } from '@/lib/reply-cache';
+
+const updatePinnedAnswerSchema = z
+  .object({
+    question: z.string().trim().min(1, 'Question cannot be empty').max(500, 'Question too long (max 500 characters)'),
+    answer: z.string().trim().min(1, 'Answer cannot be empty').max(4000, 'Answer too long (max 4000 characters)'),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const pinnedAnswer = await prisma.pinnedAnswer.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!pinnedAnswer) {
+      return NextResponse.json({ error: 'Pinned answer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ pinnedAnswer });
+  } catch (error) {
+    console.error('Pinned answers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pinned answer' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updatePinnedAnswerSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { question, answer } = validationResult.data;
+    const normalizedQuestion = question !== undefined ? normalizeQuestion(question) : undefined;
+    if (normalizedQuestion === '') {
+      return NextResponse.json({ error: 'Question needs at least one meaningful word' }, { status: 400 });
+    }
+
+    const existing = await prisma.pinnedAnswer.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Pinned answer not found' }, { status: 404 });
+    }
+
+    const pinnedAnswer = await prisma.pinnedAnswer.update({
+      where: { id: params.id },
+      data: { question, answer, normalizedQuestion },
+    });
+
+    return NextResponse.json({ pinnedAnswer });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'This question already has a pinned answer' }, { status: 409 });
+    }
+
+    console.error('Pinned answers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update pinned answer' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const existing = await prisma.pinnedAnswer.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Pinned answer not found' }, { status: 404 });
+    }
+
+    await prisma.pinnedAnswer.delete({
+      where: { id: params.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Pinned answers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete pinned answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { normalizeQuestion } from '@/lib/reply-cache';
+
+const createPinnedAnswerSchema = z.object({
+  workspaceId: z.string().min(1, 'Workspace is required'),
+  question: z.string().trim().min(1, 'Question is required').max(500, 'Question too long (max 500 characters)'),
+  answer: z.string().trim().min(1, 'Answer is required').max(4000, 'Answer too long (max 4000 characters)'),
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const workspaceId = new URL(request.url).searchParams.get('workspaceId');
+
+    const pinnedAnswers = await prisma.pinnedAnswer.findMany({
+      where: workspaceId ? { workspaceId } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ pinnedAnswers });
+  } catch (error) {
+    console.error('Pinned answers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pinned answers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createPinnedAnswerSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const normalizedQuestion = normalizeQuestion(validationResult.data.question);
+    if (!normalizedQuestion) {
+      return NextResponse.json({ error: 'Question needs at least one meaningful word' }, { status: 400 });
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: validationResult.data.workspaceId },
+    });
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 400 });
+    }
+
+    const pinnedAnswer = await prisma.pinnedAnswer.create({
+      data: { ...validationResult.data, normalizedQuestion },
+    });
+
+    return NextResponse.json({ pinnedAnswer }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'This question already has a pinned answer' }, { status: 409 });
+    }
+
+    console.error('Pinned answers API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create pinned answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { clearReplyCache, getReplyCacheStats, getReplyCacheStore } from '@/lib/reply-cache';
+
+const replyCacheQuerySchema = z.object({
+  workspaceId: z.string().min(1, 'Workspace is required'),
+});
+
+// Hit/miss counts for the workspace since this server process started
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    // Validate input
+    const validationResult = replyCacheQuerySchema.safeParse({
+      workspaceId: new URL(request.url).searchParams.get('workspaceId'),
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { workspaceId } = validationResult.data;
+    const stats = getReplyCacheStats(workspaceId);
+    const lookups = stats.pinnedHits + stats.hits + stats.misses;
+    const cachedReplies = await prisma.message.count({
+      where: { sender: 'AI', fromCache: true, conversation: { workspaceId } },
+    });
+
+    return NextResponse.json({
+      enabled: getReplyCacheStore() !== null,
+      stats: {
+        ...stats,
+        hitRate: lookups > 0 ? Math.round(((stats.pinnedHits + stats.hits) / lookups) * 1000) / 1000 : null,
+      },
+      // All time, from the stored messages
+      cachedReplies,
+    });
+  } catch (error) {
+    console.error('Reply cache API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reply cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+// Drops the workspace's cached replies; pinned answers are kept
+export async function DELETE(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    // Validate input
+    const validationResult = replyCacheQuerySchema.safeParse({
+      workspaceId: new URL(request.url).searchParams.get('workspaceId'),
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    await clearReplyCache(validationResult.data.workspaceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Reply cache API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear reply cache' },
+      { status: 500 }
+    );
+  }
+}
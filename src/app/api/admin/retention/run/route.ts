@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { runRetention } from '@/lib/retention';
+
+// Applies every workspace's retention window once. Call this on a schedule:
+// from the host's cron, or locally with scripts/retention-cron.mjs.
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await runRetention();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Retention API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run retention' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ruleActionsSchema, ruleConditionsSchema } from '@/lib/rules';
+
+const updateRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name cannot be empty').max(100, 'Name too long (max 100 characters)'),
+    enabled: z.boolean(),
+    conditions: ruleConditionsSchema,
+    actions: ruleActionsSchema,
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const rule = await prisma.conversationRule.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { matches: true } } },
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateRuleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.conversationRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const rule = await prisma.conversationRule.update({
+      where: { id: params.id },
+      data: validationResult.data,
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const existing = await prisma.conversationRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    await prisma.conversationRule.delete({
+      where: { id: params.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ruleActionsSchema, ruleConditionsSchema } from '@/lib/rules';
+
+const createRuleSchema = z.object({
+  workspaceId: z.string().min(1, 'Workspace is required'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long (max 100 characters)'),
+  enabled: z.boolean().optional(),
+  conditions: ruleConditionsSchema,
+  actions: ruleActionsSchema,
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const workspaceId = new URL(request.url).searchParams.get('workspaceId');
+
+    const rules = await prisma.conversationRule.findMany({
+      where: workspaceId ? { workspaceId } : {},
+      include: { _count: { select: { matches: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createRuleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: validationResult.data.workspaceId },
+    });
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 400 });
+    }
+
+    const rule = await prisma.conversationRule.create({
+      data: validationResult.data,
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create rule' },
+      { status: 500 }
+    );
+  }
+}
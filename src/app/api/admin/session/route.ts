@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isValidAdminKey } from '@/lib/admin-auth';
+import { ADMIN_SESSION_COOKIE, ADMIN_SESSION_TTL_SECONDS, createAdminSessionToken } from '@/lib/admin-session';
+
+const loginSchema = z.object({
+  key: z.string().min(1, 'Admin key is required'),
+});
+
+// Exchanges the admin key for a session cookie used by the dashboard pages
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = loginSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (!process.env.ADMIN_API_KEY) {
+      return NextResponse.json(
+        { error: 'Admin API is not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (!isValidAdminKey(validationResult.data.key)) {
+      return NextResponse.json({ error: 'Invalid admin key' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(ADMIN_SESSION_COOKIE, await createAdminSessionToken(process.env.ADMIN_API_KEY), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: ADMIN_SESSION_TTL_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    console.error('Admin session API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin-auth';
+import { usageByConversation, usageByDay, usageByWorkspace } from '@/lib/usage';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const usageQuerySchema = z.object({
+  groupBy: z.enum(['day', 'conversation', 'workspace']).default('day'),
+  workspaceId: z.string().min(1).optional(),
+  from: z.coerce.date({ error: 'Invalid "from" date' }).optional(),
+  to: z.coerce.date({ error: 'Invalid "to" date' }).optional(),
+  // Only for groupBy=conversation
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(500, 'Limit must be at most 500')
+    .default(50),
+});
+
+// Token usage and cost of AI replies and classifications, grouped by UTC day, by conversation
+// (most expensive first) or by workspace. Defaults to the last 30 days.
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const params = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = usageQuerySchema.safeParse(params);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { groupBy, workspaceId, limit } = validationResult.data;
+    const to = validationResult.data.to ?? new Date();
+    const from = validationResult.data.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      return NextResponse.json({ error: '"from" must be before "to"' }, { status: 400 });
+    }
+
+    const range = { from, to, workspaceId };
+    const usage =
+      groupBy === 'conversation'
+        ? await usageByConversation(range, limit)
+        : groupBy === 'workspace'
+          ? await usageByWorkspace(range)
+          : await usageByDay(range);
+
+    return NextResponse.json({ groupBy, from, to, usage });
+  } catch (error) {
+    console.error('Usage API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
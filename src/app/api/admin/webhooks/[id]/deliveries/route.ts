@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+
+const MAX_PAGE_SIZE = 100;
+
+const listSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page size must be at least 1')
+    .max(MAX_PAGE_SIZE, `Page size too large (max ${MAX_PAGE_SIZE})`)
+    .default(20),
+  status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']).optional(),
+  eventType: z.string().optional(),
+});
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Delivery log for one subscription, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate input; empty parameters are treated as absent
+    const query = Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+    const validationResult = listSchema.safeParse(query);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const webhook = await prisma.webhookSubscription.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const { page, pageSize, status, eventType } = validationResult.data;
+    const where = {
+      subscriptionId: params.id,
+      ...(status ? { status } : {}),
+      ...(eventType ? { eventType } : {}),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return NextResponse.json({ deliveries, page, pageSize, total });
+  } catch (error) {
+    console.error('Webhook deliveries API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deliveries' },
+      { status: 500 }
+    );
+  }
+}
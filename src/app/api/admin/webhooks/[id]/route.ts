@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { generateWebhookSecret, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks';
+
+const updateWebhookSchema = z
+  .object({
+    url: z.url({ protocol: /^https?$/, error: 'URL must be a valid http(s) URL' }),
+    events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Subscribe to at least one event'),
+    description: z.string().trim().max(200, 'Description too long (max 200 characters)').nullable(),
+    active: z.boolean(),
+    // Issues a new signing secret, returned once in the response
+    regenerateSecret: z.literal(true),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const webhook = await prisma.webhookSubscription.findUnique({
+      where: { id: params.id },
+      omit: { secret: true },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateWebhookSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.webhookSubscription.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const { regenerateSecret, ...fields } = validationResult.data;
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id: params.id },
+      data: {
+        ...fields,
+        ...(regenerateSecret ? { secret: generateWebhookSecret() } : {}),
+      },
+      omit: { secret: !regenerateSecret },
+    });
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also deletes the subscription's delivery log
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const existing = await prisma.webhookSubscription.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    await prisma.webhookSubscription.delete({
+      where: { id: params.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
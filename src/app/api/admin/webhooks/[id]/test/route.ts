@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { queueTestEvent } from '@/lib/webhooks';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Queues a `webhook.test` event for the subscription; check the delivery log
+// for the outcome
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const webhook = await prisma.webhookSubscription.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const delivery = await queueTestEvent(webhook);
+
+    return NextResponse.json({ delivery }, { status: 202 });
+  } catch (error) {
+    console.error('Webhook test API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test event' },
+      { status: 500 }
+    );
+  }
+}
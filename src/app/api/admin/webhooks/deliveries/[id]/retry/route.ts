@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { scheduleWebhookQueue } from '@/lib/webhooks';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Puts a delivery back in the queue with a fresh set of attempts, e.g. after
+// fixing a receiver that failed for too long
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const existing = await prisma.webhookDelivery.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const delivery = await prisma.webhookDelivery.update({
+      where: { id: params.id },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date() },
+    });
+    scheduleWebhookQueue();
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('Webhook retry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry delivery' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { processDueDeliveries } from '@/lib/webhooks';
+
+// Runs one batch of due deliveries. Call this from a cron job on serverless
+// hosts, where the in-process retry timer can't be relied on.
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await processDueDeliveries();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Webhook queue API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { generateWebhookSecret, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks';
+
+const createWebhookSchema = z.object({
+  workspaceId: z.string().min(1, 'Workspace is required'),
+  url: z.url({ protocol: /^https?$/, error: 'URL must be a valid http(s) URL' }),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Subscribe to at least one event'),
+  description: z.string().trim().max(200, 'Description too long (max 200 characters)').optional(),
+  active: z.boolean().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const workspaceId = new URL(request.url).searchParams.get('workspaceId');
+
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: workspaceId ? { workspaceId } : {},
+      omit: { secret: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+// The response is the only time the signing secret is shown
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createWebhookSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: validationResult.data.workspaceId },
+    });
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 400 });
+    }
+
+    const webhook = await prisma.webhookSubscription.create({
+      data: { ...validationResult.data, secret: generateWebhookSecret() },
+    });
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
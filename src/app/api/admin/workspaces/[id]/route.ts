@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { generateWidgetKey } from '@/lib/workspace';
+import { ORDER_ADAPTERS } from '@/lib/orders';
+
+const updateWorkspaceSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name cannot be empty').max(100, 'Name too long (max 100 characters)'),
+    supportEmail: z.email('Support email must be a valid email address'),
+    hostnames: z.array(z.string().trim().toLowerCase().min(1, 'Hostname cannot be empty')),
+    allowedOrigins: z.array(
+      z.string().trim().toLowerCase().regex(/^https?:\/\/[^/\s]+$/, 'Allowed origins must look like https://shop.example.com')
+    ),
+    whatsappPhoneNumberId: z.string().trim().min(1, 'WhatsApp phone number id cannot be empty').nullable(),
+    // E.164, as Twilio sends it
+    smsNumber: z.string().trim().regex(/^\+[1-9]\d{6,14}$/, 'SMS number must be in E.164 format, e.g. +15551234567').nullable(),
+    // Lowercased, matched against the recipient of inbound email
+    inboundEmail: z.email('Inbound email must be a valid email address').toLowerCase().nullable(),
+    persona: z.string().trim().max(2000, 'Persona too long (max 2000 characters)').nullable(),
+    llmProvider: z.enum(['openai', 'anthropic', 'mock']).nullable(),
+    llmModel: z.string().trim().max(100, 'Model name too long').nullable(),
+    temperature: z.number().min(0).max(2),
+    maxTokens: z.number().int().min(50).max(4000),
+    // Monthly LLM spend in USD that budget alerts measure against
+    monthlyBudgetUsd: z.number().positive('Monthly budget must be positive').max(1_000_000).nullable(),
+    // Percentages of the monthly budget that send an alert
+    budgetAlertThresholds: z.array(z.number().int().min(1).max(1000)).max(10, 'At most 10 alert thresholds'),
+    // Days a conversation is kept after its last activity; forever when null
+    retentionDays: z.number().int().min(1, 'Retention must be at least 1 day').max(3650, 'Retention too long (max 3650 days)').nullable(),
+    // What the retention job does with expired conversations
+    retentionAction: z.enum(['DELETE', 'ANONYMIZE']),
+    // Order system for the order tools; no tools when null
+    orderAdapter: z.enum(ORDER_ADAPTERS).nullable(),
+    returnWindowDays: z.number().int().min(0).max(365, 'Return window too long (max 365 days)'),
+    // Told to the customer once a return has been started
+    returnInstructions: z.string().trim().max(1000, 'Return instructions too long (max 1000 characters)').nullable(),
+    // Issues a new public widget key; the old one stops working immediately
+    regenerateKey: z.literal(true),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error('Workspaces API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateWorkspaceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.workspace.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const { regenerateKey, ...fields } = validationResult.data;
+    const workspace = await prisma.workspace.update({
+      where: { id: params.id },
+      data: {
+        ...fields,
+        ...(regenerateKey ? { publicKey: generateWidgetKey() } : {}),
+      },
+    });
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Another workspace already uses this channel account' }, { status: 409 });
+    }
+
+    console.error('Workspaces API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { generateWidgetKey } from '@/lib/workspace';
+import { ORDER_ADAPTERS } from '@/lib/orders';
+
+const createWorkspaceSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9-]+$/, 'Slug may only contain lowercase letters, numbers and dashes')
+    .max(50, 'Slug too long (max 50 characters)'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long (max 100 characters)'),
+  supportEmail: z.email('Support email must be a valid email address'),
+  hostnames: z.array(z.string().trim().toLowerCase().min(1, 'Hostname cannot be empty')).optional(),
+  allowedOrigins: z.array(
+    z.string().trim().toLowerCase().regex(/^https?:\/\/[^/\s]+$/, 'Allowed origins must look like https://shop.example.com')
+  ).optional(),
+  whatsappPhoneNumberId: z.string().trim().min(1, 'WhatsApp phone number id cannot be empty').nullable().optional(),
+  // E.164, as Twilio sends it
+  smsNumber: z.string().trim().regex(/^\+[1-9]\d{6,14}$/, 'SMS number must be in E.164 format, e.g. +15551234567').nullable().optional(),
+  // Lowercased, matched against the recipient of inbound email
+  inboundEmail: z.email('Inbound email must be a valid email address').toLowerCase().nullable().optional(),
+  persona: z.string().trim().max(2000, 'Persona too long (max 2000 characters)').nullable().optional(),
+  llmProvider: z.enum(['openai', 'anthropic', 'mock']).nullable().optional(),
+  llmModel: z.string().trim().max(100, 'Model name too long').nullable().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(50).max(4000).optional(),
+  // Monthly LLM spend in USD that budget alerts measure against
+  monthlyBudgetUsd: z.number().positive('Monthly budget must be positive').max(1_000_000).nullable().optional(),
+  // Percentages of the monthly budget that send an alert
+  budgetAlertThresholds: z.array(z.number().int().min(1).max(1000)).max(10, 'At most 10 alert thresholds').optional(),
+  // Days a conversation is kept after its last activity; forever when null
+  retentionDays: z.number().int().min(1, 'Retention must be at least 1 day').max(3650, 'Retention too long (max 3650 days)').nullable().optional(),
+  // What the retention job does with expired conversations
+  retentionAction: z.enum(['DELETE', 'ANONYMIZE']).optional(),
+  // Order system for the order tools; no tools when null
+  orderAdapter: z.enum(ORDER_ADAPTERS).nullable().optional(),
+  returnWindowDays: z.number().int().min(0).max(365, 'Return window too long (max 365 days)').optional(),
+  // Told to the customer once a return has been started
+  returnInstructions: z.string().trim().max(1000, 'Return instructions too long (max 1000 characters)').nullable().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const workspaces = await prisma.workspace.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    console.error('Workspaces API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const unauthorized = await requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createWorkspaceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await prisma.workspace.create({
+      data: { ...validationResult.data, publicKey: generateWidgetKey() },
+    });
+
+    return NextResponse.json({ workspace }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Another workspace already uses this slug or channel account' }, { status: 409 });
+    }
+
+    console.error('Workspaces API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
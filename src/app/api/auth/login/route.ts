@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { sendLoginLink } from '@/lib/customer-auth';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+const loginSchema = z.object({
+  email: z.email('Please enter a valid email address'),
+});
+
+// Emails a magic sign-in link. Always succeeds for a valid address so the
+// response doesn't reveal which emails have accounts.
+export async function POST(request: NextRequest) {
+  try {
+    // Each request sends an email, so keep this tighter than chat
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.login, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many sign-in attempts. Please try again later.');
+    }
+
+    // Only used to brand the email; accounts are shared across workspaces
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = loginSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const baseUrl = process.env.APP_URL || request.nextUrl.origin;
+    await sendLoginLink(validationResult.data.email, baseUrl, workspace.name);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Login API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCustomerId } from '@/lib/customer-auth';
+
+// The signed-in customer, or `{ user: null }` for anonymous visitors
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCustomerId(request);
+    const user = userId
+      ? await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, email: true },
+        })
+      : null;
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Me API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch account' },
+      { status: 500 }
+    );
+  }
+}
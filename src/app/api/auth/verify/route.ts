@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVisitor } from '@/lib/visitor';
+import { linkVisitorConversations, redeemLoginToken, setCustomerSessionCookie } from '@/lib/customer-auth';
+
+// Target of the emailed magic link. Signs the customer in, moves the
+// conversations they had as an anonymous visitor into their account and
+// sends them back to the chat.
+export async function GET(request: NextRequest) {
+  const redirectUrl = new URL('/', request.url);
+
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    const user = token ? await redeemLoginToken(token) : null;
+
+    if (!user) {
+      redirectUrl.searchParams.set('login', 'invalid');
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    const visitor = await getVisitor(request);
+    if (!visitor.isNew) {
+      await linkVisitorConversations(visitor.id, user.id);
+    }
+
+    const response = NextResponse.redirect(redirectUrl);
+    await setCustomerSessionCookie(response, user.id);
+    return response;
+  } catch (error) {
+    console.error('Verify API error:', error);
+    redirectUrl.searchParams.set('login', 'error');
+    return NextResponse.redirect(redirectUrl);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChannelAdapter, handleInboundMessage, verifyInboundRequest } from '@/lib/channels';
+
+// Mailgun posts multipart/form-data when a message has attachments. Those are
+// dropped: only the text fields are turned into a form-encoded body for the
+// adapter.
+async function readFormBody(request: NextRequest): Promise<string> {
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return request.text();
+  }
+
+  const params = new URLSearchParams();
+  for (const [name, value] of Array.from((await request.formData()).entries())) {
+    if (typeof value === 'string') {
+      params.append(name, value);
+    }
+  }
+  return params.toString();
+}
+
+// Inbound email, already parsed by Mailgun. Replies are sent through the
+// mailer rather than in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const adapter = getChannelAdapter('EMAIL');
+    const rawBody = await readFormBody(request);
+
+    if (!(await verifyInboundRequest(adapter, request, rawBody))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    for (const message of adapter.parse(rawBody)) {
+      await handleInboundMessage(message);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Email webhook error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChannelAdapter, handleInboundMessage, verifyInboundRequest } from '@/lib/channels';
+
+// Empty TwiML: replies are sent through the Twilio API rather than in this response
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+// Inbound SMS from Twilio
+export async function POST(request: NextRequest) {
+  try {
+    const adapter = getChannelAdapter('SMS');
+    const rawBody = await request.text();
+
+    if (!(await verifyInboundRequest(adapter, request, rawBody))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    for (const message of adapter.parse(rawBody)) {
+      await handleInboundMessage(message);
+    }
+
+    return new NextResponse(EMPTY_TWIML, { headers: { 'Content-Type': 'text/xml' } });
+  } catch (error) {
+    console.error('SMS webhook error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChannelAdapter, handleInboundMessage, verifyInboundRequest, verifyWhatsAppSubscription } from '@/lib/channels';
+
+// Meta calls this once when the webhook is registered in the app dashboard
+export async function GET(request: NextRequest) {
+  const challenge = verifyWhatsAppSubscription(request.nextUrl.searchParams, process.env.WHATSAPP_VERIFY_TOKEN);
+  if (challenge === null) {
+    return NextResponse.json({ error: 'Invalid verify token' }, { status: 403 });
+  }
+  return new NextResponse(challenge);
+}
+
+// Inbound WhatsApp messages. Replies are sent through the Cloud API rather
+// than in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const adapter = getChannelAdapter('WHATSAPP');
+    const rawBody = await request.text();
+
+    if (!(await verifyInboundRequest(adapter, request, rawBody))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    for (const message of adapter.parse(rawBody)) {
+      await handleInboundMessage(message);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('WhatsApp webhook error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process message' },
+      { status: 500 }
+    );
+  }
+}
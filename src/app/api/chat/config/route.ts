@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+// Public details the widget needs to present itself for the caller's
+// workspace, plus the origins allowed to embed it
+export async function GET(request: NextRequest) {
+  try {
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    return NextResponse.json({
+      workspace: {
+        name: workspace.name,
+        supportEmail: workspace.supportEmail,
+        allowedOrigins: workspace.allowedOrigins,
+      },
+    });
+  } catch (error) {
+    console.error('Chat config API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chat settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner, ownedBy } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { customerRequester, deleteConversations } from '@/lib/retention';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
 
 export async function GET(request: NextRequest) {
   try {
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const owner = await getChatOwner(request);
+
+    // Only the caller's own conversations in this workspace
     const conversations = await prisma.conversation.findMany({
+      where: { workspaceId: workspace.id, ...ownedBy(owner) },
       orderBy: { updatedAt: 'desc' },
       include: {
         messages: {
@@ -16,7 +34,7 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       conversations: conversations.map((conv) => ({
         id: conv.id,
         sessionId: conv.sessionId,
@@ -26,6 +44,7 @@ export async function GET(request: NextRequest) {
         firstMessage: conv.messages[0]?.text || 'New conversation',
       })),
     });
+    return withVisitorCookie(response, owner.visitor);
   } catch (error) {
     console.error('Conversations API error:', error);
     return NextResponse.json(
@@ -33,4 +52,43 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Deletes the caller's conversations in this workspace, or just one with
+// `?sessionId=`. Logged in the deletion log; there is no undo.
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.privacy, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many requests. Please try again later.');
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    const owner = await getChatOwner(request);
+    const deleted = await deleteConversations(
+      { workspaceId: workspace.id, ...ownedBy(owner), ...(sessionId ? { sessionId } : {}) },
+      { reason: 'CUSTOMER_REQUEST', requestedBy: customerRequester(owner) }
+    );
+
+    // A session the caller doesn't own looks the same as one that doesn't exist
+    if (sessionId && deleted === 0) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return withVisitorCookie(NextResponse.json({ deleted }), owner.visitor);
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversations' },
+      { status: 500 }
+    );
+  }
+}
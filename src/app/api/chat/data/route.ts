@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { collectPersonalData } from '@/lib/retention';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+// Right of access: downloads everything stored about the caller in this
+// workspace as one JSON file. A plain GET so the widget can link to it.
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.privacy, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many requests. Please try again later.');
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const owner = await getChatOwner(request);
+    const data = await collectPersonalData(workspace, owner);
+
+    const response = new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${workspace.slug}-my-data.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+    return withVisitorCookie(response, owner.visitor);
+  } catch (error) {
+    console.error('Data access API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to collect your data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner, ownedBy } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { EXPORT_FORMATS, exportResponse } from '@/lib/transcript-export';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS, { error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` }),
+  // One of the caller's conversations; all of them when omitted
+  sessionId: z.string().min(1).optional(),
+});
+
+// Downloads the caller's own conversations in this workspace. A plain GET so
+// the widget can link to it; the workspace comes from the `widgetKey` query
+// param when the link can't send the header.
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.export, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many downloads. Please try again later.');
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Validate input
+    const validationResult = exportSchema.safeParse({
+      format: searchParams.get('format') ?? undefined,
+      sessionId: searchParams.get('sessionId') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { format, sessionId } = validationResult.data;
+    const owner = await getChatOwner(request);
+    const where: Prisma.ConversationWhereInput = {
+      workspaceId: workspace.id,
+      ...ownedBy(owner),
+      ...(sessionId ? { sessionId } : {}),
+    };
+
+    // Someone else's session looks the same as one that doesn't exist
+    if ((await prisma.conversation.count({ where })) === 0) {
+      return NextResponse.json({ error: 'No conversations to download' }, { status: 404 });
+    }
+
+    const filename = sessionId ? `chat-${sessionId}` : `chats-${new Date().toISOString().slice(0, 10)}`;
+    return withVisitorCookie(exportResponse(where, format, 'customer', filename), owner.visitor);
+  } catch (error) {
+    console.error('Chat export API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner, ownedBy } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { rateConversation } from '@/lib/feedback';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+const csatSchema = z.object({
+  sessionId: z.string().min(1, 'Session ID is required'),
+  score: z.number().int().min(1, 'Score must be between 1 and 5').max(5, 'Score must be between 1 and 5'),
+  comment: z.string().trim().max(1000, 'Comment too long (max 1000 characters)').optional(),
+});
+
+// End-of-conversation satisfaction score for one of the caller's own
+// conversations. Rating again replaces the earlier score.
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.feedback, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many requests. Please try again in a moment.');
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = csatSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId, score, comment } = validationResult.data;
+
+    // A session the caller doesn't own looks the same as one that doesn't exist
+    const owner = await getChatOwner(request);
+    const conversation = await prisma.conversation.findFirst({
+      where: { sessionId, workspaceId: workspace.id, ...ownedBy(owner) },
+      select: { id: true },
+    });
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const rating = await rateConversation(conversation.id, score, comment || null);
+
+    return withVisitorCookie(
+      NextResponse.json({ csat: { score: rating.score, comment: rating.comment } }),
+      owner.visitor
+    );
+  } catch (error) {
+    console.error('CSAT API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save rating' },
+      { status: 500 }
+    );
+  }
+}
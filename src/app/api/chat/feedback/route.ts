@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner, ownedBy } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { rateMessage } from '@/lib/feedback';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+const feedbackSchema = z.object({
+  sessionId: z.string().min(1, 'Session ID is required'),
+  messageId: z.string().min(1, 'Message ID is required'),
+  rating: z.enum(['UP', 'DOWN'], { error: 'Rating must be UP or DOWN' }),
+  reason: z.string().trim().max(1000, 'Reason too long (max 1000 characters)').optional(),
+});
+
+// Thumbs up or down on an AI reply in one of the caller's own conversations.
+// Voting again replaces the earlier vote.
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.feedback, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many requests. Please try again in a moment.');
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = feedbackSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId, messageId, rating, reason } = validationResult.data;
+
+    // A session the caller doesn't own looks the same as one that doesn't exist
+    const owner = await getChatOwner(request);
+    const conversation = await prisma.conversation.findFirst({
+      where: { sessionId, workspaceId: workspace.id, ...ownedBy(owner) },
+      select: { id: true },
+    });
+    const feedback = conversation && (await rateMessage(conversation.id, messageId, rating, reason || null));
+    if (!feedback) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return withVisitorCookie(
+      NextResponse.json({ feedback: { messageId, rating: feedback.rating, reason: feedback.reason } }),
+      owner.visitor
+    );
+  } catch (error) {
+    console.error('Feedback API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner, ownedBy } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
 
 const historySchema = z.object({
   sessionId: z.string().min(1, 'Session ID is required'),
@@ -20,8 +24,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const conversation = await prisma.conversation.findUnique({
-      where: { sessionId: validationResult.data.sessionId },
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    // A session the caller doesn't own looks the same as one that doesn't exist
+    const owner = await getChatOwner(request);
+    const conversation = await prisma.conversation.findFirst({
+      where: { sessionId: validationResult.data.sessionId, workspaceId: workspace.id, ...ownedBy(owner) },
       include: {
         messages: {
           orderBy: { timestamp: 'asc' },
@@ -30,19 +44,38 @@ export async function GET(request: NextRequest) {
             sender: true,
             text: true,
             timestamp: true,
+            feedback: { select: { rating: true } },
           },
         },
+        rating: { select: { score: true } },
       },
     });
 
     if (!conversation) {
-      return NextResponse.json({ messages: [], sessionId });
+      return withVisitorCookie(
+        NextResponse.json({
+          messages: [],
+          sessionId,
+          handoffState: 'BOT',
+          assignedAgent: null,
+          csatScore: null,
+          locale: null,
+        }),
+        owner.visitor
+      );
     }
 
-    return NextResponse.json({
-      messages: conversation.messages,
-      sessionId: conversation.sessionId,
-    });
+    return withVisitorCookie(
+      NextResponse.json({
+        messages: conversation.messages,
+        sessionId: conversation.sessionId,
+        handoffState: conversation.handoffState,
+        assignedAgent: conversation.assignedAgent,
+        csatScore: conversation.rating?.score ?? null,
+        locale: conversation.locale,
+      }),
+      owner.visitor
+    );
   } catch (error) {
     console.error('History API error:', error);
     return NextResponse.json(
@@ -1,7 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { prisma } from '@/lib/prisma';
-import { getLLMService } from '@/lib/llm-service';
+import { HandoffState } from '@prisma/client';
+import { KnowledgeSource } from '@/lib/knowledge-base';
+import { ReplyUsage } from '@/lib/llm-service';
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner } from '@/lib/customer-auth';
+import {
+  checkRateLimits,
+  getClientIp,
+  getTokenBudget,
+  RATE_LIMIT_ERRORS,
+  RATE_LIMITS,
+  rateLimitResponse,
+} from '@/lib/rate-limit';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+import { LOCALES } from '@/lib/i18n';
+import {
+  generateTurnReply,
+  getOrCreateConversation,
+  PendingReply,
+  recordUnsavedReplyUsage,
+  saveGeneratedReply,
+  startTurn,
+} from '@/lib/chat-service';
 
 const MAX_MESSAGE_LENGTH = 2000;
 
@@ -11,10 +34,74 @@ const messageSchema = z.object({
     .min(1, 'Message cannot be empty')
     .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`),
   sessionId: z.string().optional(),
+  stream: z.boolean().optional(),
+  // The widget's language, until the customer's messages show theirs
+  locale: z.enum(LOCALES).optional(),
 });
 
+// Sends a reply that is already complete, as JSON or as a single-shot SSE
+// stream depending on what the client asked for. `reply` and `messageId` are
+// null when a human owns the conversation and the AI stays silent.
+function completeReplyResponse(
+  stream: boolean | undefined,
+  data: {
+    reply: string | null;
+    messageId: string | null;
+    sessionId: string;
+    handoffState: HandoffState;
+    sources?: KnowledgeSource[];
+  }
+): NextResponse {
+  const payload = { ...data, sources: data.sources ?? [] };
+
+  if (!stream) {
+    return NextResponse.json(payload);
+  }
+
+  return new NextResponse(
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(encodeSSE('session', { sessionId: data.sessionId }));
+        if (data.reply) {
+          controller.enqueue(encodeSSE('token', { text: data.reply }));
+        }
+        controller.enqueue(encodeSSE('done', payload));
+        controller.close();
+      },
+    }),
+    { headers: SSE_HEADERS }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const owner = await getChatOwner(request);
+
+    // Throttle per caller and per IP before doing any work. A caller without
+    // the visitor cookie gets a new visitor id on every request, so it is
+    // counted by IP instead, for the token budget too.
+    const ip = getClientIp(request);
+    const caller = owner.userId
+      ? `user:${owner.userId}`
+      : owner.visitor.isNew
+        ? `ip:${ip}`
+        : `visitor:${owner.visitor.id}`;
+    const rateLimit = await checkRateLimits([
+      { rule: RATE_LIMITS.chatVisitor, id: caller },
+      { rule: RATE_LIMITS.chatIp, id: ip },
+    ]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, RATE_LIMIT_ERRORS.tooManyRequests);
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
     const body = await request.json();
 
     // Validate input
@@ -26,87 +113,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { message, sessionId } = validationResult.data;
+    const { message, sessionId, stream, locale } = validationResult.data;
 
-    // Get or create conversation
-    let conversation;
-    if (sessionId) {
-      conversation = await prisma.conversation.findUnique({
-        where: { sessionId },
-      });
-    }
+    const conversation = await getOrCreateConversation(workspace, { channel: 'WEB', sessionId, owner });
+    const turn = await startTurn(workspace, conversation, message, { locale, budgetKey: caller });
 
-    if (!conversation) {
-      const newSessionId = sessionId || crypto.randomUUID();
-      conversation = await prisma.conversation.create({
-        data: { sessionId: newSessionId },
-      });
+    if (turn.status === 'budget_exceeded') {
+      return rateLimitResponse(turn.budget, RATE_LIMIT_ERRORS.dailyBudget);
     }
 
-    // Save user message
-    await prisma.message.create({
-      data: {
-        conversationId: conversation.id,
-        sender: 'USER',
-        text: message,
-      },
-    });
-
-    // Get conversation history for context
-    const history = await prisma.message.findMany({
-      where: { conversationId: conversation.id },
-      orderBy: { timestamp: 'asc' },
-      select: {
-        sender: true,
-        text: true,
-      },
-    });
-
-    // Generate AI reply
-    const llmService = getLLMService();
-    if (!llmService.isConfigured()) {
-      // Fallback response if LLM not configured
-      const fallbackReply = "I'm sorry, but our AI support is currently unavailable. Please contact us at support@spurmart.com for assistance.";
-
-      await prisma.message.create({
-        data: {
-          conversationId: conversation.id,
-          sender: 'AI',
-          text: fallbackReply,
-        },
-      });
-
-      return NextResponse.json({
-        reply: fallbackReply,
-        sessionId: conversation.sessionId,
-      });
+    if (turn.status === 'generate' && stream) {
+      return withVisitorCookie(streamReply(request, conversation, turn), owner.visitor);
     }
 
-    const { reply, error } = await llmService.generateReply(history, message);
-
-    if (error) {
-      return NextResponse.json({ error }, { status: 500 });
+    const result = turn.status === 'generate' ? await generateTurnReply(conversation, turn) : turn;
+    if (result.status === 'error') {
+      return NextResponse.json({ error: result.error }, { status: 500 });
     }
 
-    // Save AI reply
-    await prisma.message.create({
-      data: {
-        conversationId: conversation.id,
-        sender: 'AI',
-        text: reply,
-      },
-    });
-
-    // Update conversation timestamp
-    await prisma.conversation.update({
-      where: { id: conversation.id },
-      data: { updatedAt: new Date() },
-    });
-
-    return NextResponse.json({
-      reply,
-      sessionId: conversation.sessionId,
-    });
+    return withVisitorCookie(
+      completeReplyResponse(stream, {
+        reply: result.status === 'replied' ? result.reply : null,
+        messageId: result.status === 'replied' ? result.messageId : null,
+        sessionId: conversation.sessionId,
+        handoffState: result.handoffState,
+        sources: result.status === 'replied' ? result.sources : [],
+      }),
+      owner.visitor
+    );
   } catch (error) {
     console.error('Chat API error:', error);
     return NextResponse.json(
@@ -114,4 +148,76 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Forwards the reply to the client as Server-Sent Events while it is being
+// generated. The AI message is only persisted once the provider finishes; if
+// the client disconnects first only the tokens spent so far are recorded.
+function streamReply(
+  request: NextRequest,
+  conversation: { id: string; sessionId: string; workspaceId: string },
+  pending: PendingReply
+): NextResponse {
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encodeSSE(event, data));
+        }
+      };
+
+      let usage: ReplyUsage | undefined;
+      let saved = false;
+      try {
+        send('session', { sessionId: conversation.sessionId });
+
+        const events = pending.llmService.streamReply(pending.context, pending.userMessage, abortController.signal);
+        for await (const event of events) {
+          if (event.type === 'token') {
+            send('token', { text: event.text });
+          } else if (event.type === 'tool_call') {
+            send('tool', { name: event.name });
+          } else if (event.type === 'usage') {
+            usage = event.usage;
+            await getTokenBudget().record(pending.budgetKey, event.usage);
+          } else if (event.type === 'error') {
+            send('error', { error: event.error });
+          } else if (!abortController.signal.aborted) {
+            const { messageId, handoffState } = await saveGeneratedReply(conversation.id, pending, event, usage);
+            saved = true;
+
+            send('done', {
+              reply: event.reply,
+              messageId,
+              sessionId: conversation.sessionId,
+              handoffState,
+              sources: event.sources,
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        send('error', { error: 'An unexpected error occurred. Please try again.' });
+      } finally {
+        if (usage && !saved) {
+          await recordUnsavedReplyUsage(conversation, usage).catch((error) =>
+            console.error('Usage record error:', error)
+          );
+        }
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new NextResponse(body, { headers: SSE_HEADERS });
+}
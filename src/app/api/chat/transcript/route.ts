@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withVisitorCookie } from '@/lib/visitor';
+import { getChatOwner, ownedBy } from '@/lib/customer-auth';
+import { isOriginAllowed, originNotAllowedResponse } from '@/lib/cors';
+import { checkRateLimits, getClientIp, RATE_LIMITS, rateLimitResponse } from '@/lib/rate-limit';
+import { sendTranscript } from '@/lib/transcript';
+import { resolveWorkspace, workspaceNotFoundResponse } from '@/lib/workspace';
+
+const transcriptSchema = z.object({
+  sessionId: z.string().min(1, 'Session ID is required'),
+});
+
+// Emails a signed-in customer a transcript of one of their own conversations.
+// It only ever goes to the address they signed in with, so the store's mail
+// identity can't be used to send conversation text to anyone else.
+export async function POST(request: NextRequest) {
+  try {
+    // Each request sends an email, so keep this tighter than chat
+    const rateLimit = await checkRateLimits([{ rule: RATE_LIMITS.transcript, id: getClientIp(request) }]);
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many transcript requests. Please try again later.');
+    }
+
+    const workspace = await resolveWorkspace(request);
+    if (!workspace) {
+      return workspaceNotFoundResponse();
+    }
+    if (!isOriginAllowed(request, workspace)) {
+      return originNotAllowedResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = transcriptSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId } = validationResult.data;
+    const owner = await getChatOwner(request);
+    const user = owner.userId ? await prisma.user.findUnique({ where: { id: owner.userId } }) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to get transcripts by email' }, { status: 401 });
+    }
+
+    // A session the caller doesn't own looks the same as one that doesn't exist
+    const conversation = await prisma.conversation.findFirst({
+      where: { sessionId, workspaceId: workspace.id, ...ownedBy(owner) },
+      include: {
+        messages: {
+          orderBy: { timestamp: 'asc' },
+          select: { sender: true, text: true, timestamp: true },
+        },
+      },
+    });
+    if (!conversation || conversation.messages.length === 0) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    await sendTranscript(workspace, user.email, conversation.messages);
+
+    return withVisitorCookie(NextResponse.json({ success: true, email: user.email }), owner.visitor);
+  } catch (error) {
+    console.error('Transcript API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send transcript' },
+      { status: 500 }
+    );
+  }
+}
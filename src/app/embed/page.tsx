@@ -0,0 +1,29 @@
+import { EmbeddedChat } from '@/components/EmbeddedChat';
+import { isLocale } from '@/lib/i18n';
+
+// Framed by the loader script (public/widget.js) on merchant sites. The
+// middleware restricts who may frame it to the workspace's allowed origins.
+
+const MAX_GREETING_LENGTH = 200;
+
+interface EmbedPageProps {
+  searchParams: { key?: string; color?: string; greeting?: string; locale?: string };
+}
+
+export default function EmbedPage({ searchParams }: EmbedPageProps) {
+  if (!searchParams.key) {
+    return <p className="p-4 text-sm text-red-600">Missing widget key.</p>;
+  }
+
+  // Only plain hex colors, since the value ends up in an inline style
+  const accentColor = /^#[0-9a-f]{3,8}$/i.test(searchParams.color ?? '') ? searchParams.color : undefined;
+
+  return (
+    <EmbeddedChat
+      widgetKey={searchParams.key}
+      accentColor={accentColor}
+      greeting={searchParams.greeting?.slice(0, MAX_GREETING_LENGTH)}
+      locale={isLocale(searchParams.locale) ? searchParams.locale : undefined}
+    />
+  );
+}
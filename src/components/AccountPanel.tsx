@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { widgetHeaders } from '@/lib/widget-key';
+import { WidgetMessages } from '@/lib/i18n';
+
+export interface Account {
+  id: string;
+  email: string;
+}
+
+interface AccountPanelProps {
+  account: Account | null;
+  onSignOut: () => void;
+  widgetKey?: string;
+  strings: WidgetMessages;
+}
+
+// Sidebar footer: magic-link sign-in for anonymous visitors, or the signed-in
+// customer's email with a sign-out button.
+export function AccountPanel({ account, onSignOut, widgetKey, strings }: AccountPanelProps) {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...widgetHeaders(widgetKey),
+        },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || strings.signInFailed);
+      }
+      setLinkSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : strings.somethingWentWrong);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (account) {
+    return (
+      <div className="p-3 border-t border-gray-200 text-xs text-gray-600">
+        <p className="truncate">
+          {strings.signedInAs} <span className="font-medium">{account.email}</span>
+        </p>
+        <button onClick={onSignOut} className="mt-1 text-blue-600 hover:underline">
+          {strings.signOut}
+        </button>
+      </div>
+    );
+  }
+
+  if (linkSent) {
+    return (
+      <div className="p-3 border-t border-gray-200 text-xs text-gray-600">
+        {strings.checkEmailForLink}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={requestLink} className="p-3 border-t border-gray-200 space-y-2">
+      <p className="text-xs text-gray-500">{strings.signInPrompt}</p>
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder={strings.emailPlaceholder}
+        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="submit"
+        disabled={isSending || !email.trim()}
+        className="w-full px-3 py-1.5 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-lg text-xs font-medium"
+      >
+        {isSending ? strings.sending : strings.emailSignInLink}
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -1,12 +1,51 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import { readSSE } from '@/lib/sse';
+import { widgetHeaders, widgetUrl } from '@/lib/widget-key';
+import {
+  DEFAULT_LOCALE,
+  detectLanguage,
+  formatMessage,
+  getWidgetMessages,
+  isLocale,
+  Locale,
+  matchLocale,
+} from '@/lib/i18n';
+import { Account, AccountPanel } from './AccountPanel';
+import { CsatPrompt } from './CsatPrompt';
+import { FeedbackRating, MessageFeedback } from './MessageFeedback';
+import { TranscriptForm } from './TranscriptForm';
+
+type HandoffState = 'BOT' | 'WAITING_FOR_HUMAN' | 'HUMAN' | 'CLOSED';
+
+// How often to check for agent replies while a human owns the conversation
+const HANDOFF_POLL_INTERVAL_MS = 3000;
+
+// Rate-limit waits up to this long get a live countdown; longer ones (the
+// daily budget) just show the server's message
+const MAX_COUNTDOWN_SECONDS = 120;
+
+// Quiet time after a reply before asking the customer to rate the conversation
+const CSAT_PROMPT_DELAY_MS = 60 * 1000;
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Transcript download links in the sidebar
+const DOWNLOAD_FORMATS = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'jsonl', label: 'JSON' },
+] as const;
 
 interface Message {
   id: string;
-  sender: 'USER' | 'AI';
+  sender: 'USER' | 'AI' | 'AGENT';
   text: string;
   timestamp: string;
+  // Streamed reply that hasn't been saved (and so can't be rated) yet
+  pending?: boolean;
+  feedback?: { rating: FeedbackRating } | null;
 }
 
 interface Conversation {
@@ -21,9 +60,27 @@ interface Conversation {
 interface ChatWidgetProps {
   isOpen?: boolean;
   onToggle?: () => void;
+  // Public workspace key; without it the server picks the workspace by hostname
+  widgetKey?: string;
+  // Fill the parent frame instead of floating over the page (the /embed iframe)
+  embedded?: boolean;
+  // Brand color for the header, buttons and customer bubbles, e.g. "#16a34a"
+  accentColor?: string;
+  greeting?: string;
+  // Fixes the widget's language; by default it follows the conversation's,
+  // then the browser's
+  locale?: Locale;
 }
 
-export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetProps) {
+export function ChatWidget({
+  isOpen: controlledIsOpen,
+  onToggle,
+  widgetKey,
+  embedded = false,
+  accentColor,
+  greeting,
+  locale,
+}: ChatWidgetProps) {
   const [isOpen, setIsOpen] = useState(controlledIsOpen || false);
   const [showSidebar, setShowSidebar] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -33,8 +90,26 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [handoffState, setHandoffState] = useState<HandoffState>('BOT');
+  const [assignedAgent, setAssignedAgent] = useState<string | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [storeName, setStoreName] = useState<string | null>(null);
+  const [showTranscriptForm, setShowTranscriptForm] = useState(false);
+  const [csatScore, setCsatScore] = useState<number | null>(null);
+  const [csatDue, setCsatDue] = useState(false);
+  const [csatDismissed, setCsatDismissed] = useState(false);
+  const [csatThanked, setCsatThanked] = useState(false);
+  // Seconds left before the server will accept another message after a 429
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
+  // Language detected for the current conversation, and the browser's
+  const [conversationLocale, setConversationLocale] = useState<Locale | null>(null);
+  const [browserLocale, setBrowserLocale] = useState<Locale | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
+  const uiLocale = locale ?? conversationLocale ?? browserLocale ?? DEFAULT_LOCALE;
+  const strings = getWidgetMessages(uiLocale);
+  const accentStyle = accentColor ? { backgroundColor: accentColor } : undefined;
   const isControlled = controlledIsOpen !== undefined;
   const currentIsOpen = isControlled ? controlledIsOpen : isOpen;
 
@@ -49,7 +124,30 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, csatDue]);
+
+  // Ask for a CSAT score once the conversation has gone quiet after a reply
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    setCsatDue(false);
+    if (!lastMessage || lastMessage.sender === 'USER' || isLoading) return;
+
+    const timeout = setTimeout(() => setCsatDue(true), CSAT_PROMPT_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [lastMessage?.id, lastMessage?.sender, isLoading]);
+
+  // Count down a rate-limit cooldown and clear its error when it ends
+  useEffect(() => {
+    if (cooldownSeconds <= 0) return;
+
+    const timeout = setTimeout(() => {
+      setCooldownSeconds((seconds) => seconds - 1);
+      if (cooldownSeconds === 1) {
+        setError(null);
+      }
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [cooldownSeconds]);
 
   // Load conversations list when sidebar is opened
   useEffect(() => {
@@ -65,11 +163,49 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
       setCurrentSessionId(storedSessionId);
       loadHistory(storedSessionId);
     }
+
+    const preferredLocale = matchLocale(navigator.languages);
+    setBrowserLocale(preferredLocale);
+
+    // Returning from a magic link that didn't work
+    const loginResult = new URLSearchParams(window.location.search).get('login');
+    if (loginResult) {
+      setError(getWidgetMessages(locale ?? preferredLocale).loginLinkInvalid);
+    }
+
+    loadAccount(!storedSessionId);
+    loadConfig();
   }, []);
 
+  // Cancel any in-flight reply when the widget unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Poll for agent replies while the conversation is handed off to a human
+  useEffect(() => {
+    if (!currentSessionId || isLoading) return;
+    if (handoffState !== 'WAITING_FOR_HUMAN' && handoffState !== 'HUMAN') return;
+
+    const interval = setInterval(() => loadHistory(currentSessionId), HANDOFF_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [currentSessionId, handoffState, isLoading]);
+
+  const loadConfig = async () => {
+    try {
+      const response = await fetch('/api/chat/config', { headers: widgetHeaders(widgetKey) });
+      if (response.ok) {
+        const data = await response.json();
+        setStoreName(data.workspace.name);
+      }
+    } catch (err) {
+      console.error('Failed to load chat settings:', err);
+    }
+  };
+
   const loadConversations = async () => {
     try {
-      const response = await fetch('/api/chat/conversations');
+      const response = await fetch('/api/chat/conversations', { headers: widgetHeaders(widgetKey) });
       if (response.ok) {
         const data = await response.json();
         setConversations(data.conversations || []);
@@ -79,43 +215,131 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
     }
   };
 
+  // On a device with no local session, a signed-in customer picks up their
+  // most recent conversation.
+  const loadAccount = async (resumeLatest: boolean) => {
+    try {
+      const response = await fetch('/api/auth/me');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setAccount(data.user);
+      if (!data.user || !resumeLatest) return;
+
+      const conversationsResponse = await fetch('/api/chat/conversations', { headers: widgetHeaders(widgetKey) });
+      if (conversationsResponse.ok) {
+        const { conversations: accountConversations = [] } = await conversationsResponse.json();
+        setConversations(accountConversations);
+        if (accountConversations[0]) {
+          setCurrentSessionId(accountConversations[0].sessionId);
+          localStorage.setItem('chatCurrentSessionId', accountConversations[0].sessionId);
+          loadHistory(accountConversations[0].sessionId);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load account:', err);
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+    setAccount(null);
+    startNewConversation();
+  };
+
   const loadHistory = async (sid: string) => {
     try {
-      const response = await fetch(`/api/chat/history?sessionId=${encodeURIComponent(sid)}`);
+      const response = await fetch(`/api/chat/history?sessionId=${encodeURIComponent(sid)}`, {
+        headers: widgetHeaders(widgetKey),
+      });
       if (response.ok) {
         const data = await response.json();
         setMessages(data.messages || []);
+        setHandoffState(data.handoffState || 'BOT');
+        setAssignedAgent(data.assignedAgent || null);
+        setCsatScore(data.csatScore ?? null);
+        setConversationLocale(isLocale(data.locale) ? data.locale : null);
       }
     } catch (err) {
       console.error('Failed to load history:', err);
     }
   };
 
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const resetCsat = () => {
+    setCsatScore(null);
+    setCsatDismissed(false);
+    setCsatThanked(false);
+  };
+
   const startNewConversation = () => {
+    stopGenerating();
     const newSessionId = crypto.randomUUID();
     setCurrentSessionId(newSessionId);
     localStorage.setItem('chatCurrentSessionId', newSessionId);
     setMessages([]);
+    setHandoffState('BOT');
+    setAssignedAgent(null);
+    setConversationLocale(null);
     setShowSidebar(false);
+    setShowTranscriptForm(false);
+    resetCsat();
     setError(null);
   };
 
+  // Deletes every conversation the customer has in this store, then starts afresh
+  const deleteAllConversations = async () => {
+    if (!window.confirm(strings.deleteChatsConfirm)) return;
+
+    try {
+      const response = await fetch('/api/chat/conversations', {
+        method: 'DELETE',
+        headers: widgetHeaders(widgetKey),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || strings.deleteChatsFailed);
+      }
+      setConversations([]);
+      startNewConversation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : strings.deleteChatsFailed);
+    }
+  };
+
   const selectConversation = (conv: Conversation) => {
+    stopGenerating();
     setCurrentSessionId(conv.sessionId);
     localStorage.setItem('chatCurrentSessionId', conv.sessionId);
+    resetCsat();
     loadHistory(conv.sessionId);
     setShowSidebar(false);
+    setShowTranscriptForm(false);
     setError(null);
   };
 
   const sendMessage = async () => {
     const trimmedInput = inputValue.trim();
 
-    if (!trimmedInput || isLoading) return;
+    if (!trimmedInput || isLoading || cooldownSeconds > 0) return;
 
     // Clear any previous errors
     setError(null);
 
+    // Switch the widget to the customer's language as soon as it shows; the
+    // server detects it the same way
+    const detectedLocale = detectLanguage(trimmedInput);
+    if (detectedLocale) {
+      setConversationLocale(detectedLocale);
+    }
+
     // Add user message immediately to UI
     const userMessage: Message = {
       id: crypto.randomUUID(),
@@ -128,51 +352,114 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
     setIsLoading(true);
     setIsTyping(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const aiMessageId = crypto.randomUUID();
+    let receivedText = false;
+
     try {
       const response = await fetch('/api/chat/message', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...widgetHeaders(widgetKey),
         },
         body: JSON.stringify({
           message: trimmedInput,
           sessionId: currentSessionId || undefined,
+          stream: true,
+          locale: detectedLocale ?? uiLocale,
         }),
+        signal: abortController.signal,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send message');
+      if (response.status === 429) {
+        // Rate limited: the message wasn't saved, so give it back to resend later
+        const data = await response.json().catch(() => ({}));
+        setCooldownSeconds(Number(response.headers.get('Retry-After')) || data.retryAfter || 0);
+        setInputValue(trimmedInput);
+        throw new Error(data.error || strings.tooManyMessages);
       }
 
-      // Save session ID
-      if (data.sessionId && !currentSessionId) {
-        setCurrentSessionId(data.sessionId);
-        localStorage.setItem('chatCurrentSessionId', data.sessionId);
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || strings.sendFailed);
       }
 
-      // Add AI response
-      const aiMessage: Message = {
-        id: crypto.randomUUID(),
-        sender: 'AI',
-        text: data.reply,
-        timestamp: new Date().toISOString(),
-      };
-      setMessages((prev) => [...prev, aiMessage]);
+      for await (const { event, data } of readSSE(response.body)) {
+        const payload = JSON.parse(data);
+
+        if (event === 'session') {
+          // Save session ID (the server may assign a different one than we sent)
+          if (payload.sessionId && payload.sessionId !== currentSessionId) {
+            setCurrentSessionId(payload.sessionId);
+            localStorage.setItem('chatCurrentSessionId', payload.sessionId);
+          }
+        } else if (event === 'token') {
+          // Render the AI response as it streams in
+          if (!receivedText) {
+            receivedText = true;
+            setIsTyping(false);
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: aiMessageId,
+                sender: 'AI',
+                text: payload.text,
+                timestamp: new Date().toISOString(),
+                pending: true,
+              },
+            ]);
+          } else {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === aiMessageId ? { ...msg, text: msg.text + payload.text } : msg
+              )
+            );
+          }
+        } else if (event === 'done') {
+          if (payload.handoffState) {
+            setHandoffState(payload.handoffState);
+          }
+          // Switch to the saved message's id so the reply can be rated, and to
+          // the saved text, which differs from the streamed one when a
+          // guardrail redacted or replaced it
+          if (payload.messageId) {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === aiMessageId
+                  ? { ...msg, id: payload.messageId, text: payload.reply ?? msg.text, pending: false }
+                  : msg
+              )
+            );
+          }
+        } else if (event === 'error') {
+          throw new Error(payload.error || strings.sendFailed);
+        }
+      }
 
       // Refresh conversations list if sidebar is open
       if (showSidebar) {
         loadConversations();
       }
     } catch (err) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever was already rendered
+        return;
+      }
+
       console.error('Send message error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Something went wrong';
+      const errorMessage = err instanceof Error ? err.message : strings.somethingWentWrong;
       setError(errorMessage);
 
-      // Remove the user message if the request failed
-      setMessages((prev) => prev.filter((msg) => msg.id !== userMessage.id));
+      // Remove the user message (and any partial reply) if the request failed
+      setMessages((prev) =>
+        prev.filter((msg) => msg.id !== userMessage.id && msg.id !== aiMessageId)
+      );
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
       setIsTyping(false);
     }
@@ -192,12 +479,12 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
     const isYesterday = new Date(now.setDate(now.getDate() - 1)).toDateString() === date.toDateString();
 
     if (isToday) {
-      return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+      return date.toLocaleTimeString(uiLocale, { hour: 'numeric', minute: '2-digit' });
     }
     if (isYesterday) {
-      return 'Yesterday';
+      return strings.yesterday;
     }
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return date.toLocaleDateString(uiLocale, { month: 'short', day: 'numeric' });
   };
 
   const truncateMessage = (text: string, maxLength: number = 30) => {
@@ -205,12 +492,22 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
     return text.substring(0, maxLength) + '...';
   };
 
+  // At the end of a conversation with at least one saved reply: when an agent
+  // closes it, or after it has been quiet for a while
+  const showCsatPrompt =
+    csatScore === null &&
+    !csatDismissed &&
+    !isLoading &&
+    (handoffState === 'CLOSED' || csatDue) &&
+    messages.some((msg) => msg.sender !== 'USER' && !msg.pending);
+
   if (!currentIsOpen) {
     return (
       <button
         onClick={handleToggle}
         className="fixed bottom-6 right-6 w-14 h-14 bg-blue-600 hover:bg-blue-700 text-white rounded-full shadow-lg flex items-center justify-center transition-all hover:scale-105 active:scale-95"
-        aria-label="Open chat"
+        style={accentStyle}
+        aria-label={strings.openChat}
       >
         <svg
           className="w-6 h-6"
@@ -230,7 +527,13 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
   }
 
   return (
-    <div className="fixed bottom-6 right-6 w-[500px] max-w-[calc(100vw-3rem)] h-[500px] max-h-[calc(100vh-6rem)] bg-white rounded-2xl shadow-2xl flex overflow-hidden md:bottom-6 md:right-6 bottom-0 right-0 w-full h-full md:rounded-2xl rounded-none md:max-h-[calc(100vh-6rem)] md:max-w-[50vw] max-h-[100vh]">
+    <div
+      className={
+        embedded
+          ? 'relative w-full h-screen bg-white flex overflow-hidden'
+          : 'fixed bottom-6 right-6 w-[500px] max-w-[calc(100vw-3rem)] h-[500px] max-h-[calc(100vh-6rem)] bg-white rounded-2xl shadow-2xl flex overflow-hidden md:bottom-6 md:right-6 bottom-0 right-0 w-full h-full md:rounded-2xl rounded-none md:max-h-[calc(100vh-6rem)] md:max-w-[50vw] max-h-[100vh]'
+      }
+    >
       {/* Sidebar */}
       {showSidebar && (
         <>
@@ -244,17 +547,18 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
             <button
               onClick={startNewConversation}
               className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2 text-sm font-medium"
+              style={accentStyle}
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
               </svg>
-              New Chat
+              {strings.newChat}
             </button>
           </div>
           <div className="flex-1 overflow-y-auto p-2">
-            <p className="text-xs text-gray-500 font-medium px-2 py-2">Previous Conversations</p>
+            <p className="text-xs text-gray-500 font-medium px-2 py-2">{strings.previousConversations}</p>
             {conversations.length === 0 ? (
-              <p className="text-sm text-gray-400 text-center py-4">No conversations yet</p>
+              <p className="text-sm text-gray-400 text-center py-4">{strings.noConversations}</p>
             ) : (
               conversations.map((conv) => (
                 <button
@@ -272,12 +576,45 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
                   <div className="flex items-center gap-2 mt-1">
                     <span className="text-xs text-gray-500">{formatDate(conv.updatedAt)}</span>
                     <span className="text-xs text-gray-400">•</span>
-                    <span className="text-xs text-gray-500">{conv.messageCount} msgs</span>
+                    <span className="text-xs text-gray-500">{formatMessage(strings.messageCount, { count: conv.messageCount })}</span>
                   </div>
                 </button>
               ))
             )}
           </div>
+          {conversations.length > 0 && (
+            <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+              <p className="font-medium">{strings.downloadChats}</p>
+              <div className="flex flex-wrap gap-x-3 mt-1">
+                {DOWNLOAD_FORMATS.map(({ format, label }) => (
+                  <a key={format} href={widgetUrl('/api/chat/export', widgetKey, { format })} download className="hover:underline">
+                    {label}
+                  </a>
+                ))}
+                <a
+                  href={widgetUrl('/api/chat/export', widgetKey, { format: 'html' })}
+                  target="_blank"
+                  rel="noopener"
+                  className="hover:underline"
+                >
+                  {strings.downloadPrintable}
+                </a>
+              </div>
+              <div className="flex flex-wrap gap-x-3 mt-2">
+                <a href={widgetUrl('/api/chat/data', widgetKey)} download className="hover:underline">
+                  {strings.downloadMyData}
+                </a>
+                <button onClick={deleteAllConversations} className="text-red-600 hover:underline">
+                  {strings.deleteChats}
+                </button>
+              </div>
+            </div>
+          )}
+          {/* The sign-in cookie is set on this app's own domain, which an
+              embed on another site can't see */}
+          {!embedded && (
+            <AccountPanel account={account} onSignOut={signOut} widgetKey={widgetKey} strings={strings} />
+          )}
         </div>
         </>
       )}
@@ -285,12 +622,12 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col">
         {/* Header */}
-        <div className="bg-blue-600 text-white px-4 py-3 flex items-center justify-between">
+        <div className="bg-blue-600 text-white px-4 py-3 flex items-center justify-between" style={accentStyle}>
           <div className="flex items-center gap-3">
             <button
               onClick={() => setShowSidebar(!showSidebar)}
               className="p-1 hover:bg-white/10 rounded transition-colors"
-              aria-label="Toggle conversations"
+              aria-label={strings.toggleConversations}
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -317,16 +654,36 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
               </svg>
             </div>
             <div>
-              <h3 className="font-semibold text-sm">SpurMart Support</h3>
-              <p className="text-xs text-blue-100">Online • Typically replies instantly</p>
+              <h3 className="font-semibold text-sm">
+                {storeName ? formatMessage(strings.supportTitle, { store: storeName }) : strings.supportTitleDefault}
+              </h3>
+              <p className="text-xs text-blue-100">{strings.onlineStatus}</p>
             </div>
           </div>
           <div className="flex items-center gap-1">
+            {/* Transcripts only go to a signed-in customer, and an embed can't sign in */}
+            {currentSessionId && messages.length > 0 && (account || !embedded) && (
+              <button
+                onClick={() => setShowTranscriptForm(!showTranscriptForm)}
+                className="p-1 hover:bg-white/10 rounded transition-colors"
+                aria-label={strings.emailTranscript}
+                title={strings.emailTranscriptTitle}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                  />
+                </svg>
+              </button>
+            )}
             <button
               onClick={startNewConversation}
               className="p-1 hover:bg-white/10 rounded transition-colors"
-              aria-label="New conversation"
-              title="New conversation"
+              aria-label={strings.newConversation}
+              title={strings.newConversation}
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -335,7 +692,7 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
             <button
               onClick={handleToggle}
               className="p-1 hover:bg-white/10 rounded transition-colors"
-              aria-label="Close chat"
+              aria-label={strings.closeChat}
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -349,6 +706,33 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
           </div>
         </div>
 
+        {showTranscriptForm && currentSessionId && (
+          <TranscriptForm
+            key={currentSessionId}
+            sessionId={currentSessionId}
+            email={account?.email ?? null}
+            widgetKey={widgetKey}
+            strings={strings}
+            onSignIn={() => {
+              setShowTranscriptForm(false);
+              setShowSidebar(true);
+            }}
+            onClose={() => setShowTranscriptForm(false)}
+          />
+        )}
+
+        {/* Handoff status */}
+        {handoffState === 'WAITING_FOR_HUMAN' && (
+          <div className="bg-amber-50 text-amber-800 text-xs px-4 py-2 border-b border-amber-100">
+            {strings.handoffWaiting}
+          </div>
+        )}
+        {handoffState === 'HUMAN' && (
+          <div className="bg-green-50 text-green-800 text-xs px-4 py-2 border-b border-green-100">
+            {assignedAgent ? formatMessage(strings.handoffHumanNamed, { agent: assignedAgent }) : strings.handoffHuman}
+          </div>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
           {messages.length === 0 && (
@@ -368,10 +752,8 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
                   />
                 </svg>
               </div>
-              <p className="text-gray-600 text-sm">Hi there! How can I help you today?</p>
-              <p className="text-gray-400 text-xs mt-2">
-                Ask about shipping, returns, or our products.
-              </p>
+              <p className="text-gray-600 text-sm">{greeting || strings.defaultGreeting}</p>
+              <p className="text-gray-400 text-xs mt-2">{strings.emptyStateHint}</p>
             </div>
           )}
 
@@ -386,8 +768,23 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
                     ? 'bg-blue-600 text-white rounded-br-sm'
                     : 'bg-white text-gray-800 rounded-bl-sm shadow-sm'
                 }`}
+                style={message.sender === 'USER' ? accentStyle : undefined}
               >
+                {message.sender === 'AGENT' && (
+                  <p className="text-xs font-medium text-green-700 mb-1">
+                    {assignedAgent || strings.supportTeam}
+                  </p>
+                )}
                 <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>
+                {message.sender === 'AI' && !message.pending && currentSessionId && (
+                  <MessageFeedback
+                    sessionId={currentSessionId}
+                    messageId={message.id}
+                    initialRating={message.feedback?.rating}
+                    widgetKey={widgetKey}
+                    strings={strings}
+                  />
+                )}
               </div>
             </div>
           ))}
@@ -404,10 +801,30 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
             </div>
           )}
 
+          {showCsatPrompt && currentSessionId && (
+            <CsatPrompt
+              key={currentSessionId}
+              sessionId={currentSessionId}
+              widgetKey={widgetKey}
+              strings={strings}
+              onRated={(score) => {
+                setCsatScore(score);
+                setCsatThanked(true);
+              }}
+              onDismiss={() => setCsatDismissed(true)}
+            />
+          )}
+          {csatThanked && (
+            <p className="text-center text-xs text-gray-500">{strings.csatThanks}</p>
+          )}
+
           {error && (
             <div className="flex justify-start">
               <div className="bg-red-50 text-red-700 rounded-2xl rounded-bl-sm px-4 py-2 text-sm">
                 {error}
+                {cooldownSeconds > 0 && cooldownSeconds <= MAX_COUNTDOWN_SECONDS && (
+                  <p className="text-xs mt-1">{formatMessage(strings.cooldown, { seconds: cooldownSeconds })}</p>
+                )}
               </div>
             </div>
           )}
@@ -423,34 +840,30 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Type your message..."
+              placeholder={strings.inputPlaceholder}
               disabled={isLoading}
-              maxLength={2000}
+              maxLength={MAX_MESSAGE_LENGTH}
               className="flex-1 px-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed text-sm"
             />
-            <button
-              onClick={sendMessage}
-              disabled={isLoading || !inputValue.trim()}
-              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-full transition-colors flex items-center justify-center"
-              aria-label="Send message"
-            >
-              {isLoading ? (
-                <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  />
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  />
+            {isLoading ? (
+              <button
+                onClick={stopGenerating}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-full transition-colors flex items-center justify-center"
+                aria-label={strings.stopGenerating}
+                title={strings.stopGenerating}
+              >
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
                 </svg>
-              ) : (
+              </button>
+            ) : (
+              <button
+                onClick={sendMessage}
+                disabled={!inputValue.trim() || cooldownSeconds > 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-full transition-colors flex items-center justify-center"
+                style={inputValue.trim() && cooldownSeconds <= 0 ? accentStyle : undefined}
+                aria-label={strings.sendMessage}
+              >
                 <svg
                   className="w-5 h-5"
                   fill="none"
@@ -464,11 +877,11 @@ export function ChatWidget({ isOpen: controlledIsOpen, onToggle }: ChatWidgetPro
                     d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
                   />
                 </svg>
-              )}
-            </button>
+              </button>
+            )}
           </div>
           <p className="text-xs text-gray-400 mt-2 text-center">
-            Press Enter to send • Max 2000 characters
+            {formatMessage(strings.inputHint, { max: MAX_MESSAGE_LENGTH })}
           </p>
         </div>
       </div>
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { widgetHeaders } from '@/lib/widget-key';
+import { WidgetMessages } from '@/lib/i18n';
+
+interface CsatPromptProps {
+  sessionId: string;
+  widgetKey?: string;
+  strings: WidgetMessages;
+  onRated: (score: number) => void;
+  onDismiss: () => void;
+}
+
+// "How did we do?" card shown at the end of a conversation: a 1-5 score and
+// an optional comment
+export function CsatPrompt({ sessionId, widgetKey, strings, onRated, onDismiss }: CsatPromptProps) {
+  const scoreLabels = [strings.csatScore1, strings.csatScore2, strings.csatScore3, strings.csatScore4, strings.csatScore5];
+
+  const [score, setScore] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (score === null) return;
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/chat/feedback/csat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...widgetHeaders(widgetKey),
+        },
+        body: JSON.stringify({ sessionId, score, comment: comment.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || strings.csatFailed);
+      }
+      onRated(data.csat.score);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : strings.somethingWentWrong);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-2xl shadow-sm px-4 py-3 space-y-2 text-sm">
+      <div className="flex justify-between gap-2">
+        <p className="font-medium text-gray-800">{strings.csatQuestion}</p>
+        <button type="button" onClick={onDismiss} className="text-xs text-gray-400 hover:text-gray-700">
+          {strings.notNow}
+        </button>
+      </div>
+      <div className="flex gap-1" role="radiogroup" aria-label={strings.rating}>
+        {scoreLabels.map((label, i) => (
+          <button
+            key={label}
+            type="button"
+            role="radio"
+            aria-checked={score === i + 1}
+            aria-label={label}
+            title={label}
+            onClick={() => setScore(i + 1)}
+            className={`text-2xl leading-none ${score !== null && i < score ? 'text-amber-400' : 'text-gray-300'} hover:text-amber-400`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      {score !== null && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={strings.csatCommentPlaceholder}
+            maxLength={1000}
+            className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSending}
+            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-lg text-xs font-medium"
+          >
+            {isSending ? strings.sending : strings.send}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { Locale } from '@/lib/i18n';
+import { ChatWidget } from './ChatWidget';
+
+// Message the loader script (public/widget.js) listens for to hide the frame
+const CLOSE_MESSAGE_TYPE = 'spur-chat:close';
+
+interface EmbeddedChatProps {
+  widgetKey: string;
+  accentColor?: string;
+  greeting?: string;
+  locale?: Locale;
+}
+
+// The chat as rendered inside the embed iframe: always open, with the close
+// button handing control back to the loader's launcher on the host page.
+export function EmbeddedChat({ widgetKey, accentColor, greeting, locale }: EmbeddedChatProps) {
+  const close = () => {
+    // Nothing sensitive in the message, so any parent may receive it
+    window.parent.postMessage({ type: CLOSE_MESSAGE_TYPE }, '*');
+  };
+
+  return (
+    <ChatWidget
+      embedded
+      isOpen
+      onToggle={close}
+      widgetKey={widgetKey}
+      accentColor={accentColor}
+      greeting={greeting}
+      locale={locale}
+    />
+  );
+}
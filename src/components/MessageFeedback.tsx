@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { widgetHeaders } from '@/lib/widget-key';
+import { WidgetMessages } from '@/lib/i18n';
+
+export type FeedbackRating = 'UP' | 'DOWN';
+
+interface MessageFeedbackProps {
+  sessionId: string;
+  messageId: string;
+  // The customer's earlier vote, from the history
+  initialRating?: FeedbackRating | null;
+  widgetKey?: string;
+  strings: WidgetMessages;
+}
+
+// Thumbs up/down under an AI reply. A thumbs down asks for an optional reason.
+export function MessageFeedback({ sessionId, messageId, initialRating, widgetKey, strings }: MessageFeedbackProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(initialRating ?? null);
+  const [askReason, setAskReason] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [thanked, setThanked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (value: FeedbackRating, reasonText?: string) => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/chat/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...widgetHeaders(widgetKey),
+        },
+        body: JSON.stringify({ sessionId, messageId, rating: value, reason: reasonText?.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || strings.feedbackFailed);
+      }
+      setRating(value);
+      setAskReason(false);
+      setThanked(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : strings.somethingWentWrong);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const vote = (value: FeedbackRating) => {
+    if (value === 'DOWN') {
+      setAskReason(true);
+      setThanked(false);
+    } else {
+      submit('UP');
+    }
+  };
+
+  const buttonClass = (value: FeedbackRating) =>
+    `p-1 rounded hover:bg-gray-100 disabled:opacity-50 ${rating === value ? 'text-blue-600' : 'text-gray-400'}`;
+
+  return (
+    <div className="mt-1 text-xs text-gray-500">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => vote('UP')}
+          disabled={isSending}
+          className={buttonClass('UP')}
+          aria-label={strings.helpful}
+          aria-pressed={rating === 'UP'}
+          title={strings.helpful}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
+            />
+          </svg>
+        </button>
+        <button
+          onClick={() => vote('DOWN')}
+          disabled={isSending}
+          className={buttonClass('DOWN')}
+          aria-label={strings.notHelpful}
+          aria-pressed={rating === 'DOWN'}
+          title={strings.notHelpful}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5"
+            />
+          </svg>
+        </button>
+        {thanked && <span>{strings.feedbackThanks}</span>}
+      </div>
+
+      {askReason && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit('DOWN', reason);
+          }}
+          className="flex gap-2 mt-1"
+        >
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={strings.feedbackReasonPlaceholder}
+            maxLength={1000}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSending}
+            className="px-2 py-1 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded text-xs"
+          >
+            {isSending ? strings.sending : strings.send}
+          </button>
+          <button type="button" onClick={() => setAskReason(false)} className="px-1 hover:text-gray-800">
+            {strings.cancel}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
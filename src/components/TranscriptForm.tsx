@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { widgetHeaders } from '@/lib/widget-key';
+import { formatMessage, WidgetMessages } from '@/lib/i18n';
+
+interface TranscriptFormProps {
+  sessionId: string;
+  // Signed-in customer's address, the only one a transcript is sent to; null
+  // for anonymous visitors, who are asked to sign in first
+  email: string | null;
+  widgetKey?: string;
+  strings: WidgetMessages;
+  onSignIn: () => void;
+  onClose: () => void;
+}
+
+// Strip under the chat header for emailing the customer a copy of the
+// current conversation
+export function TranscriptForm({ sessionId, email, widgetKey, strings, onSignIn, onClose }: TranscriptFormProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendTranscript = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/chat/transcript', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...widgetHeaders(widgetKey),
+        },
+        body: JSON.stringify({ sessionId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || strings.transcriptFailed);
+      }
+      setSentTo(data.email);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : strings.somethingWentWrong);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="bg-blue-50 text-blue-800 text-xs px-4 py-2 border-b border-blue-100 flex justify-between gap-2">
+        <span className="truncate">{formatMessage(strings.transcriptSent, { email: sentTo })}</span>
+        <button onClick={onClose} className="hover:underline shrink-0">
+          {strings.done}
+        </button>
+      </div>
+    );
+  }
+
+  if (!email) {
+    return (
+      <div className="bg-white text-gray-600 text-xs px-4 py-2 border-b border-gray-200 flex items-center justify-between gap-2">
+        <span>{strings.transcriptSignIn}</span>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={onSignIn} className="text-blue-600 hover:underline">
+            {strings.signIn}
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            {strings.cancel}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={sendTranscript} className="bg-white px-4 py-2 border-b border-gray-200 space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 min-w-0 truncate text-xs text-gray-600">
+          {formatMessage(strings.transcriptSendTo, { email })}
+        </span>
+        <button
+          type="submit"
+          disabled={isSending}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-lg text-xs font-medium"
+        >
+          {isSending ? strings.sending : strings.send}
+        </button>
+        <button type="button" onClick={onClose} className="px-2 text-xs text-gray-500 hover:text-gray-800">
+          {strings.cancel}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
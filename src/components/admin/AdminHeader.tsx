@@ -0,0 +1,32 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+
+export function AdminHeader() {
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const signOut = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+    router.push('/admin/login');
+  };
+
+  return (
+    <header className="bg-white shadow-sm">
+      <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
+        <Link href="/admin" className="text-lg font-bold text-blue-600">
+          SpurMart Admin
+        </Link>
+        {pathname !== '/admin/login' && (
+          <button
+            onClick={signOut}
+            className="text-sm text-gray-600 hover:text-blue-600 transition-colors"
+          >
+            Sign out
+          </button>
+        )}
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,408 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type HandoffState = 'BOT' | 'WAITING_FOR_HUMAN' | 'HUMAN' | 'CLOSED';
+type Channel = 'WEB' | 'WHATSAPP' | 'SMS' | 'EMAIL';
+type Sentiment = 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE';
+type Intent =
+  | 'ORDER_STATUS'
+  | 'RETURN'
+  | 'BILLING'
+  | 'SHIPPING'
+  | 'PRODUCT'
+  | 'ACCOUNT'
+  | 'COMPLAINT'
+  | 'HUMAN_REQUEST'
+  | 'GREETING'
+  | 'OTHER';
+
+interface ConversationSummary {
+  id: string;
+  workspaceName: string;
+  sessionId: string;
+  channel: Channel;
+  externalUserId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  handoffState: HandoffState;
+  escalatedAt: string | null;
+  assignedAgent: string | null;
+  sentiment: Sentiment | null;
+  intent: Intent | null;
+  urgency: 'LOW' | 'NORMAL' | 'HIGH' | null;
+  tags: string[];
+  messageCount: number;
+  firstMessage: string | null;
+  lastSender: string | null;
+  snippet: string | null;
+}
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+}
+
+interface Filters {
+  workspaceId: string;
+  channel: string;
+  q: string;
+  from: string;
+  to: string;
+  minMessages: string;
+  maxMessages: string;
+  handoffState: string;
+  escalated: string;
+  unanswered: string;
+  sentiment: string;
+  intent: string;
+  tag: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  workspaceId: '',
+  channel: '',
+  q: '',
+  from: '',
+  to: '',
+  minMessages: '',
+  maxMessages: '',
+  handoffState: '',
+  escalated: '',
+  unanswered: '',
+  sentiment: '',
+  intent: '',
+  tag: '',
+};
+
+const PAGE_SIZE = 20;
+
+export const HANDOFF_LABELS: Record<HandoffState, string> = {
+  BOT: 'Bot',
+  WAITING_FOR_HUMAN: 'Waiting',
+  HUMAN: 'Agent',
+  CLOSED: 'Closed',
+};
+
+export const CHANNEL_LABELS: Record<Channel, string> = {
+  WEB: 'Web',
+  WHATSAPP: 'WhatsApp',
+  SMS: 'SMS',
+  EMAIL: 'Email',
+};
+
+export const SENTIMENT_LABELS: Record<Sentiment, string> = {
+  POSITIVE: 'Positive',
+  NEUTRAL: 'Neutral',
+  NEGATIVE: 'Negative',
+};
+
+export const INTENT_LABELS: Record<Intent, string> = {
+  ORDER_STATUS: 'Order status',
+  RETURN: 'Return',
+  BILLING: 'Billing',
+  SHIPPING: 'Shipping',
+  PRODUCT: 'Product',
+  ACCOUNT: 'Account',
+  COMPLAINT: 'Complaint',
+  HUMAN_REQUEST: 'Asked for a person',
+  GREETING: 'Greeting',
+  OTHER: 'Other',
+};
+
+// Turns ts_headline's <b>...</b> markers into highlighted spans without
+// rendering any other markup from message text.
+function renderSnippet(snippet: string) {
+  return snippet.split(/(<b>.*?<\/b>)/g).map((part, i) =>
+    part.startsWith('<b>') ? (
+      <mark key={i} className="bg-yellow-100">
+        {part.slice(3, -4)}
+      </mark>
+    ) : (
+      <span key={i}>{part}</span>
+    )
+  );
+}
+
+export function ConversationList() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/admin/workspaces')
+      .then((response) => (response.ok ? response.json() : { workspaces: [] }))
+      .then((data) => setWorkspaces(data.workspaces))
+      .catch((err) => console.error('Failed to load workspaces:', err));
+  }, []);
+
+  useEffect(() => {
+    const loadConversations = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (!value) continue;
+        if (key === 'from' || key === 'to') {
+          // Date inputs are whole days in the admin's timezone; include all of the "to" day
+          const time = key === 'to' ? 'T23:59:59.999' : 'T00:00:00';
+          params.set(key, new Date(`${value}${time}`).toISOString());
+        } else {
+          params.set(key, value);
+        }
+      }
+
+      try {
+        const response = await fetch(`/api/admin/conversations?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load conversations');
+        }
+        setConversations(data.conversations);
+        setTotal(data.total);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Something went wrong');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConversations();
+  }, [filters, page]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const updateDraft = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">Conversations</h1>
+
+      <form onSubmit={applyFilters} className="bg-white rounded-xl shadow-sm p-4 grid md:grid-cols-4 gap-3">
+        <input
+          type="search"
+          value={draft.q}
+          onChange={updateDraft('q')}
+          placeholder="Search messages..."
+          className={`${inputClass} ${workspaces.length > 1 ? '' : 'md:col-span-2'}`}
+        />
+        {workspaces.length > 1 && (
+          <select value={draft.workspaceId} onChange={updateDraft('workspaceId')} className={inputClass}>
+            <option value="">All stores</option>
+            {workspaces.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>
+                {workspace.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="text-xs text-gray-500 flex flex-col gap-1">
+          From
+          <input type="date" value={draft.from} onChange={updateDraft('from')} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-500 flex flex-col gap-1">
+          To
+          <input type="date" value={draft.to} onChange={updateDraft('to')} className={inputClass} />
+        </label>
+        <input
+          type="number"
+          min={0}
+          value={draft.minMessages}
+          onChange={updateDraft('minMessages')}
+          placeholder="Min messages"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min={0}
+          value={draft.maxMessages}
+          onChange={updateDraft('maxMessages')}
+          placeholder="Max messages"
+          className={inputClass}
+        />
+        <select value={draft.channel} onChange={updateDraft('channel')} className={inputClass}>
+          <option value="">All channels</option>
+          {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select value={draft.handoffState} onChange={updateDraft('handoffState')} className={inputClass}>
+          <option value="">Any state</option>
+          {Object.entries(HANDOFF_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-3 text-sm">
+          <select value={draft.escalated} onChange={updateDraft('escalated')} className={`${inputClass} flex-1`}>
+            <option value="">Escalated?</option>
+            <option value="true">Escalated</option>
+            <option value="false">Not escalated</option>
+          </select>
+          <select value={draft.unanswered} onChange={updateDraft('unanswered')} className={`${inputClass} flex-1`}>
+            <option value="">Answered?</option>
+            <option value="true">Unanswered</option>
+            <option value="false">Answered</option>
+          </select>
+        </div>
+        <select value={draft.sentiment} onChange={updateDraft('sentiment')} className={inputClass}>
+          <option value="">Any sentiment</option>
+          {Object.entries(SENTIMENT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select value={draft.intent} onChange={updateDraft('intent')} className={inputClass}>
+          <option value="">Any topic</option>
+          {Object.entries(INTENT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.tag}
+          onChange={updateDraft('tag')}
+          placeholder="Tag"
+          className={inputClass}
+        />
+        <div className="md:col-span-4 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+            <tr>
+              <th className="px-4 py-3">Conversation</th>
+              <th className="px-4 py-3">State</th>
+              <th className="px-4 py-3">Messages</th>
+              <th className="px-4 py-3">Started</th>
+              <th className="px-4 py-3">Last activity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {conversations.length === 0 && !isLoading && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                  No conversations match these filters
+                </td>
+              </tr>
+            )}
+            {conversations.map((conv) => (
+              <tr key={conv.id} className="border-t border-gray-100 hover:bg-gray-50">
+                <td className="px-4 py-3 max-w-md">
+                  <Link href={`/admin/conversations/${conv.id}`} className="font-medium text-blue-700 hover:underline">
+                    {conv.firstMessage || 'New conversation'}
+                  </Link>
+                  {conv.snippet && (
+                    <p className="text-xs text-gray-500 mt-1 truncate">{renderSnippet(conv.snippet)}</p>
+                  )}
+                  {workspaces.length > 1 && <p className="text-xs text-gray-400 mt-1">{conv.workspaceName}</p>}
+                  {conv.channel !== 'WEB' && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      {CHANNEL_LABELS[conv.channel]} · {conv.externalUserId}
+                    </p>
+                  )}
+                  {(conv.sentiment || conv.intent || conv.tags.length > 0) && (
+                    <p className="text-xs text-gray-500 mt-1 flex flex-wrap gap-1">
+                      {conv.sentiment && (
+                        <span className={conv.sentiment === 'NEGATIVE' ? 'text-red-600' : undefined}>
+                          {SENTIMENT_LABELS[conv.sentiment]}
+                        </span>
+                      )}
+                      {conv.intent && <span>· {INTENT_LABELS[conv.intent]}</span>}
+                      {conv.urgency === 'HIGH' && <span className="text-red-600">· Urgent</span>}
+                      {conv.tags.map((tag) => (
+                        <span key={tag} className="bg-gray-100 text-gray-700 rounded px-1.5">
+                          {tag}
+                        </span>
+                      ))}
+                    </p>
+                  )}
+                  {conv.lastSender === 'USER' && (
+                    <span className="inline-block mt-1 text-xs text-red-600">Unanswered</span>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  {HANDOFF_LABELS[conv.handoffState]}
+                  {conv.assignedAgent && <span className="text-gray-400"> · {conv.assignedAgent}</span>}
+                </td>
+                <td className="px-4 py-3">{conv.messageCount}</td>
+                <td className="px-4 py-3 text-gray-500">{new Date(conv.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-3 text-gray-500">{new Date(conv.updatedAt).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {isLoading ? 'Loading...' : `${total} conversation${total === 1 ? '' : 's'}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1 || isLoading}
+            className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,440 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { isLocale, LANGUAGE_NAMES } from '@/lib/i18n';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/transcript-export/types';
+import { CHANNEL_LABELS, HANDOFF_LABELS, INTENT_LABELS, SENTIMENT_LABELS } from './ConversationList';
+
+type HandoffState = 'BOT' | 'WAITING_FOR_HUMAN' | 'HUMAN' | 'CLOSED';
+
+interface Source {
+  articleId: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+interface ToolInvocation {
+  id: string;
+  name: string;
+  arguments: unknown;
+  result: unknown;
+  error: string | null;
+  durationMs: number;
+}
+
+interface TranscriptMessage {
+  id: string;
+  sender: 'USER' | 'AI' | 'AGENT';
+  text: string;
+  timestamp: string;
+  sources: Source[] | null;
+  fromCache: boolean;
+  // Set on replies the model produced and messages it classified; costUsd is a decimal string
+  model: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  latencyMs: number | null;
+  costUsd: string | null;
+  // Set on classified customer messages
+  sentiment: keyof typeof SENTIMENT_LABELS | null;
+  intent: keyof typeof INTENT_LABELS | null;
+  urgency: 'LOW' | 'NORMAL' | 'HIGH' | null;
+  classifiedBy: string | null;
+  // What the guardrails redacted or blocked, and the model's reply when it
+  // was replaced
+  guardrailFlags: string[];
+  replacedReply: string | null;
+  feedback: { rating: 'UP' | 'DOWN'; reason: string | null } | null;
+  toolInvocations: ToolInvocation[];
+}
+
+interface Conversation {
+  id: string;
+  sessionId: string;
+  channel: keyof typeof CHANNEL_LABELS;
+  externalUserId: string | null;
+  subject: string | null;
+  createdAt: string;
+  workspace: { id: string; name: string };
+  handoffState: HandoffState;
+  escalatedAt: string | null;
+  escalationReason: string | null;
+  assignedAgent: string | null;
+  sentiment: keyof typeof SENTIMENT_LABELS | null;
+  intent: keyof typeof INTENT_LABELS | null;
+  negativeMessages: number;
+  tags: string[];
+  locale: string | null;
+  // Set when the content and customer details were stripped
+  anonymizedAt: string | null;
+  messages: TranscriptMessage[];
+  // The customer's CSAT score, 1 to 5
+  rating: { score: number; comment: string | null } | null;
+}
+
+// How often to refresh the transcript while a human is handling it
+const LIVE_POLL_INTERVAL_MS = 5000;
+
+const SENDER_LABELS: Record<TranscriptMessage['sender'], string> = {
+  USER: 'Customer',
+  AI: 'AI',
+  AGENT: 'Agent',
+};
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  jsonl: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
+  html: 'Printable',
+};
+
+// e.g. "Negative · Complaint · High urgency"
+function formatLabels(
+  sentiment: keyof typeof SENTIMENT_LABELS,
+  intent: keyof typeof INTENT_LABELS,
+  urgency: TranscriptMessage['urgency']
+): string {
+  const parts = [SENTIMENT_LABELS[sentiment], INTENT_LABELS[intent]];
+  if (urgency === 'HIGH' || urgency === 'LOW') {
+    parts.push(urgency === 'HIGH' ? 'High urgency' : 'Low urgency');
+  }
+  return parts.join(' · ');
+}
+
+function languageName(locale: string): string {
+  return isLocale(locale) ? LANGUAGE_NAMES[locale] : locale;
+}
+
+// e.g. "1,234 tokens · $0.0004 · 1.2s"
+function formatUsage(message: TranscriptMessage): string {
+  const parts = [`${((message.inputTokens ?? 0) + (message.outputTokens ?? 0)).toLocaleString()} tokens`];
+  if (message.costUsd !== null) {
+    parts.push(`$${Number(message.costUsd).toFixed(4)}`);
+  }
+  if (message.latencyMs !== null) {
+    parts.push(`${(message.latencyMs / 1000).toFixed(1)}s`);
+  }
+  return parts.join(' · ');
+}
+
+export function TranscriptViewer({ conversationId }: { conversationId: string }) {
+  const router = useRouter();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [agentName, setAgentName] = useState('');
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConversation = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/conversations/${conversationId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation');
+      }
+      setConversation(data.conversation);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    loadConversation();
+    setAgentName(localStorage.getItem('adminAgentName') || '');
+  }, [loadConversation]);
+
+  // Keep the transcript live while the conversation is with a human
+  const isLive = conversation?.handoffState === 'WAITING_FOR_HUMAN' || conversation?.handoffState === 'HUMAN';
+  useEffect(() => {
+    if (!isLive) return;
+    const interval = setInterval(loadConversation, LIVE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isLive, loadConversation]);
+
+  const updateAgentName = (name: string) => {
+    setAgentName(name);
+    localStorage.setItem('adminAgentName', name);
+  };
+
+  const post = async (path: string, body: unknown) => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/conversations/${conversationId}/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      await loadConversation();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Deleting leaves nothing to show, so it goes back to the list
+  const erase = async (action: 'delete' | 'anonymize') => {
+    const prompt =
+      action === 'delete'
+        ? 'Delete this conversation and all its messages? This cannot be undone.'
+        : 'Strip the message text and customer details from this conversation? This cannot be undone.';
+    if (!window.confirm(prompt)) return;
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/conversations/${conversationId}?action=${action}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      if (action === 'delete') {
+        router.push('/admin');
+      } else {
+        await loadConversation();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const sendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await post('messages', { agentName, message: reply })) {
+      setReply('');
+    }
+  };
+
+  if (!conversation) {
+    return <p className="text-sm text-gray-500">{error || 'Loading...'}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Link href="/admin" className="text-sm text-blue-600 hover:underline">
+        ← All conversations
+      </Link>
+
+      <div className="bg-white rounded-xl shadow-sm p-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-lg font-semibold">Conversation {conversation.sessionId}</h1>
+          <p className="text-sm text-gray-500">
+            {conversation.workspace.name} · Started {new Date(conversation.createdAt).toLocaleString()} ·{' '}
+            {conversation.messages.length} messages
+            {conversation.locale && ` · ${languageName(conversation.locale)}`}
+          </p>
+          {conversation.channel !== 'WEB' && (
+            <p className="text-sm text-gray-500">
+              {CHANNEL_LABELS[conversation.channel]} · {conversation.externalUserId}
+              {conversation.subject && ` · ${conversation.subject}`}
+            </p>
+          )}
+          <p className="text-sm mt-1">
+            State: <span className="font-medium">{HANDOFF_LABELS[conversation.handoffState]}</span>
+            {conversation.assignedAgent && ` · ${conversation.assignedAgent}`}
+          </p>
+          {conversation.escalationReason && (
+            <p className="text-sm text-amber-700 mt-1">Escalated: {conversation.escalationReason}</p>
+          )}
+          {(conversation.sentiment || conversation.tags.length > 0) && (
+            <p className="text-sm mt-1 flex flex-wrap items-center gap-1">
+              {conversation.sentiment && (
+                <span>
+                  Mood: <span className="font-medium">{SENTIMENT_LABELS[conversation.sentiment]}</span>
+                  {conversation.negativeMessages > 0 && ` (${conversation.negativeMessages} negative)`}
+                  {conversation.intent && ` · ${INTENT_LABELS[conversation.intent]}`}
+                </span>
+              )}
+              {conversation.tags.map((tag) => (
+                <span key={tag} className="bg-gray-100 text-gray-700 rounded px-1.5 text-xs">
+                  {tag}
+                </span>
+              ))}
+            </p>
+          )}
+          {conversation.rating && (
+            <p className="text-sm mt-1">
+              Customer rating: <span className="font-medium">{conversation.rating.score}/5</span>
+              {conversation.rating.comment && <span className="text-gray-600"> · “{conversation.rating.comment}”</span>}
+            </p>
+          )}
+          <p className="text-sm mt-1 flex flex-wrap gap-x-3 text-gray-500">
+            Download:
+            {EXPORT_FORMATS.map((format) => (
+              <a
+                key={format}
+                href={`/api/admin/conversations/export?format=${format}&conversationId=${conversation.id}`}
+                className="text-blue-600 hover:underline"
+              >
+                {EXPORT_LABELS[format]}
+              </a>
+            ))}
+          </p>
+          {conversation.anonymizedAt ? (
+            <p className="text-sm mt-1 text-gray-500">Anonymized {new Date(conversation.anonymizedAt).toLocaleString()}</p>
+          ) : (
+            <p className="text-sm mt-1 flex gap-x-3">
+              <button onClick={() => erase('anonymize')} disabled={isSending} className="text-red-600 hover:underline disabled:opacity-50">
+                Anonymize
+              </button>
+              <button onClick={() => erase('delete')} disabled={isSending} className="text-red-600 hover:underline disabled:opacity-50">
+                Delete
+              </button>
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => post('handoff', { action: 'claim', agentName })}
+            disabled={isSending || !agentName || conversation.handoffState === 'HUMAN'}
+            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white rounded-lg text-sm"
+          >
+            Take over
+          </button>
+          <button
+            onClick={() => post('handoff', { action: 'release' })}
+            disabled={isSending || conversation.handoffState === 'BOT'}
+            className="px-3 py-1.5 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 rounded-lg text-sm"
+          >
+            Hand back to AI
+          </button>
+          <button
+            onClick={() => post('handoff', { action: 'close' })}
+            disabled={isSending || conversation.handoffState === 'CLOSED'}
+            className="px-3 py-1.5 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 rounded-lg text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-4 space-y-4">
+        {conversation.messages.map((message) => (
+          <div key={message.id} className={message.sender === 'USER' ? 'pl-0' : 'pl-8'}>
+            <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+              <span className="font-medium text-gray-700">{SENDER_LABELS[message.sender]}</span>
+              <span>{new Date(message.timestamp).toLocaleString()}</span>
+              {message.fromCache && <span className="text-purple-600">Cached</span>}
+              {message.sentiment && message.intent && (
+                <span
+                  className={message.sentiment === 'NEGATIVE' ? 'text-red-600' : undefined}
+                  title={`Classified by ${message.classifiedBy}`}
+                >
+                  {formatLabels(message.sentiment, message.intent, message.urgency)}
+                </span>
+              )}
+              {message.guardrailFlags.length > 0 && (
+                <span className="text-amber-600">Guardrails: {message.guardrailFlags.join(', ')}</span>
+              )}
+              {message.feedback && (
+                <span
+                  className={message.feedback.rating === 'UP' ? 'text-green-600' : 'text-red-600'}
+                  title={message.feedback.reason ?? undefined}
+                >
+                  {message.feedback.rating === 'UP' ? 'Helpful' : 'Not helpful'}
+                  {message.feedback.reason && `: ${message.feedback.reason}`}
+                </span>
+              )}
+              {message.model && (
+                <span title={`${message.model}: ${message.inputTokens} in, ${message.outputTokens} out`}>
+                  {formatUsage(message)}
+                </span>
+              )}
+            </div>
+            <p
+              className={`text-sm whitespace-pre-wrap break-words rounded-lg px-3 py-2 ${
+                message.sender === 'USER' ? 'bg-blue-50' : message.sender === 'AGENT' ? 'bg-green-50' : 'bg-gray-50'
+              }`}
+            >
+              {message.text}
+            </p>
+
+            {message.replacedReply && (
+              <details className="mt-1 text-xs text-gray-600">
+                <summary className="cursor-pointer">Replaced reply</summary>
+                <p className="mt-1 whitespace-pre-wrap border-l-2 border-amber-200 pl-2 text-gray-500">
+                  {message.replacedReply}
+                </p>
+              </details>
+            )}
+
+            {message.sources && message.sources.length > 0 && (
+              <details className="mt-1 text-xs text-gray-600">
+                <summary className="cursor-pointer">Knowledge used ({message.sources.length})</summary>
+                <ul className="mt-1 space-y-1">
+                  {message.sources.map((source, i) => (
+                    <li key={i} className="border-l-2 border-gray-200 pl-2">
+                      <span className="font-medium">{source.title}</span> (score {source.score})
+                      <p className="whitespace-pre-wrap text-gray-500">{source.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {message.toolInvocations.length > 0 && (
+              <details className="mt-1 text-xs text-gray-600">
+                <summary className="cursor-pointer">Tool calls ({message.toolInvocations.length})</summary>
+                <ul className="mt-1 space-y-1">
+                  {message.toolInvocations.map((call) => (
+                    <li key={call.id} className="border-l-2 border-gray-200 pl-2">
+                      <span className="font-medium">{call.name}</span> ({call.durationMs} ms)
+                      <pre className="whitespace-pre-wrap text-gray-500">{JSON.stringify(call.arguments)}</pre>
+                      <pre className={`whitespace-pre-wrap ${call.error ? 'text-red-600' : 'text-gray-500'}`}>
+                        {call.error || JSON.stringify(call.result, null, 2)}
+                      </pre>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={sendReply} className="bg-white rounded-xl shadow-sm p-4 space-y-2">
+        <input
+          type="text"
+          value={agentName}
+          onChange={(e) => updateAgentName(e.target.value)}
+          placeholder="Your name"
+          className="w-full md:w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex gap-2">
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply as an agent (takes over the conversation)"
+            rows={2}
+            maxLength={2000}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !agentName.trim() || !reply.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg text-sm font-medium"
+          >
+            Send
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-session';
+
+export function isValidAdminKey(candidate: string): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey || !candidate) return false;
+
+  const bufA = Buffer.from(candidate);
+  const bufB = Buffer.from(adminKey);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+// Admin routes accept either `Authorization: Bearer <ADMIN_API_KEY>` (scripts,
+// integrations) or the session cookie set by the dashboard login.
+// Returns an error response to send back, or null when the caller is allowed through.
+export async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+  if (!process.env.ADMIN_API_KEY) {
+    return NextResponse.json(
+      { error: 'Admin API is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (token && isValidAdminKey(token)) {
+    return null;
+  }
+
+  const session = request.cookies.get(ADMIN_SESSION_COOKIE)?.value;
+  if (await verifyAdminSessionToken(session, process.env.ADMIN_API_KEY)) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: 'Unauthorized' },
+    { status: 401 }
+  );
+}
@@ -0,0 +1,24 @@
+import { constantTimeEqual, sign } from '@/lib/signing';
+
+// Signed admin session cookie used by the dashboard pages.
+
+export const ADMIN_SESSION_COOKIE = 'spur_admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Token format: `<expiresAt>.<hmac>`, signed with ADMIN_API_KEY so rotating
+// the key also invalidates every session.
+export async function createAdminSessionToken(secret: string): Promise<string> {
+  const expiresAt = Math.floor(Date.now() / 1000) + ADMIN_SESSION_TTL_SECONDS;
+  return `${expiresAt}.${await sign(`admin:${expiresAt}`, secret)}`;
+}
+
+export async function verifyAdminSessionToken(token: string | undefined, secret: string | undefined): Promise<boolean> {
+  if (!token || !secret) return false;
+
+  const [expiresAt, signature] = token.split('.');
+  if (!expiresAt || !signature || Number(expiresAt) < Date.now() / 1000) {
+    return false;
+  }
+
+  return constantTimeEqual(signature, await sign(`admin:${expiresAt}`, secret));
+}
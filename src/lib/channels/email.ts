@@ -0,0 +1,121 @@
+import { NextRequest } from 'next/server';
+import { extractAddress, Mailer } from '@/lib/mailer';
+import { constantTimeEqual, sign } from '@/lib/signing';
+import { ChannelAdapter, ChannelSender, InboundMessage, OutboundMessage } from './types';
+
+// Reject webhooks signed longer ago than this, to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const DEFAULT_SUBJECT = 'Your support request';
+
+// Message-IDs in an In-Reply-To or References header
+function parseMessageIds(header: string | null): string[] {
+  return header?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+// Headers Mailgun passes along as a JSON list of [name, value] pairs
+function parseHeaders(json: string | null): Map<string, string> {
+  const headers = new Map<string, string>();
+  try {
+    for (const [name, value] of JSON.parse(json ?? '[]') as Array<[string, string]>) {
+      headers.set(name.toLowerCase(), value);
+    }
+  } catch {
+    // Missing or malformed; treat as no extra headers
+  }
+  return headers;
+}
+
+// Out-of-office replies, bounces and mailing lists. Answering them could
+// start a loop of auto-replies between the AI and another robot.
+function isAutomated(params: URLSearchParams): boolean {
+  const headers = parseHeaders(params.get('message-headers'));
+  const autoSubmitted = headers.get('auto-submitted');
+  const precedence = headers.get('precedence')?.toLowerCase();
+  return (
+    (!!autoSubmitted && autoSubmitted.toLowerCase() !== 'no') ||
+    precedence === 'bulk' ||
+    precedence === 'junk' ||
+    precedence === 'list' ||
+    precedence === 'auto_reply' ||
+    headers.has('x-autoreply') ||
+    headers.has('x-autorespond')
+  );
+}
+
+export function replySubject(subject: string | null): string {
+  const base = subject?.trim() || DEFAULT_SUBJECT;
+  return /^re:/i.test(base) ? base : `Re: ${base}`;
+}
+
+// Mailgun inbound routes ("forward" action), posted as form fields with the
+// message already parsed. Signed with the webhook signing key: `signature` is
+// the hex HMAC-SHA256 of `timestamp` followed by `token`.
+export class MailgunEmailAdapter implements ChannelAdapter {
+  readonly channel = 'EMAIL' as const;
+
+  constructor(private signingKey: string | undefined) {}
+
+  isConfigured(): boolean {
+    return !!this.signingKey;
+  }
+
+  async verifySignature(_request: NextRequest, rawBody: string): Promise<boolean> {
+    const params = new URLSearchParams(rawBody);
+    const timestamp = params.get('timestamp');
+    const token = params.get('token');
+    const signature = params.get('signature');
+    if (!this.signingKey || !timestamp || !token || !signature) return false;
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+    return constantTimeEqual(signature, await sign(timestamp + token, this.signingKey));
+  }
+
+  parse(rawBody: string): InboundMessage[] {
+    const params = new URLSearchParams(rawBody);
+    const recipient = params.get('recipient');
+    const sender = params.get('sender') || params.get('from');
+    const messageId = parseMessageIds(params.get('Message-Id'))[0];
+    // stripped-text drops the quoted history and signature from a reply
+    const text = (params.get('stripped-text') || params.get('body-plain') || '').trim();
+
+    if (!recipient || !sender || !messageId || !text || isAutomated(params)) return [];
+
+    let from: string;
+    try {
+      from = extractAddress(sender).toLowerCase();
+    } catch {
+      return [];
+    }
+
+    return [
+      {
+        channel: this.channel,
+        accountId: recipient.trim().toLowerCase(),
+        from,
+        text,
+        externalId: messageId,
+        subject: params.get('subject')?.trim() || DEFAULT_SUBJECT,
+        references: Array.from(
+          new Set([...parseMessageIds(params.get('References')), ...parseMessageIds(params.get('In-Reply-To'))])
+        ),
+      },
+    ];
+  }
+}
+
+// Sends replies from the workspace's inbound address through the mailer, so
+// the customer's answer comes back to the same route
+export class EmailSender implements ChannelSender {
+  constructor(private mailer: Mailer) {}
+
+  async send(message: OutboundMessage): Promise<void> {
+    await this.mailer.send({
+      from: message.accountId,
+      to: message.to,
+      subject: replySubject(message.subject ?? null),
+      text: message.text,
+      references: message.references,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { ChannelSender, OutboundMessage } from './types';
+
+// Keeps only the most recent messages so a long-running dev server doesn't grow
+const MAX_KEPT_MESSAGES = 100;
+
+// Local stand-in that prints outbound channel messages to the server console
+// instead of sending them, and keeps the latest ones in `sent` for tests
+export class FakeChannelSender implements ChannelSender {
+  readonly sent: OutboundMessage[] = [];
+
+  async send(message: OutboundMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > MAX_KEPT_MESSAGES) {
+      this.sent.shift();
+    }
+    console.log(`\n[${message.channel.toLowerCase()}] From: ${message.accountId} To: ${message.to}\n\n${message.text}\n`);
+  }
+}
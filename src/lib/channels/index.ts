@@ -0,0 +1,185 @@
+import { NextRequest } from 'next/server';
+import { Conversation, Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ConversationRef, getOrCreateConversation, runTurn } from '@/lib/chat-service';
+import { getMailer } from '@/lib/mailer';
+import { checkRateLimits, RATE_LIMIT_ERRORS, RATE_LIMITS } from '@/lib/rate-limit';
+import { EmailSender, MailgunEmailAdapter } from './email';
+import { FakeChannelSender } from './fake-sender';
+import { TwilioSmsAdapter, TwilioSmsSender } from './sms';
+import { ChannelAdapter, ChannelSender, ExternalChannel, InboundMessage, OutboundMessage } from './types';
+import { WhatsAppAdapter, WhatsAppSender } from './whatsapp';
+
+export * from './types';
+export { EmailSender, MailgunEmailAdapter, replySubject } from './email';
+export { FakeChannelSender } from './fake-sender';
+export { splitMessage, TwilioSmsAdapter, TwilioSmsSender } from './sms';
+export { verifyWhatsAppSubscription, WhatsAppAdapter, WhatsAppSender } from './whatsapp';
+
+// Enough of the thread for mail clients to group the reply; long
+// References headers get truncated by some servers anyway
+const MAX_EMAIL_REFERENCES = 10;
+
+const adapters = new Map<ExternalChannel, ChannelAdapter>();
+const senders = new Map<ExternalChannel, ChannelSender>();
+
+export function getChannelAdapter(channel: ExternalChannel): ChannelAdapter {
+  let adapter = adapters.get(channel);
+  if (!adapter) {
+    adapter =
+      channel === 'WHATSAPP'
+        ? new WhatsAppAdapter(process.env.WHATSAPP_APP_SECRET)
+        : channel === 'SMS'
+          ? new TwilioSmsAdapter(process.env.TWILIO_AUTH_TOKEN)
+          : new MailgunEmailAdapter(process.env.MAILGUN_WEBHOOK_SIGNING_KEY);
+    adapters.set(channel, adapter);
+  }
+  return adapter;
+}
+
+// Real senders need the provider's credentials; without them replies go to
+// the fake sender, which prints them to the console. Email goes through the
+// mailer, which has its own console stand-in.
+export function getChannelSender(channel: ExternalChannel): ChannelSender {
+  let sender = senders.get(channel);
+  if (!sender) {
+    const { WHATSAPP_ACCESS_TOKEN, TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN } = process.env;
+    if (channel === 'EMAIL') {
+      sender = new EmailSender(getMailer());
+    } else if (channel === 'WHATSAPP' && WHATSAPP_ACCESS_TOKEN) {
+      sender = new WhatsAppSender(WHATSAPP_ACCESS_TOKEN);
+    } else if (channel === 'SMS' && TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN) {
+      sender = new TwilioSmsSender(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN);
+    } else {
+      sender = new FakeChannelSender();
+    }
+    senders.set(channel, sender);
+  }
+  return sender;
+}
+
+// Inbound webhooks are only trusted with a valid provider signature. Outside
+// production a missing secret skips the check, so the flow can be driven
+// locally with curl.
+export async function verifyInboundRequest(
+  adapter: ChannelAdapter,
+  request: NextRequest,
+  rawBody: string
+): Promise<boolean> {
+  if (!adapter.isConfigured() && process.env.NODE_ENV !== 'production') {
+    console.warn(`[${adapter.channel}] No signing secret configured; accepting an unsigned webhook`);
+    return true;
+  }
+  return adapter.verifySignature(request, rawBody);
+}
+
+function channelAccountId(workspace: Workspace, channel: ExternalChannel): string | null {
+  return channel === 'WHATSAPP'
+    ? workspace.whatsappPhoneNumberId
+    : channel === 'SMS'
+      ? workspace.smsNumber
+      : workspace.inboundEmail;
+}
+
+function findWorkspaceForAccount(channel: ExternalChannel, accountId: string): Promise<Workspace | null> {
+  return prisma.workspace.findUnique({
+    where:
+      channel === 'WHATSAPP'
+        ? { whatsappPhoneNumberId: accountId }
+        : channel === 'SMS'
+          ? { smsNumber: accountId }
+          : { inboundEmail: accountId },
+  });
+}
+
+function conversationRef(message: InboundMessage): ConversationRef {
+  return message.channel === 'EMAIL'
+    ? {
+        channel: 'EMAIL',
+        externalUserId: message.from,
+        references: message.references ?? [],
+        subject: message.subject ?? '',
+      }
+    : { channel: message.channel, externalUserId: message.from };
+}
+
+// Sends a reply on the conversation's channel. Email replies carry the
+// customer's Message-IDs so they thread under the original message.
+async function deliver(workspace: Workspace, conversation: Conversation, text: string): Promise<void> {
+  const channel = conversation.channel;
+  if (channel === 'WEB' || !conversation.externalUserId) return;
+
+  const accountId = channelAccountId(workspace, channel);
+  if (!accountId) {
+    throw new Error(`Workspace ${workspace.slug} has no ${channel} account connected`);
+  }
+
+  let threading: Pick<OutboundMessage, 'subject' | 'references'> = {};
+  if (channel === 'EMAIL') {
+    const customerMessages = await prisma.message.findMany({
+      where: { conversationId: conversation.id, externalId: { not: null } },
+      orderBy: { timestamp: 'desc' },
+      take: MAX_EMAIL_REFERENCES,
+      select: { externalId: true },
+    });
+    threading = {
+      subject: conversation.subject ?? undefined,
+      references: customerMessages.map((message) => message.externalId as string).reverse(),
+    };
+  }
+
+  await getChannelSender(channel).send({ channel, accountId, to: conversation.externalUserId, text, ...threading });
+}
+
+// Runs one inbound channel message through the chat pipeline and sends the
+// reply back on the same channel. Failing to send is logged rather than
+// thrown: the provider would redeliver the webhook, and the message would
+// then be skipped as a duplicate anyway.
+export async function handleInboundMessage(message: InboundMessage): Promise<void> {
+  const duplicate = await prisma.message.findUnique({ where: { externalId: message.externalId } });
+  if (duplicate) return;
+
+  const workspace = await findWorkspaceForAccount(message.channel, message.accountId);
+  if (!workspace) {
+    console.warn(`[${message.channel}] No workspace is connected to account ${message.accountId}`);
+    return;
+  }
+
+  // Over the limit, messages are dropped without a reply: answering would
+  // cost the per-message fees the limit is there to cap
+  const rateLimit = await checkRateLimits([
+    { rule: RATE_LIMITS.chatVisitor, id: `${message.channel}:${message.from}` },
+  ]);
+  if (!rateLimit.allowed) {
+    console.warn(`[${message.channel}] Rate limited ${message.from}`);
+    return;
+  }
+
+  const conversation = await getOrCreateConversation(workspace, conversationRef(message));
+  const result = await runTurn(workspace, conversation, message.text, { externalId: message.externalId });
+
+  const reply =
+    result.status === 'replied'
+      ? result.reply
+      : result.status === 'budget_exceeded'
+        ? RATE_LIMIT_ERRORS.dailyBudget
+        : result.status === 'error'
+          ? result.error
+          : null;
+  if (!reply) return;
+
+  try {
+    await deliver(workspace, conversation, reply);
+  } catch (error) {
+    console.error(`[${message.channel}] Failed to send reply:`, error);
+  }
+}
+
+// Delivers an agent's reply to a customer on WhatsApp, SMS or email. Web
+// conversations need nothing: the widget picks replies up from history.
+export async function sendToChannel(conversation: Conversation, text: string): Promise<void> {
+  if (conversation.channel === 'WEB' || !conversation.externalUserId) return;
+
+  const workspace = await prisma.workspace.findUniqueOrThrow({ where: { id: conversation.workspaceId } });
+  await deliver(workspace, conversation, text);
+}
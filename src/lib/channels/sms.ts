@@ -0,0 +1,89 @@
+import { createHmac } from 'crypto';
+import { NextRequest } from 'next/server';
+import { constantTimeEqual } from '@/lib/signing';
+import { ChannelAdapter, ChannelSender, InboundMessage, OutboundMessage } from './types';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+
+// Twilio rejects longer message bodies
+const MAX_SMS_LENGTH = 1600;
+
+// The URL Twilio signed. Behind a proxy the request URL can differ from the
+// public one configured in Twilio, so APP_URL takes precedence.
+function publicUrl(request: NextRequest): string {
+  const appUrl = process.env.APP_URL;
+  return appUrl ? new URL(request.nextUrl.pathname + request.nextUrl.search, appUrl).toString() : request.url;
+}
+
+// Splits a long reply on whitespace so each part fits in one message
+export function splitMessage(text: string, maxLength: number = MAX_SMS_LENGTH): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > maxLength) {
+    const breakAt = rest.lastIndexOf(' ', maxLength);
+    const end = breakAt > 0 ? breakAt : maxLength;
+    parts.push(rest.slice(0, end).trimEnd());
+    rest = rest.slice(end).trimStart();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+// Twilio Programmable Messaging webhooks (form-encoded), signed in
+// X-Twilio-Signature with base64 HMAC-SHA1 over the URL followed by every
+// parameter name and value, sorted by name
+export class TwilioSmsAdapter implements ChannelAdapter {
+  readonly channel = 'SMS' as const;
+
+  constructor(private authToken: string | undefined) {}
+
+  isConfigured(): boolean {
+    return !!this.authToken;
+  }
+
+  async verifySignature(request: NextRequest, rawBody: string): Promise<boolean> {
+    const signature = request.headers.get('x-twilio-signature');
+    if (!this.authToken || !signature) return false;
+
+    const params = Array.from(new URLSearchParams(rawBody).entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const signed = publicUrl(request) + params.map(([name, value]) => name + value).join('');
+    const expected = createHmac('sha1', this.authToken).update(signed).digest('base64');
+    return constantTimeEqual(signature, expected);
+  }
+
+  parse(rawBody: string): InboundMessage[] {
+    const params = new URLSearchParams(rawBody);
+    const from = params.get('From');
+    const to = params.get('To');
+    const text = params.get('Body');
+    const messageSid = params.get('MessageSid');
+
+    if (!from || !to || !text || !messageSid) return [];
+    return [{ channel: this.channel, accountId: to, from, text, externalId: messageSid }];
+  }
+}
+
+export class TwilioSmsSender implements ChannelSender {
+  constructor(
+    private accountSid: string,
+    private authToken: string
+  ) {}
+
+  async send(message: OutboundMessage): Promise<void> {
+    for (const part of splitMessage(message.text)) {
+      const response = await fetch(`${TWILIO_API_URL}/Accounts/${this.accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ From: message.accountId, To: message.to, Body: part }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`SMS send failed: HTTP ${response.status} ${await response.text()}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { Channel } from '@prisma/client';
+
+// Channels that reach the app through a provider's webhooks
+export type ExternalChannel = Exclude<Channel, 'WEB'>;
+
+export interface InboundMessage {
+  channel: ExternalChannel;
+  // Business account the customer wrote to (WhatsApp phone number id, SMS
+  // number, inbound email address)
+  accountId: string;
+  // Customer's id on the channel
+  from: string;
+  text: string;
+  // Provider's message id, used to skip redelivered webhooks. For email this
+  // is the Message-ID header.
+  externalId: string;
+  // Email only: the subject and the Message-IDs from In-Reply-To/References,
+  // used to find the thread the message belongs to
+  subject?: string;
+  references?: string[];
+}
+
+export interface OutboundMessage {
+  channel: ExternalChannel;
+  accountId: string;
+  to: string;
+  text: string;
+  // Email only: threading headers so the reply lands in the customer's thread
+  subject?: string;
+  references?: string[];
+}
+
+// Authenticates and parses one provider's inbound webhook format
+export interface ChannelAdapter {
+  readonly channel: ExternalChannel;
+
+  // False when the signing secret isn't configured
+  isConfigured(): boolean;
+
+  // Checks the provider's signature over the raw request body
+  verifySignature(request: NextRequest, rawBody: string): Promise<boolean>;
+
+  // Customer text messages in the payload; delivery receipts and other
+  // event types are skipped
+  parse(rawBody: string): InboundMessage[];
+}
+
+export interface ChannelSender {
+  send(message: OutboundMessage): Promise<void>;
+}
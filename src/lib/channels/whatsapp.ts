@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { constantTimeEqual, sign } from '@/lib/signing';
+import { ChannelAdapter, ChannelSender, InboundMessage, OutboundMessage } from './types';
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v20.0';
+
+// The parts of a WhatsApp Cloud API webhook this adapter reads
+interface WhatsAppWebhook {
+  entry?: Array<{
+    changes?: Array<{
+      value?: {
+        metadata?: { phone_number_id: string };
+        messages?: Array<{ id: string; from: string; type: string; text?: { body: string } }>;
+      };
+    }>;
+  }>;
+}
+
+// WhatsApp Cloud API webhooks, signed with the Meta app secret in
+// X-Hub-Signature-256 (`sha256=<hex HMAC of the raw body>`)
+export class WhatsAppAdapter implements ChannelAdapter {
+  readonly channel = 'WHATSAPP' as const;
+
+  constructor(private appSecret: string | undefined) {}
+
+  isConfigured(): boolean {
+    return !!this.appSecret;
+  }
+
+  async verifySignature(request: NextRequest, rawBody: string): Promise<boolean> {
+    const header = request.headers.get('x-hub-signature-256');
+    if (!this.appSecret || !header?.startsWith('sha256=')) return false;
+
+    return constantTimeEqual(header.slice('sha256='.length), await sign(rawBody, this.appSecret));
+  }
+
+  parse(rawBody: string): InboundMessage[] {
+    const payload = JSON.parse(rawBody) as WhatsAppWebhook;
+    const messages: InboundMessage[] = [];
+
+    for (const entry of payload.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        const accountId = change.value?.metadata?.phone_number_id;
+        for (const message of change.value?.messages ?? []) {
+          if (accountId && message.type === 'text' && message.text) {
+            messages.push({
+              channel: this.channel,
+              accountId,
+              from: message.from,
+              text: message.text.body,
+              externalId: message.id,
+            });
+          }
+        }
+      }
+    }
+    return messages;
+  }
+}
+
+// Answers Meta's subscription handshake: echo `hub.challenge` back when the
+// verify token matches the one configured for the app
+export function verifyWhatsAppSubscription(searchParams: URLSearchParams, verifyToken: string | undefined): string | null {
+  const token = searchParams.get('hub.verify_token');
+  if (searchParams.get('hub.mode') !== 'subscribe' || !verifyToken || !token || !constantTimeEqual(token, verifyToken)) {
+    return null;
+  }
+  return searchParams.get('hub.challenge');
+}
+
+export class WhatsAppSender implements ChannelSender {
+  constructor(private accessToken: string) {}
+
+  async send(message: OutboundMessage): Promise<void> {
+    const response = await fetch(`${GRAPH_API_URL}/${message.accountId}/messages`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: message.to,
+        type: 'text',
+        text: { body: message.text },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`WhatsApp send failed: HTTP ${response.status} ${await response.text()}`);
+    }
+  }
+}
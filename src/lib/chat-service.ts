@@ -0,0 +1,427 @@
+import { Channel, Conversation, HandoffState, Prisma, Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ConversationContext, GeneratedReply, getLLMService, LLMService, ReplyUsage } from '@/lib/llm-service';
+import { KnowledgeSource } from '@/lib/knowledge-base';
+import { ToolCallRecord } from '@/lib/tools';
+import {
+  ESCALATION_TOOL_NAME,
+  escalateConversation,
+  handoffAcknowledgement,
+  isAiSuppressed,
+  isHandoffRequest,
+} from '@/lib/handoff';
+import { ChatOwner, isOwnedBy } from '@/lib/customer-auth';
+import { getTokenBudget, RateLimitResult, tokenBudgetKey } from '@/lib/rate-limit';
+import { emitWebhookEvent, toWebhookConversation, toWebhookMessage } from '@/lib/webhooks';
+import { lookupReply, rememberReply, ReplyCacheKey } from '@/lib/reply-cache';
+import { scheduleSummaryRefresh } from '@/lib/conversation-summary';
+import { checkBudgetAlerts, toUsageColumns } from '@/lib/usage';
+import { classifyCustomerMessage } from '@/lib/classification';
+import { applyRules } from '@/lib/rules';
+import { blockedReply, checkInput, loadPiiVault, ReplyGuardrail, savePiiMasks } from '@/lib/guardrails';
+import { detectLanguage, formatMessage, getWidgetMessages, isLocale, Locale } from '@/lib/i18n';
+
+// The message pipeline shared by every channel: find or create the
+// conversation, save the customer's message, decide whether and how the AI
+// answers, and save the reply. Transport (HTTP responses, streaming, sending
+// on WhatsApp or SMS) is left to the callers.
+
+// Which conversation an inbound message belongs to
+export type ConversationRef =
+  | { channel: 'WEB'; sessionId?: string; owner: ChatOwner }
+  | { channel: Exclude<Channel, 'WEB' | 'EMAIL'>; externalUserId: string }
+  // Message-IDs the email replies to, and the subject for a new thread
+  | { channel: 'EMAIL'; externalUserId: string; references: string[]; subject: string };
+
+// Most earlier messages loaded for a turn. Older ones are covered by the
+// conversation summary; the LLM service trims these further to its token budget.
+const MAX_HISTORY_MESSAGES = 40;
+
+export type TurnResult =
+  | { status: 'replied'; reply: string; messageId: string; handoffState: HandoffState; sources: KnowledgeSource[] }
+  // A human owns (or is about to own) the thread, so the AI stays silent
+  | { status: 'silent'; handoffState: HandoffState }
+  // Today's token budget is used up; the message was not saved
+  | { status: 'budget_exceeded'; budget: RateLimitResult }
+  // The provider failed; the customer's message is saved but has no reply
+  | { status: 'error'; error: string };
+
+// The AI reply still has to be generated. Callers either stream it (web) or
+// wait for it with generateTurnReply.
+export interface PendingReply {
+  status: 'generate';
+  llmService: LLMService;
+  // Earlier messages and summary, without the customer's new message
+  context: ConversationContext;
+  // The customer's message as stored and sent to the model, PII redacted
+  userMessage: string;
+  // Where to cache the generated reply; null when the turn isn't cacheable
+  cacheKey: ReplyCacheKey | null;
+  // Whose daily token budget the reply counts against
+  budgetKey: string;
+}
+
+// The saved AI message and the conversation's handoff state after it
+export interface SavedReply {
+  messageId: string;
+  handoffState: HandoffState;
+}
+
+export interface CustomerMessageOptions {
+  // Provider's message id, stored so redelivered channel webhooks can be skipped
+  externalId?: string;
+  // Language the customer's client asks for, used until their messages show one
+  locale?: Locale;
+  // Whose daily token budget the turn counts against, when it isn't the
+  // conversation's customer (see tokenBudgetKey)
+  budgetKey?: string;
+}
+
+function toSourcesJson(sources: KnowledgeSource[]): Prisma.InputJsonValue | undefined {
+  return sources.length > 0 ? (sources as unknown as Prisma.InputJsonValue) : undefined;
+}
+
+function toToolInvocations(toolCalls: ToolCallRecord[]) {
+  return {
+    create: toolCalls.map((call) => ({
+      callId: call.callId,
+      name: call.name,
+      arguments: (call.arguments ?? {}) as Prisma.InputJsonValue,
+      result: call.result === null || call.result === undefined ? Prisma.JsonNull : (call.result as Prisma.InputJsonValue),
+      error: call.error,
+      durationMs: call.durationMs,
+    })),
+  };
+}
+
+async function createConversation(data: Prisma.ConversationUncheckedCreateInput): Promise<Conversation> {
+  const conversation = await prisma.conversation.create({ data });
+  await emitWebhookEvent(conversation.workspaceId, 'conversation.created', {
+    conversation: toWebhookConversation(conversation),
+  });
+  return conversation;
+}
+
+// Web conversations are found by session id, but only the caller's own
+// conversations in this workspace count. Someone else's session id starts a
+// fresh conversation for the caller. Email is threaded by reply headers: a
+// message joins the conversation holding a message it replies to, as long as
+// it comes from the same address, and starts a new one otherwise. Other
+// channel customers keep one ongoing conversation per workspace.
+export async function getOrCreateConversation(workspace: Workspace, ref: ConversationRef): Promise<Conversation> {
+  if (ref.channel === 'EMAIL') {
+    const parent =
+      ref.references.length > 0
+        ? await prisma.message.findFirst({
+            where: {
+              externalId: { in: ref.references },
+              conversation: { workspaceId: workspace.id, channel: 'EMAIL', externalUserId: ref.externalUserId },
+            },
+            orderBy: { timestamp: 'desc' },
+            include: { conversation: true },
+          })
+        : null;
+    return (
+      parent?.conversation ??
+      createConversation({
+        workspaceId: workspace.id,
+        sessionId: crypto.randomUUID(),
+        channel: 'EMAIL',
+        externalUserId: ref.externalUserId,
+        subject: ref.subject,
+      })
+    );
+  }
+
+  if (ref.channel !== 'WEB') {
+    const existing = await prisma.conversation.findFirst({
+      where: { workspaceId: workspace.id, channel: ref.channel, externalUserId: ref.externalUserId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return (
+      existing ??
+      createConversation({
+        workspaceId: workspace.id,
+        sessionId: crypto.randomUUID(),
+        channel: ref.channel,
+        externalUserId: ref.externalUserId,
+      })
+    );
+  }
+
+  const { sessionId, owner } = ref;
+  let sessionIdTaken = false;
+  if (sessionId) {
+    const existing = await prisma.conversation.findUnique({
+      where: { sessionId },
+    });
+    if (existing && existing.workspaceId === workspace.id && isOwnedBy(existing, owner)) {
+      return existing;
+    }
+    sessionIdTaken = existing !== null;
+  }
+
+  return createConversation({
+    workspaceId: workspace.id,
+    sessionId: sessionId && !sessionIdTaken ? sessionId : crypto.randomUUID(),
+    visitorId: owner.visitor.id,
+    userId: owner.userId,
+  });
+}
+
+// Persists the AI reply and escalates the conversation if the model asked
+// for a human. `usage` is recorded on the message when the model produced
+// it, and `guardrail` when the guardrails changed it.
+export async function saveAiReply(
+  conversationId: string,
+  reply: string,
+  sources: KnowledgeSource[] = [],
+  toolCalls: ToolCallRecord[] = [],
+  options: { fromCache?: boolean; usage?: ReplyUsage; guardrail?: ReplyGuardrail } = {}
+): Promise<SavedReply> {
+  // Save AI reply
+  const message = await prisma.message.create({
+    data: {
+      conversationId,
+      sender: 'AI',
+      text: reply,
+      sources: toSourcesJson(sources),
+      toolInvocations: toToolInvocations(toolCalls),
+      fromCache: options.fromCache,
+      guardrailFlags: options.guardrail?.flags,
+      replacedReply: options.guardrail?.replacedReply,
+      ...(options.usage && toUsageColumns(options.usage)),
+    },
+  });
+
+  // Escalating also bumps the conversation timestamp
+  const escalation = toolCalls.find((call) => call.name === ESCALATION_TOOL_NAME && !call.error);
+  const conversation = escalation
+    ? await escalateConversation(conversationId, (escalation.arguments as { reason: string }).reason)
+    : await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { updatedAt: new Date() },
+      });
+
+  await emitWebhookEvent(conversation.workspaceId, 'message.created', {
+    conversation: toWebhookConversation(conversation),
+    message: toWebhookMessage(message),
+  });
+  if (options.usage) {
+    await checkBudgetAlerts(conversation.workspaceId);
+  }
+  return { messageId: message.id, handoffState: conversation.handoffState };
+}
+
+// Saves a reply the model just generated and caches it when the turn allows.
+// Replies that used tools are about one customer's order, ones that
+// escalated belong to that conversation, and ones a guardrail touched need
+// review, so none of those are cached.
+export async function saveGeneratedReply(
+  conversationId: string,
+  pending: PendingReply,
+  generated: GeneratedReply,
+  usage?: ReplyUsage
+): Promise<SavedReply> {
+  const { reply, sources, toolCalls, guardrail } = generated;
+  const saved = await saveAiReply(conversationId, reply, sources, toolCalls, { usage, guardrail });
+  // Values masked in tool results, so later turns can pass them back to tools
+  if (pending.context.pii) {
+    await savePiiMasks(conversationId, pending.context.pii);
+  }
+  if (pending.cacheKey && toolCalls.length === 0 && !guardrail && saved.handoffState === 'BOT') {
+    await rememberReply(pending.cacheKey, { reply, sources });
+  }
+  scheduleSummaryRefresh(conversationId, pending.llmService);
+  return saved;
+}
+
+// Records the tokens of a reply that won't be saved, because the provider
+// failed or the client left mid-stream; they were billed all the same
+export async function recordUnsavedReplyUsage(
+  conversation: Pick<Conversation, 'id' | 'workspaceId'>,
+  usage: ReplyUsage
+): Promise<void> {
+  if (usage.inputTokens === 0 && usage.outputTokens === 0) return;
+  await prisma.unsavedReplyUsage.create({ data: { conversationId: conversation.id, ...toUsageColumns(usage) } });
+  await checkBudgetAlerts(conversation.workspaceId);
+}
+
+// A message in a recognised language sets the conversation's language; until
+// one is recognised, the client's preference stands in for it
+async function updateLocale(conversation: Conversation, text: string, preferred?: Locale): Promise<Conversation> {
+  const locale = detectLanguage(text) ?? (conversation.locale ? null : preferred ?? null);
+  if (!locale || locale === conversation.locale) {
+    return conversation;
+  }
+  return prisma.conversation.update({ where: { id: conversation.id }, data: { locale } });
+}
+
+// Everything up to the AI reply: screens, saves and classifies the
+// customer's message, applies the workspace's rules and answers directly when
+// the AI shouldn't or can't (blocked message, handoff, missing provider) or
+// doesn't need to (pinned answer, cached reply).
+export async function startTurn(
+  workspace: Workspace,
+  conversation: Conversation,
+  text: string,
+  options: CustomerMessageOptions = {}
+): Promise<TurnResult | PendingReply> {
+  // A closed conversation goes back to the bot when the customer writes again
+  if (conversation.handoffState === 'CLOSED') {
+    conversation = await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { handoffState: 'BOT', assignedAgent: null },
+    });
+  }
+
+  // Stop spending on a customer who has used up today's token budget
+  const budgetKey = options.budgetKey ?? tokenBudgetKey(conversation);
+  const budget = await getTokenBudget().check(budgetKey);
+  if (!budget.allowed) {
+    return { status: 'budget_exceeded', budget };
+  }
+
+  // Redact PII and screen the message before it is stored or reaches a model
+  const pii = await loadPiiVault(conversation.id, [workspace.supportEmail, workspace.inboundEmail, workspace.smsNumber]);
+  const input = await checkInput(text, pii);
+  await savePiiMasks(conversation.id, pii);
+
+  // Save user message
+  const userMessage = await prisma.message.create({
+    data: {
+      conversationId: conversation.id,
+      sender: 'USER',
+      text: input.text,
+      externalId: options.externalId,
+      guardrailFlags: input.flags,
+    },
+  });
+  await emitWebhookEvent(workspace.id, 'message.created', {
+    conversation: toWebhookConversation(conversation),
+    message: toWebhookMessage(userMessage),
+  });
+
+  conversation = await updateLocale(conversation, input.text, options.locale);
+  const locale = isLocale(conversation.locale) ? conversation.locale : null;
+
+  // Label the message and run the workspace's rules, which may hand the
+  // conversation to a person
+  const llmService = getLLMService(workspace);
+  const classified = input.blocked
+    ? { conversation, labels: null }
+    : await classifyCustomerMessage(conversation, userMessage, llmService, budgetKey);
+  const rules = await applyRules(workspace, classified.conversation, userMessage, classified.labels);
+  conversation = rules.conversation;
+
+  if (rules.escalated) {
+    const reply = handoffAcknowledgement(locale);
+    const saved = await saveAiReply(conversation.id, reply);
+    return { status: 'replied', reply, ...saved, sources: [] };
+  }
+
+  // A human owns (or is about to own) the thread: don't let the AI answer
+  if (isAiSuppressed(conversation.handoffState)) {
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { updatedAt: new Date() },
+    });
+    return { status: 'silent', handoffState: conversation.handoffState };
+  }
+
+  // A blocked message never reaches the model
+  if (input.blocked) {
+    const reply = blockedReply(input.blocked, locale);
+    const saved = await saveAiReply(conversation.id, reply);
+    return { status: 'replied', reply, ...saved, sources: [] };
+  }
+
+  // The customer asked for a person
+  if (isHandoffRequest(input.text)) {
+    const reply = handoffAcknowledgement(locale);
+    const { messageId } = await saveAiReply(conversation.id, reply);
+    const escalated = await escalateConversation(conversation.id, 'Customer asked for a person');
+    return {
+      status: 'replied',
+      reply,
+      messageId,
+      handoffState: escalated.handoffState,
+      sources: [],
+    };
+  }
+
+  // Get the messages since the summary for context, newest first so the
+  // query stays bounded however long the conversation gets
+  const recent = await prisma.message.findMany({
+    where: {
+      conversationId: conversation.id,
+      id: { not: userMessage.id },
+      timestamp: conversation.summaryUpTo ? { gt: conversation.summaryUpTo } : undefined,
+    },
+    orderBy: { timestamp: 'desc' },
+    take: MAX_HISTORY_MESSAGES,
+    select: {
+      sender: true,
+      text: true,
+    },
+  });
+  const context: ConversationContext = {
+    history: recent.reverse(),
+    summary: conversation.summary,
+    pii,
+    locale,
+  };
+
+  if (!llmService.isConfigured()) {
+    // Fallback response if LLM not configured
+    const fallbackReply = formatMessage(getWidgetMessages(locale).replyUnavailable, { supportEmail: workspace.supportEmail });
+    const saved = await saveAiReply(conversation.id, fallbackReply);
+    return { status: 'replied', reply: fallbackReply, ...saved, sources: [] };
+  }
+
+  const cached = await lookupReply(workspace, input.text, {
+    opening: context.history.length === 0 && !context.summary,
+    locale,
+  });
+  if (cached.status === 'hit') {
+    const saved = await saveAiReply(conversation.id, cached.reply.reply, cached.reply.sources, [], {
+      fromCache: true,
+    });
+    return { status: 'replied', reply: cached.reply.reply, ...saved, sources: cached.reply.sources };
+  }
+
+  return { status: 'generate', llmService, context, userMessage: input.text, cacheKey: cached.key, budgetKey };
+}
+
+// Generates the AI reply in one go, counts its tokens and saves it
+export async function generateTurnReply(
+  conversation: Conversation,
+  pending: PendingReply
+): Promise<Extract<TurnResult, { status: 'replied' | 'error' }>> {
+  const { reply, error, sources = [], toolCalls = [], guardrail, usage } = await pending.llmService.generateReply(
+    pending.context,
+    pending.userMessage
+  );
+  await getTokenBudget().record(pending.budgetKey, usage);
+
+  if (error) {
+    if (usage) {
+      await recordUnsavedReplyUsage(conversation, usage);
+    }
+    return { status: 'error', error };
+  }
+
+  const saved = await saveGeneratedReply(conversation.id, pending, { reply, sources, toolCalls, guardrail }, usage);
+  return { status: 'replied', reply, ...saved, sources };
+}
+
+// The whole turn for callers that don't stream
+export async function runTurn(
+  workspace: Workspace,
+  conversation: Conversation,
+  text: string,
+  options: CustomerMessageOptions = {}
+): Promise<TurnResult> {
+  const turn = await startTurn(workspace, conversation, text, options);
+  return turn.status === 'generate' ? generateTurnReply(conversation, turn) : turn;
+}
@@ -0,0 +1,77 @@
+import { Intent, Sentiment, Urgency } from '@prisma/client';
+import { isHandoffRequest } from '@/lib/handoff';
+import { Classification, MessageClassifier } from './types';
+
+// Keyword classifier that needs no model. Used when classification by the
+// LLM is switched off or fails. English only, and coarse: it is meant to
+// catch the obvious cases rules care about, not to be subtle.
+
+const NEGATIVE_PATTERN =
+  /\b(angry|annoyed|annoying|awful|terrible|horrible|worst|useless|ridiculous|unacceptable|disappointed|disappointing|frustrated|frustrating|furious|upset|hate|scam|rip[- ]?off|joke|pathetic|disgusting|wtf|never again|fed up|sick of|still waiting|still (haven't|hasn't|not)|no one|nobody|waste of)\b|\bnot (happy|good|ok|okay|helpful|acceptable|working)\b|\b(doesn't|does not|didn't|did not|don't|won't) work\b/gi;
+
+const POSITIVE_PATTERN =
+  /\b(thanks|thank you|thx|great|perfect|awesome|amazing|excellent|love|lovely|brilliant|helpful|appreciate|appreciated|wonderful|fantastic|happy|glad|works now|that helped|sorted)\b/gi;
+
+// Checked in order; the first match wins
+const INTENT_PATTERNS: Array<[Intent, RegExp]> = [
+  ['COMPLAINT', /\b(complain|complaint|unacceptable|terrible service|worst service|scam|rip[- ]?off|report you|lawyer|legal action)\b/i],
+  ['BILLING', /\b(charged?|charges|charging|overcharged|billing|billed|bill|invoice|receipt|payment|paid|pay|card|paypal|promo code|discount code|coupon)\b/i],
+  ['RETURN', /\b(return|returns|returning|refund|refunds|refunded|exchange|send (it )?back|swap)\b/i],
+  ['ORDER_STATUS', /\b(where('s| is) my (order|package|parcel)|order status|track|tracking|hasn't arrived|has not arrived|not arrived|didn't arrive|never arrived|not received|haven't received|still waiting)\b|\bSM-\d+\b/i],
+  ['SHIPPING', /\b(shipping|ship|ships|shipped|delivery|deliver|delivered|courier|postage|express|international)\b/i],
+  ['ACCOUNT', /\b(account|password|log ?in|sign ?in|signed in|email address|unsubscribe|newsletter|delete my data)\b/i],
+  ['PRODUCT', /\b(size|sizes|sizing|in stock|out of stock|available|availability|colou?rs?|material|fit|fits|product|item|restock)\b/i],
+];
+
+const GREETING_PATTERN = /^\s*(hi|hello|hey|hiya|good (morning|afternoon|evening)|yo|greetings)\b/i;
+
+const HIGH_URGENCY_PATTERN =
+  /\b(urgent|urgently|asap|a\.s\.a\.p|immediately|right now|right away|emergency|as soon as possible|lawyer|legal action|chargeback|fraud|stolen|unauthori[sz]ed)\b|!{3,}/i;
+
+const LOW_URGENCY_PATTERN = /\b(no rush|no hurry|whenever|just wondering|just curious|out of curiosity)\b/i;
+
+// Words of three or more letters written in capitals, i.e. shouting
+const SHOUTING_PATTERN = /\b[A-Z]{3,}\b/g;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function detectSentiment(text: string): Sentiment {
+  const shouting = countMatches(text, SHOUTING_PATTERN) >= 2 ? 1 : 0;
+  const negative = countMatches(text, NEGATIVE_PATTERN) + shouting;
+  const positive = countMatches(text, POSITIVE_PATTERN);
+  if (negative > positive) return 'NEGATIVE';
+  if (positive > negative) return 'POSITIVE';
+  return 'NEUTRAL';
+}
+
+function detectIntent(text: string): Intent {
+  if (isHandoffRequest(text)) return 'HUMAN_REQUEST';
+  for (const [intent, pattern] of INTENT_PATTERNS) {
+    if (pattern.test(text)) return intent;
+  }
+  return GREETING_PATTERN.test(text) ? 'GREETING' : 'OTHER';
+}
+
+function detectUrgency(text: string, sentiment: Sentiment): Urgency {
+  if (HIGH_URGENCY_PATTERN.test(text)) return 'HIGH';
+  if (LOW_URGENCY_PATTERN.test(text) || sentiment === 'POSITIVE') return 'LOW';
+  return 'NORMAL';
+}
+
+export function classifyHeuristically(text: string): Classification {
+  const sentiment = detectSentiment(text);
+  return {
+    sentiment,
+    intent: detectIntent(text),
+    urgency: detectUrgency(text, sentiment),
+    classifiedBy: 'heuristic',
+  };
+}
+
+export class HeuristicClassifier implements MessageClassifier {
+  async classify(text: string): Promise<Classification> {
+    return classifyHeuristically(text);
+  }
+}
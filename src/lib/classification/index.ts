@@ -0,0 +1,74 @@
+import { Conversation, Message, Urgency } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { LLMService } from '@/lib/llm-service';
+import { getTokenBudget } from '@/lib/rate-limit';
+import { checkBudgetAlerts, toUsageColumns } from '@/lib/usage';
+import { HeuristicClassifier } from './heuristic';
+import { LLMClassifier } from './llm-classifier';
+import { Classification, MessageClassifier } from './types';
+
+export * from './types';
+export { classifyHeuristically, HeuristicClassifier } from './heuristic';
+export { LLMClassifier } from './llm-classifier';
+
+const URGENCY_ORDER: Urgency[] = ['LOW', 'NORMAL', 'HIGH'];
+
+// Intents too vague to describe what the conversation is about
+const UNINFORMATIVE_INTENTS = ['GREETING', 'OTHER'];
+
+const heuristicClassifier = new HeuristicClassifier();
+
+export function compareUrgency(a: Urgency, b: Urgency): number {
+  return URGENCY_ORDER.indexOf(a) - URGENCY_ORDER.indexOf(b);
+}
+
+// MESSAGE_CLASSIFIER picks the classifier: "llm" (the default; the heuristic
+// when the workspace has no provider), "heuristic" or "off"
+export function getClassifier(llmService: LLMService): MessageClassifier | null {
+  const mode = process.env.MESSAGE_CLASSIFIER || 'llm';
+  if (mode === 'off') return null;
+  if (mode === 'heuristic' || !llmService.isConfigured()) return heuristicClassifier;
+  return new LLMClassifier(llmService, heuristicClassifier);
+}
+
+// Labels a customer message, stores the labels and the cost of the model
+// call on it and rolls the labels up onto the conversation. Returns the updated conversation and the labels, or no
+// labels when classification is off or fails; a classification problem must
+// not stop the customer from getting an answer.
+export async function classifyCustomerMessage(
+  conversation: Conversation,
+  message: Message,
+  llmService: LLMService,
+  budgetKey: string
+): Promise<{ conversation: Conversation; labels: Classification | null }> {
+  const classifier = getClassifier(llmService);
+  if (!classifier) return { conversation, labels: null };
+
+  try {
+    const labels = await classifier.classify(message.text);
+    await getTokenBudget().record(budgetKey, labels.usage);
+
+    const { sentiment, intent, urgency, classifiedBy } = labels;
+    await prisma.message.update({
+      where: { id: message.id },
+      data: { sentiment, intent, urgency, classifiedBy, ...(labels.usage && toUsageColumns(labels.usage)) },
+    });
+    if (labels.usage) {
+      await checkBudgetAlerts(conversation.workspaceId);
+    }
+    const updated = await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        sentiment,
+        intent: UNINFORMATIVE_INTENTS.includes(intent) ? undefined : intent,
+        urgency:
+          conversation.urgency && compareUrgency(conversation.urgency, urgency) >= 0 ? undefined : urgency,
+        negativeMessages: sentiment === 'NEGATIVE' ? { increment: 1 } : undefined,
+      },
+    });
+    return { conversation: updated, labels };
+  } catch (error) {
+    console.error('Message classification error:', error);
+    return { conversation, labels: null };
+  }
+}
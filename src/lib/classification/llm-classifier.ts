@@ -0,0 +1,73 @@
+import { Intent, Sentiment, Urgency } from '@prisma/client';
+import { z } from 'zod';
+import type { LLMService } from '@/lib/llm-service';
+import { Classification, MessageClassifier } from './types';
+
+const CLASSIFY_MAX_TOKENS = 60;
+
+// Longer messages are cut; the opening says enough to label them
+const MAX_MESSAGE_CHARS = 2000;
+
+const CLASSIFY_PROMPT = `You label messages customers send to the support chat of an online store. Reply with a single JSON object and nothing else:
+{"sentiment": "POSITIVE" | "NEUTRAL" | "NEGATIVE", "intent": "<intent>", "urgency": "LOW" | "NORMAL" | "HIGH"}
+
+Intents:
+- ORDER_STATUS: where an order is, tracking, late or missing parcels
+- RETURN: returns, refunds, exchanges
+- BILLING: charges, payments, invoices, discount codes
+- SHIPPING: shipping options, costs, destinations and delivery times in general
+- PRODUCT: sizes, stock, materials and other product questions
+- ACCOUNT: signing in, account details, newsletters, personal data
+- COMPLAINT: complaints about the store or its service
+- HUMAN_REQUEST: asking for a person instead of the assistant
+- GREETING: greetings and small talk with no request
+- OTHER: anything else
+
+Urgency is HIGH when the customer needs help straight away or mentions fraud, chargebacks or legal action, LOW for casual questions.`;
+
+const labelsSchema = z.object({
+  sentiment: z.enum(Sentiment),
+  intent: z.enum(Intent),
+  urgency: z.enum(Urgency),
+});
+
+// Labels the message with the workspace's model. Anything the model gets
+// wrong (an error, prose instead of JSON, an unknown label) falls back to the
+// heuristic classifier, carrying over the tokens already spent.
+export class LLMClassifier implements MessageClassifier {
+  constructor(
+    private llmService: LLMService,
+    private fallback: MessageClassifier
+  ) {}
+
+  async classify(text: string): Promise<Classification> {
+    let result: Awaited<ReturnType<LLMService['completeTask']>>;
+    try {
+      result = await this.llmService.completeTask(CLASSIFY_PROMPT, text.slice(0, MAX_MESSAGE_CHARS), {
+        maxTokens: CLASSIFY_MAX_TOKENS,
+        temperature: 0,
+      });
+    } catch (error) {
+      console.error('Message classification error:', error);
+      return this.fallback.classify(text);
+    }
+
+    const labels = labelsSchema.safeParse(parseJsonObject(result.text));
+    if (!labels.success) {
+      return { ...(await this.fallback.classify(text)), usage: result.usage };
+    }
+    return { ...labels.data, classifiedBy: 'llm', usage: result.usage };
+  }
+}
+
+// The first {...} in the reply, so a model that wraps the JSON in a code
+// fence or a sentence still counts
+function parseJsonObject(text: string): unknown {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,21 @@
+import { Intent, Sentiment, Urgency } from '@prisma/client';
+import type { ReplyUsage } from '@/lib/llm-service';
+
+// What a customer message says about the customer's mood and needs
+export interface MessageLabels {
+  sentiment: Sentiment;
+  intent: Intent;
+  urgency: Urgency;
+}
+
+export type ClassifierName = 'llm' | 'heuristic';
+
+export interface Classification extends MessageLabels {
+  classifiedBy: ClassifierName;
+  // The model call behind the labels; omitted for the heuristic
+  usage?: ReplyUsage;
+}
+
+export interface MessageClassifier {
+  classify(text: string): Promise<Classification>;
+}
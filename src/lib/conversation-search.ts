@@ -0,0 +1,153 @@
+import { Channel, HandoffState, Intent, Prisma, Sentiment, Urgency } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export interface ConversationFilters {
+  workspaceId?: string;
+  channel?: Channel;
+  from?: Date;
+  to?: Date;
+  minMessages?: number;
+  maxMessages?: number;
+  handoffState?: HandoffState;
+  // Conversations that were ever escalated to a human
+  escalated?: boolean;
+  // Conversations whose last message is from the customer
+  unanswered?: boolean;
+  // Rolled-up labels of the customer's messages (see lib/classification)
+  sentiment?: Sentiment;
+  intent?: Intent;
+  urgency?: Urgency;
+  // Conversations a rule tagged with this
+  tag?: string;
+  // Detected language (see lib/i18n)
+  locale?: string;
+  // Full-text search across message text
+  query?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface ConversationSummary {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  sessionId: string;
+  channel: Channel;
+  externalUserId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  handoffState: HandoffState;
+  escalatedAt: Date | null;
+  escalationReason: string | null;
+  assignedAgent: string | null;
+  sentiment: Sentiment | null;
+  intent: Intent | null;
+  urgency: Urgency | null;
+  tags: string[];
+  locale: string | null;
+  messageCount: number;
+  firstMessage: string | null;
+  lastMessage: string | null;
+  lastSender: string | null;
+  // Highlighted excerpt of the best matching message when searching
+  snippet: string | null;
+}
+
+// Message-count and last-sender filters depend on aggregates, which Prisma's
+// query builder can't filter on, so the listing is one raw query. Search uses
+// Postgres full-text matching backed by the Message_text_fts_idx GIN index.
+export async function searchConversations(
+  filters: ConversationFilters
+): Promise<{ conversations: ConversationSummary[]; total: number }> {
+  const tsQuery = filters.query ? Prisma.sql`plainto_tsquery('english', ${filters.query})` : null;
+
+  const conversationWhere: Prisma.Sql[] = [Prisma.sql`TRUE`];
+  if (filters.workspaceId) conversationWhere.push(Prisma.sql`c."workspaceId" = ${filters.workspaceId}`);
+  if (filters.channel) conversationWhere.push(Prisma.sql`c.channel = ${filters.channel}::"Channel"`);
+  if (filters.from) conversationWhere.push(Prisma.sql`c."createdAt" >= ${filters.from}`);
+  if (filters.to) conversationWhere.push(Prisma.sql`c."createdAt" <= ${filters.to}`);
+  if (filters.handoffState) {
+    conversationWhere.push(Prisma.sql`c."handoffState" = ${filters.handoffState}::"HandoffState"`);
+  }
+  if (filters.escalated !== undefined) {
+    conversationWhere.push(
+      filters.escalated ? Prisma.sql`c."escalatedAt" IS NOT NULL` : Prisma.sql`c."escalatedAt" IS NULL`
+    );
+  }
+  if (filters.sentiment) conversationWhere.push(Prisma.sql`c.sentiment = ${filters.sentiment}::"Sentiment"`);
+  if (filters.intent) conversationWhere.push(Prisma.sql`c.intent = ${filters.intent}::"Intent"`);
+  if (filters.urgency) conversationWhere.push(Prisma.sql`c.urgency = ${filters.urgency}::"Urgency"`);
+  if (filters.tag) conversationWhere.push(Prisma.sql`${filters.tag} = ANY(c.tags)`);
+  if (filters.locale) conversationWhere.push(Prisma.sql`c.locale = ${filters.locale}`);
+  if (tsQuery) {
+    conversationWhere.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "Message" s
+      WHERE s."conversationId" = c.id AND to_tsvector('english', s.text) @@ ${tsQuery}
+    )`);
+  }
+
+  const statsWhere: Prisma.Sql[] = [Prisma.sql`TRUE`];
+  if (filters.minMessages !== undefined) statsWhere.push(Prisma.sql`"messageCount" >= ${filters.minMessages}`);
+  if (filters.maxMessages !== undefined) statsWhere.push(Prisma.sql`"messageCount" <= ${filters.maxMessages}`);
+  if (filters.unanswered !== undefined) {
+    statsWhere.push(filters.unanswered ? Prisma.sql`"lastSender" = 'USER'` : Prisma.sql`"lastSender" <> 'USER'`);
+  }
+
+  // Longest-waiting escalations first when looking at the handoff queue
+  const orderBy =
+    filters.handoffState === 'WAITING_FOR_HUMAN'
+      ? Prisma.sql`"escalatedAt" ASC NULLS LAST`
+      : Prisma.sql`"updatedAt" DESC`;
+
+  const snippet = tsQuery
+    ? Prisma.sql`(
+        SELECT ts_headline('english', s.text, ${tsQuery}, 'MaxWords=20, MinWords=5')
+        FROM "Message" s
+        WHERE s."conversationId" = c.id AND to_tsvector('english', s.text) @@ ${tsQuery}
+        ORDER BY ts_rank(to_tsvector('english', s.text), ${tsQuery}) DESC
+        LIMIT 1
+      )`
+    : Prisma.sql`NULL`;
+
+  const rows = await prisma.$queryRaw<Array<ConversationSummary & { total: number }>>`
+    WITH stats AS (
+      SELECT
+        c.id,
+        c."workspaceId",
+        w.name AS "workspaceName",
+        c."sessionId",
+        c.channel,
+        c."externalUserId",
+        c."createdAt",
+        c."updatedAt",
+        c."handoffState",
+        c."escalatedAt",
+        c."escalationReason",
+        c."assignedAgent",
+        c.sentiment,
+        c.intent,
+        c.urgency,
+        c.tags,
+        c.locale,
+        (SELECT COUNT(*)::int FROM "Message" m WHERE m."conversationId" = c.id) AS "messageCount",
+        (SELECT m.text FROM "Message" m WHERE m."conversationId" = c.id ORDER BY m.timestamp ASC LIMIT 1) AS "firstMessage",
+        (SELECT m.text FROM "Message" m WHERE m."conversationId" = c.id ORDER BY m.timestamp DESC LIMIT 1) AS "lastMessage",
+        (SELECT m.sender::text FROM "Message" m WHERE m."conversationId" = c.id ORDER BY m.timestamp DESC LIMIT 1) AS "lastSender",
+        ${snippet} AS snippet
+      FROM "Conversation" c
+      JOIN "Workspace" w ON w.id = c."workspaceId"
+      WHERE ${Prisma.join(conversationWhere, ' AND ')}
+    )
+    SELECT *, COUNT(*) OVER()::int AS total
+    FROM stats
+    WHERE ${Prisma.join(statsWhere, ' AND ')}
+    ORDER BY ${orderBy}
+    LIMIT ${filters.pageSize}
+    OFFSET ${(filters.page - 1) * filters.pageSize}
+  `;
+
+  return {
+    conversations: rows.map(({ total: _total, ...conversation }) => conversation),
+    total: rows[0]?.total ?? 0,
+  };
+}
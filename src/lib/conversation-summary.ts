@@ -0,0 +1,79 @@
+import { prisma } from '@/lib/prisma';
+import { LLMService } from '@/lib/llm-service';
+import { getTokenBudget, tokenBudgetKey } from '@/lib/rate-limit';
+import { checkBudgetAlerts, toUsageColumns } from '@/lib/usage';
+
+// Long conversations keep only their recent messages in the model's context;
+// everything older is folded into Conversation.summary. The summary is
+// refreshed after a reply is saved, off the request path.
+
+// Unsummarized messages that trigger a refresh
+const SUMMARY_TRIGGER_MESSAGES = 20;
+
+// Newest messages left out of the summary, so the model still sees them word
+// for word
+const SUMMARY_KEEP_RECENT = 10;
+
+// Most messages folded in one refresh; a longer backlog catches up over the
+// next turns
+const SUMMARY_MAX_BATCH = 50;
+
+// Conversations with a refresh running in this process
+const refreshing = new Set<string>();
+
+async function refreshSummary(conversationId: string, llmService: LLMService): Promise<void> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: {
+      workspaceId: true,
+      sessionId: true,
+      channel: true,
+      userId: true,
+      visitorId: true,
+      externalUserId: true,
+      summary: true,
+      summaryUpTo: true,
+    },
+  });
+  if (!conversation) return;
+
+  const unsummarized = { conversationId, timestamp: conversation.summaryUpTo ? { gt: conversation.summaryUpTo } : undefined };
+  const count = await prisma.message.count({ where: unsummarized });
+  if (count < SUMMARY_TRIGGER_MESSAGES) return;
+
+  const messages = await prisma.message.findMany({
+    where: unsummarized,
+    orderBy: { timestamp: 'asc' },
+    take: Math.min(count - SUMMARY_KEEP_RECENT, SUMMARY_MAX_BATCH),
+    select: { sender: true, text: true, timestamp: true },
+  });
+
+  const { summary, usage } = await llmService.summarize(conversation.summary, messages);
+  await getTokenBudget().record(tokenBudgetKey(conversation), usage);
+  if (usage) {
+    await prisma.summaryUsage.create({ data: { conversationId, ...toUsageColumns(usage) } });
+    await checkBudgetAlerts(conversation.workspaceId);
+  }
+  if (!summary) return;
+
+  // Only applies if no other instance moved the summary on in the meantime
+  await prisma.conversation.updateMany({
+    where: { id: conversationId, summaryUpTo: conversation.summaryUpTo },
+    data: {
+      summary,
+      summaryUpTo: messages[messages.length - 1].timestamp,
+      summaryUpdatedAt: new Date(),
+    },
+  });
+}
+
+// Starts a refresh in the background when the conversation has outgrown its
+// summary. Failures are logged and retried after a later reply.
+export function scheduleSummaryRefresh(conversationId: string, llmService: LLMService): void {
+  if (refreshing.has(conversationId) || !llmService.isConfigured()) return;
+
+  refreshing.add(conversationId);
+  refreshSummary(conversationId, llmService)
+    .catch((error) => console.error('Conversation summary error:', error))
+    .finally(() => refreshing.delete(conversationId));
+}
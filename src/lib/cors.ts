@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Workspace } from '@prisma/client';
+import { WIDGET_KEY_HEADER } from '@/lib/widget-key';
+
+// Cross-origin access to the chat API for widgets embedded on merchant sites.
+// The middleware adds CORS headers for any origin; each chat route then
+// rejects origins that aren't on its workspace's allow-list, since only the
+// route knows which workspace a request belongs to. Kept free of server-only
+// imports because the middleware runs on the edge runtime.
+
+const PREFLIGHT_MAX_AGE_SECONDS = 10 * 60;
+
+function isSameOrigin(request: NextRequest, origin: string): boolean {
+  return origin === request.nextUrl.origin || origin === process.env.APP_URL;
+}
+
+// Requests without an Origin header (same-origin GETs, server-to-server
+// calls) are always allowed: the allow-list only constrains browsers.
+export function isOriginAllowed(request: NextRequest, workspace: Pick<Workspace, 'allowedOrigins'>): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin || isSameOrigin(request, origin)) return true;
+  return workspace.allowedOrigins.includes(origin.toLowerCase());
+}
+
+export function originNotAllowedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'This site is not allowed to use the chat widget.' },
+    { status: 403 }
+  );
+}
+
+// Middleware step for /api/chat/*: answers preflights and marks responses as
+// readable by the calling origin. Cookies are included so the visitor and
+// customer sessions carry over to cross-origin calls.
+export function applyCors(request: NextRequest): NextResponse {
+  const origin = request.headers.get('origin');
+  if (!origin || isSameOrigin(request, origin)) {
+    return NextResponse.next();
+  }
+
+  const response = request.method === 'OPTIONS' ? new NextResponse(null, { status: 204 }) : NextResponse.next();
+  response.headers.set('Access-Control-Allow-Origin', origin);
+  response.headers.set('Access-Control-Allow-Credentials', 'true');
+  response.headers.append('Vary', 'Origin');
+
+  if (request.method === 'OPTIONS') {
+    response.headers.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    response.headers.set('Access-Control-Allow-Headers', `content-type, ${WIDGET_KEY_HEADER}`);
+    response.headers.set('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE_SECONDS));
+  }
+  return response;
+}
+
+// Middleware step for the /embed page: only the workspace's allowed origins
+// may frame it. The allow-list comes from the public chat config, as the
+// database isn't reachable from the edge runtime. Fails closed to same-origin
+// framing when the config can't be loaded.
+export async function applyFrameAncestors(request: NextRequest): Promise<NextResponse> {
+  let allowedOrigins: string[] = [];
+
+  const widgetKey = request.nextUrl.searchParams.get('key');
+  if (widgetKey) {
+    try {
+      const config = await fetch(new URL('/api/chat/config', request.url), {
+        headers: { [WIDGET_KEY_HEADER]: widgetKey },
+      });
+      if (config.ok) {
+        allowedOrigins = (await config.json()).workspace.allowedOrigins;
+      }
+    } catch (error) {
+      console.error('Failed to load embed allow-list:', error);
+    }
+  }
+
+  const response = NextResponse.next();
+  response.headers.set('Content-Security-Policy', `frame-ancestors ${["'self'", ...allowedOrigins].join(' ')}`);
+  return response;
+}
@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getMailer } from '@/lib/mailer';
+import { constantTimeEqual, getSessionSecret, sign } from '@/lib/signing';
+import { getVisitor, Visitor } from '@/lib/visitor';
+
+// Customer accounts: passwordless sign-in with an emailed magic link, and a
+// signed session cookie that identifies the user on any device.
+
+export const CUSTOMER_SESSION_COOKIE = 'spur_customer';
+const CUSTOMER_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Who is calling a chat route: always an anonymous visitor, plus the
+// signed-in user when there is one.
+export interface ChatOwner {
+  visitor: Visitor;
+  userId: string | null;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Emails a one-time sign-in link. Nothing is revealed about whether an
+// account already exists: the user is created when the link is used.
+export async function sendLoginLink(email: string, baseUrl: string, storeName: string): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.loginToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      email: normalizeEmail(email),
+      expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MS),
+    },
+  });
+
+  const link = `${baseUrl}/api/auth/verify?token=${encodeURIComponent(token)}`;
+  await getMailer().send({
+    to: email,
+    subject: `Your ${storeName} sign-in link`,
+    text: `Click the link below to sign in to ${storeName} support. It expires in 15 minutes and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+  });
+}
+
+// Consumes a sign-in token and returns the user it belongs to, creating the
+// account on first sign-in. Returns null for unknown, used or expired tokens.
+export async function redeemLoginToken(token: string): Promise<User | null> {
+  const loginToken = await prisma.loginToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+  if (!loginToken || loginToken.usedAt || loginToken.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Mark used with a conditional update so a link can't be redeemed twice
+  const { count } = await prisma.loginToken.updateMany({
+    where: { id: loginToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  return prisma.user.upsert({
+    where: { email: loginToken.email },
+    create: { email: loginToken.email, lastLoginAt: new Date() },
+    update: { lastLoginAt: new Date() },
+  });
+}
+
+// Moves the visitor's anonymous conversations into the user's account
+export async function linkVisitorConversations(visitorId: string, userId: string): Promise<void> {
+  await prisma.conversation.updateMany({
+    where: { visitorId, userId: null },
+    data: { userId },
+  });
+}
+
+// Token format: `<userId>.<expiresAt>.<hmac>`
+async function createCustomerSessionToken(userId: string, secret: string): Promise<string> {
+  const expiresAt = Math.floor(Date.now() / 1000) + CUSTOMER_SESSION_TTL_SECONDS;
+  return `${userId}.${expiresAt}.${await sign(`customer:${userId}:${expiresAt}`, secret)}`;
+}
+
+async function verifyCustomerSessionToken(token: string | undefined, secret: string): Promise<string | null> {
+  if (!token) return null;
+
+  const [userId, expiresAt, signature] = token.split('.');
+  if (!userId || !expiresAt || !signature || Number(expiresAt) < Date.now() / 1000) {
+    return null;
+  }
+
+  return constantTimeEqual(signature, await sign(`customer:${userId}:${expiresAt}`, secret)) ? userId : null;
+}
+
+export async function getCustomerId(request: NextRequest): Promise<string | null> {
+  return verifyCustomerSessionToken(request.cookies.get(CUSTOMER_SESSION_COOKIE)?.value, getSessionSecret());
+}
+
+export async function setCustomerSessionCookie(response: NextResponse, userId: string): Promise<void> {
+  response.cookies.set(CUSTOMER_SESSION_COOKIE, await createCustomerSessionToken(userId, getSessionSecret()), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CUSTOMER_SESSION_TTL_SECONDS,
+  });
+}
+
+export async function getChatOwner(request: NextRequest): Promise<ChatOwner> {
+  const [visitor, userId] = await Promise.all([getVisitor(request), getCustomerId(request)]);
+  return { visitor, userId };
+}
+
+// Signed-in users see everything in their account; anonymous visitors only
+// see conversations that haven't been moved into an account.
+export function ownedBy(owner: ChatOwner): Prisma.ConversationWhereInput {
+  return owner.userId ? { userId: owner.userId } : { visitorId: owner.visitor.id, userId: null };
+}
+
+export function isOwnedBy(
+  conversation: { visitorId: string | null; userId: string | null },
+  owner: ChatOwner
+): boolean {
+  return owner.userId
+    ? conversation.userId === owner.userId
+    : conversation.visitorId === owner.visitor.id && conversation.userId === null;
+}
@@ -0,0 +1,92 @@
+import { EvalDataset } from './types';
+
+// Mirrors the policies seeded by the knowledge_base migration, so the suite
+// runs without a database. The first five cases are the README's sample
+// questions.
+export const DEFAULT_EVAL_DATASET: EvalDataset = {
+  name: 'spurmart-policies',
+  knowledge: [
+    {
+      title: 'Shipping Policy',
+      body: '- We offer free shipping on orders over $50\n- Standard shipping takes 3-5 business days within the US\n- Express shipping (1-2 business days) is available for $12.99\n- We ship to all 50 US states and Puerto Rico\n- International shipping is not currently available',
+    },
+    {
+      title: 'Return & Refund Policy',
+      body: '- Returns are accepted within 30 days of purchase\n- Items must be unworn, unwashed, and in original packaging\n- Return shipping is free for defective items\n- For other returns, customer pays return shipping ($5.99 flat rate)\n- Refunds are processed within 5-7 business days of receiving the return\n- Gift cards and final sale items cannot be returned',
+    },
+    {
+      title: 'Support Hours',
+      body: '- Our support team is available Monday-Friday, 9 AM - 6 PM EST\n- Weekend support is limited to email only\n- Response time: typically within 2 hours during business hours',
+    },
+    {
+      title: 'Payment Methods',
+      body: '- We accept all major credit cards (Visa, Mastercard, Amex, Discover)\n- PayPal, Apple Pay, and Google Pay are also accepted\n- All payments are securely processed',
+    },
+  ],
+  cases: [
+    {
+      id: 'return-policy',
+      question: "What's your return policy?",
+      expectedFacts: [['30 days', '30-day', 'thirty days'], ['original packaging']],
+      forbiddenClaims: ['14 days', '60 days', '90 days'],
+    },
+    {
+      id: 'ship-to-usa',
+      question: 'Do you ship to the USA?',
+      expectedFacts: [['50 states', 'all 50', 'US', 'United States']],
+      forbiddenClaims: ['we ship worldwide', 'we ship internationally'],
+    },
+    {
+      id: 'shipping-time',
+      question: 'How long does shipping take?',
+      expectedFacts: [['3-5 business days', '3 to 5 business days']],
+      forbiddenClaims: ['next day delivery', '7-10 business days'],
+    },
+    {
+      id: 'payment-methods',
+      question: 'What payment methods do you accept?',
+      expectedFacts: [['credit card', 'Visa'], 'PayPal', 'Apple Pay', 'Google Pay'],
+      forbiddenClaims: ['cryptocurrency', 'bitcoin', 'cash on delivery'],
+    },
+    {
+      id: 'support-hours',
+      question: 'When is your support team available?',
+      expectedFacts: [['Monday-Friday', 'Monday to Friday', 'Monday through Friday'], ['9 AM', '9am', '9:00'], ['6 PM', '6pm', '6:00']],
+      forbiddenClaims: ['24/7', '24 hours a day'],
+    },
+    {
+      id: 'express-shipping-follow-up',
+      history: [
+        { sender: 'USER', text: 'How long does shipping take?' },
+        { sender: 'AI', text: 'Standard shipping takes 3-5 business days within the US.' },
+      ],
+      question: 'And express?',
+      expectedFacts: [['1-2 business days', '1 to 2 business days'], '$12.99'],
+    },
+    {
+      id: 'international-shipping',
+      question: 'Can you ship my order to Canada?',
+      expectedFacts: [['not currently available', 'not available', 'only ship within', "don't ship", 'do not ship', 'cannot ship', "can't ship"]],
+      forbiddenClaims: ['yes, we ship to canada', 'we ship to canada'],
+    },
+    {
+      id: 'gift-card-return',
+      question: 'Can I return a gift card?',
+      expectedFacts: [['cannot be returned', "can't be returned", 'not returnable', 'non-returnable', 'cannot return']],
+      forbiddenClaims: ['gift cards can be returned'],
+    },
+    {
+      id: 'unknown-gift-wrapping',
+      question: 'Do you offer gift wrapping?',
+      expectedFacts: ['support@spurmart.com'],
+      forbiddenClaims: ['we offer gift wrapping', 'gift wrapping is available'],
+    },
+    {
+      id: 'return-policy-spanish',
+      question: '¿Cuál es su política de devoluciones?',
+      locale: 'es',
+      expectedFacts: [['30 días', '30 dias', 'treinta días']],
+      forbiddenClaims: ['60 días', '90 días'],
+    },
+  ],
+};
@@ -0,0 +1,87 @@
+import type { LLMService } from '@/lib/llm-service';
+import { EvalCase, ExpectedFact, GradeResult } from './types';
+
+const JUDGE_PROMPT = `You grade a customer support assistant's reply. You get the customer's question, the facts a correct reply must contain, claims it must not make, and the reply. Judge whether the reply is correct, complete and helpful for the customer; wording and extra polite text don't matter, and a fact stated in another language or with different words counts. Answer with JSON only: {"score": <1 to 5>, "reason": "<one sentence>"}. 5 means correct and complete, 3 means partly correct or missing something important, 1 means wrong or misleading.`;
+
+// Judge scores (1 to 5) at or above this pass
+const JUDGE_PASS_SCORE = 4;
+
+// Lowercase, no accents, one kind of dash, single spaces
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\s+/g, ' ');
+}
+
+// Whole-word match, so "US" doesn't match inside "thus"
+function mentions(reply: string, phrase: string): boolean {
+  const needle = normalize(phrase).trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${needle}($|[^a-z0-9])`).test(normalize(reply));
+}
+
+function describeFact(fact: ExpectedFact): string {
+  return Array.isArray(fact) ? fact.join(' / ') : fact;
+}
+
+export function gradeFacts(testCase: EvalCase, reply: string): GradeResult {
+  const missing = testCase.expectedFacts.filter(
+    (fact) => !(Array.isArray(fact) ? fact : [fact]).some((wording) => mentions(reply, wording))
+  );
+  const total = testCase.expectedFacts.length;
+
+  return {
+    grader: 'facts',
+    passed: missing.length === 0,
+    score: total > 0 ? (total - missing.length) / total : 1,
+    details: missing.length === 0 ? `All ${total} facts found` : `Missing: ${missing.map(describeFact).join('; ')}`,
+  };
+}
+
+export function gradeForbidden(testCase: EvalCase, reply: string): GradeResult {
+  const made = (testCase.forbiddenClaims ?? []).filter((claim) => mentions(reply, claim));
+
+  return {
+    grader: 'forbidden',
+    passed: made.length === 0,
+    score: made.length === 0 ? 1 : 0,
+    details: made.length === 0 ? 'No forbidden claims' : `Claimed: ${made.join('; ')}`,
+  };
+}
+
+// Asks a model to score the reply. A judge that fails or answers in the wrong
+// shape fails the grade rather than the run.
+export async function gradeWithJudge(judge: LLMService, testCase: EvalCase, reply: string): Promise<GradeResult> {
+  const content = [
+    `Question: ${testCase.question}`,
+    `Required facts:\n${testCase.expectedFacts.map((fact) => `- ${describeFact(fact)}`).join('\n') || '(none)'}`,
+    `Forbidden claims:\n${(testCase.forbiddenClaims ?? []).map((claim) => `- ${claim}`).join('\n') || '(none)'}`,
+    `Reply:\n${reply}`,
+  ].join('\n\n');
+
+  try {
+    const { text } = await judge.completeTask(JUDGE_PROMPT, content, { maxTokens: 200, temperature: 0 });
+    const verdict = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? '') as { score?: unknown; reason?: unknown };
+    const score = Number(verdict.score);
+    if (!Number.isFinite(score) || score < 1 || score > 5) {
+      throw new Error(`Unexpected judge answer: ${text.slice(0, 200)}`);
+    }
+
+    return {
+      grader: 'judge',
+      passed: score >= JUDGE_PASS_SCORE,
+      score: (score - 1) / 4,
+      details: `${score}/5${typeof verdict.reason === 'string' ? `: ${verdict.reason}` : ''}`,
+    };
+  } catch (error) {
+    return {
+      grader: 'judge',
+      passed: false,
+      score: 0,
+      details: `Judge failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { CaseResult, EvalReport, EvalRun } from './types';
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; color: #111827; max-width: 72rem; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.25rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1rem; margin-top: 2rem; }
+.muted { color: #6b7280; font-size: 0.875rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+.pass { color: #15803d; font-weight: 600; }
+.fail { color: #b91c1c; font-weight: 600; }
+.reply { white-space: pre-wrap; word-break: break-word; margin: 0 0 0.25rem; }
+.grades { color: #6b7280; font-size: 0.75rem; margin: 0; }
+`.trim();
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function percent(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function signed(value: number | null): string {
+  if (value === null) return '–';
+  const points = Math.round(value * 1000) / 10;
+  return `${points > 0 ? '+' : ''}${points} pts`;
+}
+
+function configLabel(run: EvalRun): string {
+  const { config } = run;
+  const parts = [run.model || config.provider || 'default model'];
+  if (config.temperature !== undefined) parts.push(`temperature ${config.temperature}`);
+  if (config.maxTokens !== undefined) parts.push(`max ${config.maxTokens} tokens`);
+  if (config.persona) parts.push('custom persona');
+  if (config.workspaceId) parts.push(`workspace ${config.workspaceId}`);
+  return `${config.name} (${parts.join(', ')})`;
+}
+
+function summaryRows(runs: EvalRun[]): string {
+  const rows: Array<[string, (run: EvalRun) => string]> = [
+    ['Passed', (run) => `${run.summary.passed} / ${run.summary.cases}`],
+    ['Pass rate', (run) => percent(run.summary.passRate)],
+    ['Fact recall', (run) => percent(run.summary.factRecall)],
+    ['Forbidden claims', (run) => String(run.summary.forbiddenClaims)],
+    ['Judge score', (run) => percent(run.summary.judgeScore)],
+    ['Errors', (run) => String(run.summary.errors)],
+    ['Tokens (in / out)', (run) => `${run.summary.inputTokens} / ${run.summary.outputTokens}`],
+    ['Average latency', (run) => `${run.summary.averageLatencyMs} ms`],
+  ];
+  return rows
+    .map(([label, value]) => `<tr><th>${label}</th>${runs.map((run) => `<td>${escapeHtml(value(run))}</td>`).join('')}</tr>`)
+    .join('\n');
+}
+
+function resultCell(result: CaseResult | undefined): string {
+  if (!result) return '<td class="muted">not run</td>';
+  const verdict = result.passed ? '<span class="pass">PASS</span>' : '<span class="fail">FAIL</span>';
+  const grades = result.grades.map((grade) => `${grade.grader}: ${grade.details}`);
+  if (result.error) grades.unshift(`error: ${result.error}`);
+  if (result.sources.length > 0) grades.push(`sources: ${result.sources.join(', ')}`);
+  if (result.tools.length > 0) grades.push(`tools: ${result.tools.join(', ')}`);
+
+  return `<td>${verdict}<p class="reply">${escapeHtml(result.reply)}</p><p class="grades">${grades.map(escapeHtml).join('<br>')}</p></td>`;
+}
+
+// A standalone page with the summary side by side and every reply with its grades
+export function renderEvalReportHtml(report: EvalReport): string {
+  const runs = report.candidate ? [report.baseline, report.candidate] : [report.baseline];
+  const candidateResults = new Map(report.candidate?.results.map((result) => [result.caseId, result]));
+  const { comparison } = report;
+
+  const comparisonSection = comparison
+    ? `<h2>Candidate vs baseline</h2>
+<p>Pass rate ${signed(comparison.passRateDelta)}, fact recall ${signed(comparison.factRecallDelta)}, judge score ${signed(comparison.judgeScoreDelta)}.</p>
+<p>Fixed: ${escapeHtml(comparison.fixed.join(', ') || 'none')}. Regressed: <span class="${comparison.regressed.length > 0 ? 'fail' : ''}">${escapeHtml(comparison.regressed.join(', ') || 'none')}</span>.</p>`
+    : '';
+
+  const caseRows = report.baseline.results
+    .map(
+      (result) =>
+        `<tr><td><strong>${escapeHtml(result.caseId)}</strong><br>${escapeHtml(result.question)}</td>${resultCell(result)}${
+          report.candidate ? resultCell(candidateResults.get(result.caseId)) : ''
+        }</tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Eval report: ${escapeHtml(report.dataset)}</title>
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+<h1>Eval report: ${escapeHtml(report.dataset)}</h1>
+<p class="muted">${escapeHtml(report.createdAt)}${report.judge ? ` · judged by ${escapeHtml(report.judge.model || report.judge.provider || 'default model')}` : ''}</p>
+<h2>Summary</h2>
+<table>
+<tr><th></th>${runs.map((run) => `<th>${escapeHtml(configLabel(run))}</th>`).join('')}</tr>
+${summaryRows(runs)}
+</table>
+${comparisonSection}
+<h2>Cases</h2>
+<table>
+<tr><th>Case</th>${runs.map((run) => `<th>${escapeHtml(run.config.name)}</th>`).join('')}</tr>
+${caseRows}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,33 @@
+import { compareRuns } from './report';
+import { runEvalConfig } from './runner';
+import { EvalConfig, EvalDataset, EvalReport, JudgeConfig } from './types';
+
+// Offline evaluation of answer quality: a dataset of questions with expected
+// facts and forbidden claims, answered by one or two assistant configurations
+// and graded by phrase matching and, optionally, an LLM judge.
+
+export * from './types';
+export { DEFAULT_EVAL_DATASET } from './dataset';
+export { EvalConfigError } from './runner';
+export { renderEvalReportHtml } from './html';
+export { evalConfigSchema, evalDatasetSchema, judgeConfigSchema, MAX_EVAL_CASES } from './schema';
+
+// Runs the baseline, then the candidate if given, and compares them
+export async function runEvalSuite(
+  dataset: EvalDataset,
+  baseline: EvalConfig,
+  candidate: EvalConfig | null,
+  judge: JudgeConfig | null
+): Promise<EvalReport> {
+  const baselineRun = await runEvalConfig(dataset, baseline, judge);
+  const candidateRun = candidate ? await runEvalConfig(dataset, candidate, judge) : null;
+
+  return {
+    createdAt: new Date().toISOString(),
+    dataset: dataset.name,
+    judge,
+    baseline: baselineRun,
+    candidate: candidateRun,
+    comparison: candidateRun ? compareRuns(baselineRun, candidateRun) : null,
+  };
+}
@@ -0,0 +1,24 @@
+import { EvalComparison, EvalRun } from './types';
+
+function delta(candidate: number, baseline: number): number {
+  return Math.round((candidate - baseline) * 1000) / 1000;
+}
+
+export function compareRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+  const baselinePassed = new Map(baseline.results.map((result) => [result.caseId, result.passed]));
+
+  return {
+    passRateDelta: delta(candidate.summary.passRate, baseline.summary.passRate),
+    factRecallDelta: delta(candidate.summary.factRecall, baseline.summary.factRecall),
+    judgeScoreDelta:
+      candidate.summary.judgeScore !== null && baseline.summary.judgeScore !== null
+        ? delta(candidate.summary.judgeScore, baseline.summary.judgeScore)
+        : null,
+    fixed: candidate.results
+      .filter((result) => result.passed && baselinePassed.get(result.caseId) === false)
+      .map((result) => result.caseId),
+    regressed: candidate.results
+      .filter((result) => !result.passed && baselinePassed.get(result.caseId) === true)
+      .map((result) => result.caseId),
+  };
+}
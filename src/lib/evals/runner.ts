@@ -0,0 +1,121 @@
+import { createProviderFromEnv } from '@/lib/llm';
+import { DEFAULT_ASSISTANT_SETTINGS, LLMService } from '@/lib/llm-service';
+import { KnowledgeSource, searchKnowledge } from '@/lib/knowledge-base';
+import { BM25Index, chunkText, termFrequencies } from '@/lib/retrieval';
+import { gradeFacts, gradeForbidden, gradeWithJudge } from './graders';
+import { CaseResult, EvalConfig, EvalDataset, EvalRun, EvalSummary, JudgeConfig } from './types';
+
+// Passages added to the prompt, as in production
+const TOP_K = 4;
+
+// A configuration names a provider that has no API key on this server
+export class EvalConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvalConfigError';
+  }
+}
+
+// In-memory search over the dataset's articles, ranked the same way as a
+// workspace knowledge base
+function datasetRetriever(dataset: EvalDataset): (query: string) => Promise<KnowledgeSource[]> {
+  const chunks = dataset.knowledge.flatMap((article, articleIndex) =>
+    chunkText(article.body).map((text, position) => ({
+      id: `eval-${articleIndex}-${position}`,
+      articleId: `eval-${articleIndex}`,
+      title: article.title,
+      text,
+      ...termFrequencies(`${article.title}\n${text}`),
+    }))
+  );
+  const index = new BM25Index(chunks);
+
+  return async (query) =>
+    index.search(query, TOP_K).map(({ document, score }) => ({
+      articleId: document.articleId,
+      chunkId: document.id,
+      title: document.title,
+      text: document.text,
+      score: Math.round(score * 1000) / 1000,
+    }));
+}
+
+function createProvider(config: EvalConfig | JudgeConfig) {
+  const provider = createProviderFromEnv(process.env, { provider: config.provider, model: config.model });
+  if (!provider) {
+    throw new EvalConfigError(`Provider "${config.provider ?? process.env.LLM_PROVIDER ?? 'default'}" is not configured`);
+  }
+  return provider;
+}
+
+function summarize(results: CaseResult[], judged: boolean): EvalSummary {
+  const count = results.length || 1;
+  const factGrades = results.map((result) => result.grades.find((grade) => grade.grader === 'facts')?.score ?? 0);
+  const judgeGrades = results.map((result) => result.grades.find((grade) => grade.grader === 'judge')?.score ?? 0);
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    cases: results.length,
+    passed: results.filter((result) => result.passed).length,
+    passRate: round(results.filter((result) => result.passed).length / count),
+    factRecall: round(factGrades.reduce((sum, score) => sum + score, 0) / count),
+    forbiddenClaims: results.filter((result) => result.grades.some((grade) => grade.grader === 'forbidden' && !grade.passed)).length,
+    judgeScore: judged ? round(judgeGrades.reduce((sum, score) => sum + score, 0) / count) : null,
+    errors: results.filter((result) => result.error).length,
+    inputTokens: results.reduce((sum, result) => sum + result.inputTokens, 0),
+    outputTokens: results.reduce((sum, result) => sum + result.outputTokens, 0),
+    averageLatencyMs: Math.round(results.reduce((sum, result) => sum + result.latencyMs, 0) / count),
+  };
+}
+
+// Answers every case with the configuration and grades the replies. Cases run
+// one at a time so latency figures aren't skewed by parallel requests.
+export async function runEvalConfig(dataset: EvalDataset, config: EvalConfig, judge: JudgeConfig | null): Promise<EvalRun> {
+  const { workspaceId } = config;
+  const service = new LLMService({
+    provider: createProvider(config),
+    retrieveKnowledge: workspaceId ? (query, locale) => searchKnowledge(workspaceId, query, locale) : datasetRetriever(dataset),
+    // Cases are answered from knowledge alone; a tool call could look up real
+    // orders or start a return
+    tools: null,
+    settings: {
+      ...DEFAULT_ASSISTANT_SETTINGS,
+      persona: config.persona ?? null,
+      temperature: config.temperature ?? DEFAULT_ASSISTANT_SETTINGS.temperature,
+      maxTokens: config.maxTokens ?? DEFAULT_ASSISTANT_SETTINGS.maxTokens,
+    },
+  });
+  // The judge only completes single prompts, so it needs no knowledge or tools
+  const judgeService = judge ? new LLMService({ provider: createProvider(judge), tools: null }) : null;
+
+  const results: CaseResult[] = [];
+  let model = config.model ?? '';
+  for (const testCase of dataset.cases) {
+    const generated = await service.generateReply(
+      { history: testCase.history ?? [], locale: testCase.locale ?? null },
+      testCase.question
+    );
+    model = generated.usage?.model ?? model;
+
+    const grades = [gradeFacts(testCase, generated.reply), gradeForbidden(testCase, generated.reply)];
+    if (judgeService && !generated.error) {
+      grades.push(await gradeWithJudge(judgeService, testCase, generated.reply));
+    }
+
+    results.push({
+      caseId: testCase.id,
+      question: testCase.question,
+      reply: generated.reply,
+      error: generated.error ?? null,
+      passed: !generated.error && grades.every((grade) => grade.passed),
+      grades,
+      sources: Array.from(new Set((generated.sources ?? []).map((source) => source.title))),
+      tools: (generated.toolCalls ?? []).map((call) => call.name),
+      inputTokens: generated.usage?.inputTokens ?? 0,
+      outputTokens: generated.usage?.outputTokens ?? 0,
+      latencyMs: generated.usage?.latencyMs ?? 0,
+    });
+  }
+
+  return { config, model, summary: summarize(results, judgeService !== null), results };
+}
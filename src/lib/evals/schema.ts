@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { LOCALES } from '@/lib/i18n';
+
+// Validation for configurations and datasets read from the command line or
+// JSON files by scripts/eval.ts
+
+// Keeps one run to a few minutes against a hosted model
+export const MAX_EVAL_CASES = 200;
+
+const providerSchema = z.enum(['openai', 'anthropic', 'mock']).optional();
+
+export const evalConfigSchema = z.object({
+  name: z.string().trim().min(1, 'Configuration name is required').max(100, 'Configuration name too long'),
+  provider: providerSchema,
+  model: z.string().trim().min(1).max(100, 'Model name too long').optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(50).max(4000).optional(),
+  persona: z.string().trim().max(2000, 'Persona too long (max 2000 characters)').optional(),
+  workspaceId: z.string().optional(),
+});
+
+export const judgeConfigSchema = z.object({
+  provider: providerSchema,
+  model: z.string().trim().min(1).max(100).optional(),
+});
+
+const factSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+export const evalDatasetSchema = z.object({
+  name: z.string().trim().min(1, 'Dataset name is required').max(100),
+  knowledge: z.array(z.object({ title: z.string().min(1), body: z.string().min(1) })).default([]),
+  cases: z
+    .array(
+      z.object({
+        id: z.string().trim().min(1, 'Every case needs an id'),
+        question: z.string().trim().min(1, 'Every case needs a question'),
+        history: z.array(z.object({ sender: z.enum(['USER', 'AI']), text: z.string() })).optional(),
+        locale: z.enum(LOCALES).optional(),
+        expectedFacts: z.array(factSchema),
+        forbiddenClaims: z.array(z.string().min(1)).optional(),
+      })
+    )
+    .min(1, 'Dataset has no cases')
+    .max(MAX_EVAL_CASES, `Too many cases (max ${MAX_EVAL_CASES})`)
+    .refine((cases) => new Set(cases.map((testCase) => testCase.id)).size === cases.length, 'Case ids must be unique'),
+});
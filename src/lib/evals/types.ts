@@ -0,0 +1,109 @@
+import type { LLMProviderName } from '@/lib/llm';
+import type { Locale } from '@/lib/i18n';
+
+// A fact the reply has to state. Alternatives are different wordings of the
+// same fact; any one of them counts.
+export type ExpectedFact = string | string[];
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  // Earlier turns, oldest first
+  history?: Array<{ sender: 'USER' | 'AI'; text: string }>;
+  locale?: Locale;
+  expectedFacts: ExpectedFact[];
+  // Phrases that must not appear, e.g. a wrong return window
+  forbiddenClaims?: string[];
+}
+
+export interface EvalDataset {
+  name: string;
+  // Articles retrieved from when a configuration has no workspace
+  knowledge: Array<{ title: string; body: string }>;
+  cases: EvalCase[];
+}
+
+// One assistant setup to evaluate. Anything left out falls back to the
+// deployment's defaults (LLM_PROVIDER, the provider's model, the default persona).
+export interface EvalConfig {
+  name: string;
+  provider?: LLMProviderName;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Replaces the default persona prompt
+  persona?: string;
+  // Retrieve from this workspace's knowledge base instead of the dataset's articles
+  workspaceId?: string;
+}
+
+// Model that grades replies when the LLM judge is on
+export interface JudgeConfig {
+  provider?: LLMProviderName;
+  model?: string;
+}
+
+export interface GradeResult {
+  grader: 'facts' | 'forbidden' | 'judge';
+  passed: boolean;
+  // 0 to 1
+  score: number;
+  details: string;
+}
+
+export interface CaseResult {
+  caseId: string;
+  question: string;
+  reply: string;
+  error: string | null;
+  passed: boolean;
+  grades: GradeResult[];
+  // Titles of the knowledge passages the reply was grounded on
+  sources: string[];
+  tools: string[];
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  passRate: number;
+  // Share of expected facts found, across all cases
+  factRecall: number;
+  // Cases that made a forbidden claim
+  forbiddenClaims: number;
+  // Mean judge score (0 to 1), null without the judge
+  judgeScore: number | null;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+}
+
+export interface EvalRun {
+  config: EvalConfig;
+  // Model the provider actually used
+  model: string;
+  summary: EvalSummary;
+  results: CaseResult[];
+}
+
+export interface EvalComparison {
+  passRateDelta: number;
+  factRecallDelta: number;
+  judgeScoreDelta: number | null;
+  // Cases the candidate passes and the baseline fails, and the reverse
+  fixed: string[];
+  regressed: string[];
+}
+
+export interface EvalReport {
+  createdAt: string;
+  dataset: string;
+  judge: JudgeConfig | null;
+  baseline: EvalRun;
+  candidate: EvalRun | null;
+  comparison: EvalComparison | null;
+}
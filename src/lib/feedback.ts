@@ -0,0 +1,209 @@
+import { Channel, FeedbackRating, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { KnowledgeSource } from '@/lib/knowledge-base';
+
+// Customer feedback: thumbs up/down on individual AI replies and a CSAT score
+// for the conversation as a whole, plus the admin reports built on them.
+
+export const CSAT_SCORES = [1, 2, 3, 4, 5] as const;
+
+export interface FeedbackFilters {
+  workspaceId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface RatedAnswer {
+  feedbackId: string;
+  rating: FeedbackRating;
+  reason: string | null;
+  ratedAt: Date;
+  messageId: string;
+  answer: string;
+  answeredAt: Date;
+  // The customer message the reply answered
+  question: string | null;
+  // Knowledge chunks the reply was grounded on
+  sources: KnowledgeSource[] | null;
+  // Names of the tools the model called for the reply
+  tools: string[];
+  fromCache: boolean;
+  model: string | null;
+  conversationId: string;
+  sessionId: string;
+  channel: Channel;
+  workspaceId: string;
+  workspaceName: string;
+}
+
+export interface FeedbackStats {
+  messages: {
+    up: number;
+    down: number;
+    // Share of thumbs up, null without any votes
+    satisfaction: number | null;
+  };
+  csat: {
+    responses: number;
+    average: number | null;
+    // Responses per score, "1" to "5"
+    distribution: Record<string, number>;
+  };
+  // Knowledge articles behind rated replies, most thumbs down first
+  articles: Array<{ articleId: string; title: string; up: number; down: number }>;
+}
+
+const MAX_ARTICLES = 10;
+
+// Saves or replaces the customer's vote on an AI reply in the conversation.
+// Returns null when the message isn't an AI reply in that conversation.
+export async function rateMessage(
+  conversationId: string,
+  messageId: string,
+  rating: FeedbackRating,
+  reason: string | null
+) {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, conversationId, sender: 'AI' },
+    select: { id: true },
+  });
+  if (!message) return null;
+
+  return prisma.messageFeedback.upsert({
+    where: { messageId },
+    create: { messageId, rating, reason },
+    update: { rating, reason },
+  });
+}
+
+// Saves or replaces the conversation's CSAT score
+export async function rateConversation(conversationId: string, score: number, comment: string | null) {
+  return prisma.conversationRating.upsert({
+    where: { conversationId },
+    create: { conversationId, score, comment },
+    update: { score, comment },
+  });
+}
+
+function dateRange(filters: FeedbackFilters): Prisma.DateTimeFilter | undefined {
+  return filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined;
+}
+
+// Rated replies with the question they answered and the knowledge and tools
+// behind them, newest vote first
+export async function listRatedAnswers(
+  filters: FeedbackFilters & { rating?: FeedbackRating; page: number; pageSize: number }
+): Promise<{ answers: RatedAnswer[]; total: number }> {
+  const where: Prisma.Sql[] = [Prisma.sql`TRUE`];
+  if (filters.workspaceId) where.push(Prisma.sql`c."workspaceId" = ${filters.workspaceId}`);
+  if (filters.rating) where.push(Prisma.sql`f.rating::text = ${filters.rating}`);
+  if (filters.from) where.push(Prisma.sql`f."createdAt" >= ${filters.from}`);
+  if (filters.to) where.push(Prisma.sql`f."createdAt" <= ${filters.to}`);
+
+  const rows = await prisma.$queryRaw<Array<RatedAnswer & { total: number }>>`
+    SELECT
+      f.id AS "feedbackId",
+      f.rating,
+      f.reason,
+      f."createdAt" AS "ratedAt",
+      m.id AS "messageId",
+      m.text AS answer,
+      m.timestamp AS "answeredAt",
+      q.text AS question,
+      m.sources,
+      COALESCE(
+        (SELECT array_agg(t.name ORDER BY t."createdAt") FROM "ToolInvocation" t WHERE t."messageId" = m.id),
+        ARRAY[]::text[]
+      ) AS tools,
+      m."fromCache",
+      m.model,
+      c.id AS "conversationId",
+      c."sessionId",
+      c.channel,
+      c."workspaceId",
+      w.name AS "workspaceName",
+      COUNT(*) OVER()::int AS total
+    FROM "MessageFeedback" f
+    JOIN "Message" m ON m.id = f."messageId"
+    JOIN "Conversation" c ON c.id = m."conversationId"
+    JOIN "Workspace" w ON w.id = c."workspaceId"
+    LEFT JOIN LATERAL (
+      SELECT u.text
+      FROM "Message" u
+      WHERE u."conversationId" = m."conversationId" AND u.sender = 'USER' AND u.timestamp <= m.timestamp
+      ORDER BY u.timestamp DESC
+      LIMIT 1
+    ) q ON TRUE
+    WHERE ${Prisma.join(where, ' AND ')}
+    ORDER BY f."createdAt" DESC
+    LIMIT ${filters.pageSize}
+    OFFSET ${(filters.page - 1) * filters.pageSize}
+  `;
+
+  return {
+    answers: rows.map(({ total: _total, ...answer }) => answer),
+    total: rows[0]?.total ?? 0,
+  };
+}
+
+export async function getFeedbackStats(filters: FeedbackFilters): Promise<FeedbackStats> {
+  const createdAt = dateRange(filters);
+  const conversation = filters.workspaceId ? { workspaceId: filters.workspaceId } : undefined;
+
+  const [votes, scores, articles] = await Promise.all([
+    prisma.messageFeedback.groupBy({
+      by: ['rating'],
+      _count: { _all: true },
+      where: { createdAt, message: { conversation } },
+    }),
+    prisma.conversationRating.groupBy({
+      by: ['score'],
+      _count: { _all: true },
+      where: { createdAt, conversation },
+    }),
+    articleFeedback(filters),
+  ]);
+
+  const up = votes.find((vote) => vote.rating === 'UP')?._count._all ?? 0;
+  const down = votes.find((vote) => vote.rating === 'DOWN')?._count._all ?? 0;
+
+  const distribution = Object.fromEntries(CSAT_SCORES.map((score) => [String(score), 0]));
+  let responses = 0;
+  let total = 0;
+  for (const { score, _count } of scores) {
+    distribution[String(score)] = _count._all;
+    responses += _count._all;
+    total += score * _count._all;
+  }
+
+  return {
+    messages: { up, down, satisfaction: up + down > 0 ? Math.round((up / (up + down)) * 1000) / 1000 : null },
+    csat: { responses, average: responses > 0 ? Math.round((total / responses) * 100) / 100 : null, distribution },
+    articles,
+  };
+}
+
+// Votes per knowledge article, counting each rated reply once per article it
+// was grounded on
+async function articleFeedback(filters: FeedbackFilters): Promise<FeedbackStats['articles']> {
+  const where: Prisma.Sql[] = [Prisma.sql`m.sources IS NOT NULL`];
+  if (filters.workspaceId) where.push(Prisma.sql`c."workspaceId" = ${filters.workspaceId}`);
+  if (filters.from) where.push(Prisma.sql`f."createdAt" >= ${filters.from}`);
+  if (filters.to) where.push(Prisma.sql`f."createdAt" <= ${filters.to}`);
+
+  return prisma.$queryRaw<FeedbackStats['articles']>`
+    SELECT
+      s."articleId",
+      MAX(s.title) AS title,
+      (COUNT(DISTINCT f.id) FILTER (WHERE f.rating = 'UP'))::int AS up,
+      (COUNT(DISTINCT f.id) FILTER (WHERE f.rating = 'DOWN'))::int AS down
+    FROM "MessageFeedback" f
+    JOIN "Message" m ON m.id = f."messageId"
+    JOIN "Conversation" c ON c.id = m."conversationId"
+    CROSS JOIN LATERAL jsonb_to_recordset(m.sources) AS s("articleId" text, title text)
+    WHERE ${Prisma.join(where, ' AND ')}
+    GROUP BY s."articleId"
+    ORDER BY down DESC, up ASC
+    LIMIT ${MAX_ARTICLES}
+  `;
+}
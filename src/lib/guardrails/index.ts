@@ -0,0 +1,147 @@
+import { formatMessage, getWidgetMessages, Locale } from '@/lib/i18n';
+import { prisma } from '@/lib/prisma';
+import { detectPromptInjection } from './injection';
+import { OpenAIModerator } from './moderation';
+import { PiiVault } from './pii';
+import { findUngroundedPolicyFigures } from './policy';
+import { GuardrailFlag, InputCheck, Moderator, PII_KINDS, PiiKind, PiiMaskEntry, ReplyGuardrail } from './types';
+
+export * from './types';
+export { detectPromptInjection } from './injection';
+export { OpenAIModerator } from './moderation';
+export { PiiStreamRedactor, PiiVault } from './pii';
+export { findUngroundedPolicyFigures, PolicyStreamGate } from './policy';
+
+// Sent instead of an AI reply when the customer's message is blocked
+export function blockedReply(reason: NonNullable<InputCheck['blocked']>, locale: Locale | null | undefined): string {
+  const messages = getWidgetMessages(locale);
+  return reason === 'injection' ? messages.replyBlockedInjection : messages.replyBlockedModeration;
+}
+
+let moderatorInstance: Moderator | null | undefined;
+
+// PII_REDACTION lists the kinds to redact ("card,email,phone" by default),
+// or "off"
+export function getPiiKinds(): PiiKind[] {
+  const setting = process.env.PII_REDACTION?.trim();
+  if (!setting) return [...PII_KINDS];
+  if (setting === 'off') return [];
+  return PII_KINDS.filter((kind) => setting.split(',').some((item) => item.trim() === kind));
+}
+
+// `storeContacts` are the workspace's own addresses and numbers, which are
+// left as they are wherever they appear
+export function createPiiVault(
+  storeContacts: ReadonlyArray<string | null> = [],
+  saved: readonly PiiMaskEntry[] = []
+): PiiVault {
+  return new PiiVault(
+    getPiiKinds(),
+    storeContacts.filter((contact): contact is string => Boolean(contact)),
+    saved
+  );
+}
+
+function isPiiKind(kind: string): kind is PiiKind {
+  return (PII_KINDS as readonly string[]).includes(kind);
+}
+
+// The vault for a conversation, holding the masks its earlier turns used
+export async function loadPiiVault(
+  conversationId: string,
+  storeContacts: ReadonlyArray<string | null> = []
+): Promise<PiiVault> {
+  const saved = await prisma.piiMask.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'asc' },
+    select: { kind: true, masked: true, original: true },
+  });
+  const entries = saved.flatMap(({ kind, masked, original }) => (isPiiKind(kind) ? [{ kind, masked, original }] : []));
+  return createPiiVault(storeContacts, entries);
+}
+
+// Saves the masks the vault added this turn. A mask another turn saved first
+// is kept.
+export async function savePiiMasks(conversationId: string, vault: PiiVault): Promise<void> {
+  const added = vault.takeNew();
+  if (added.length === 0) return;
+  await prisma.piiMask.createMany({
+    data: added.map((entry) => ({ conversationId, ...entry })),
+    skipDuplicates: true,
+  });
+}
+
+// MODERATION_PROVIDER picks the moderation model: "openai" (the default when
+// OPENAI_API_KEY is set) or "off"
+export function getModerator(): Moderator | null {
+  if (moderatorInstance === undefined) {
+    const provider = process.env.MODERATION_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'off');
+    moderatorInstance =
+      provider === 'openai' && process.env.OPENAI_API_KEY ? new OpenAIModerator(process.env.OPENAI_API_KEY) : null;
+  }
+  return moderatorInstance;
+}
+
+// Redacts the customer's message into `vault` and decides whether it may
+// reach the model. Moderation runs on the redacted text; if the moderation
+// call fails the message is let through.
+export async function checkInput(text: string, vault: PiiVault): Promise<InputCheck> {
+  const redacted = vault.redact(text);
+  const flags: GuardrailFlag[] = redacted.kinds.map((kind) => `pii:${kind}`);
+
+  const injection = detectPromptInjection(redacted.text);
+  if (injection) {
+    return { text: redacted.text, flags: [...flags, `injection:${injection}`], blocked: 'injection' };
+  }
+
+  const moderator = getModerator();
+  if (moderator) {
+    try {
+      const moderation = await moderator.moderate(redacted.text);
+      if (moderation.flagged) {
+        const categories = moderation.categories.length > 0 ? moderation.categories : ['flagged'];
+        return {
+          text: redacted.text,
+          flags: [...flags, ...categories.map((category) => `moderation:${category}`)],
+          blocked: 'moderation',
+        };
+      }
+    } catch (error) {
+      console.error('Moderation error:', error);
+    }
+  }
+
+  return { text: redacted.text, flags, blocked: null };
+}
+
+export function policyFallbackReply(supportEmail: string, locale: Locale | null | undefined): string {
+  return formatMessage(getWidgetMessages(locale).replyPolicyFallback, { supportEmail });
+}
+
+// Masks any PII from the customer's messages or tool results that a finished
+// AI reply repeats, and replaces the reply with a safe fallback when it states
+// policy figures the evidence doesn't back. The guardrail is undefined when
+// the reply passed untouched.
+export function checkReply(
+  reply: string,
+  vault: PiiVault,
+  evidence: string[],
+  supportEmail: string,
+  locale: Locale | null | undefined
+): { reply: string; guardrail?: ReplyGuardrail } {
+  const redacted = vault.redactKnown(reply);
+  const flags: GuardrailFlag[] = redacted.kinds.map((kind) => `pii:${kind}`);
+
+  const ungrounded = findUngroundedPolicyFigures(redacted.text, evidence);
+  if (ungrounded.length > 0) {
+    return {
+      reply: policyFallbackReply(supportEmail, locale),
+      guardrail: { flags: [...flags, 'policy:ungrounded'], replacedReply: redacted.text },
+    };
+  }
+
+  return {
+    reply: redacted.text,
+    guardrail: flags.length > 0 ? { flags, replacedReply: null } : undefined,
+  };
+}
@@ -0,0 +1,24 @@
+// Phrasings used to make the assistant drop its instructions. Matching is
+// deliberately narrow: ordinary messages ("ignore my last message") must
+// still get through.
+const INJECTION_RULES: Array<[string, RegExp]> = [
+  [
+    'override',
+    /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|prompts?|rules|guidelines|directives)\b/i,
+  ],
+  [
+    'prompt_extraction',
+    /\b(reveal|show|print|repeat|output|tell me|what (is|are)|what's)\b.{0,30}\b(system prompt|initial prompt|hidden prompt|your (instructions|prompt|rules|guidelines))\b/i,
+  ],
+  ['role_play', /\b(you are now|from now on,? you are|you are no longer|pretend (to be|you are|you're))\b/i],
+  ['jailbreak', /\b(developer|debug|god|jailbreak|unrestricted|dan) mode\b|\bjailbreak\b/i],
+  ['role_markup', /<\|?(system|im_start|im_end)\|?>|\[\/?(INST|SYSTEM)\]|^\s*(system|assistant)\s*:/im],
+];
+
+// Name of the first rule the message trips, or null
+export function detectPromptInjection(text: string): string | null {
+  for (const [name, pattern] of INJECTION_RULES) {
+    if (pattern.test(text)) return name;
+  }
+  return null;
+}
@@ -0,0 +1,26 @@
+import OpenAI from 'openai';
+import { ModerationResult, Moderator } from './types';
+
+const MODERATION_MODEL = 'omni-moderation-latest';
+
+// OpenAI's moderation endpoint, which is free to call with any OpenAI key
+export class OpenAIModerator implements Moderator {
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async moderate(text: string): Promise<ModerationResult> {
+    const response = await this.client.moderations.create({ model: MODERATION_MODEL, input: text });
+    const result = response.results[0];
+    if (!result) return { flagged: false, categories: [] };
+
+    return {
+      flagged: result.flagged,
+      categories: Object.entries(result.categories)
+        .filter(([, flagged]) => flagged)
+        .map(([category]) => category),
+    };
+  }
+}
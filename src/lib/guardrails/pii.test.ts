@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PII_KINDS } from './types';
+import { PiiStreamRedactor, PiiVault } from './pii';
+
+describe('PiiVault', () => {
+  it('never masks the store contact details', () => {
+    const vault = new PiiVault(PII_KINDS, ['support@spurmart.com', '+18005550199']);
+    const text = 'Email Support@SpurMart.com or call 1-800-555-0199.';
+    assert.deepEqual(vault.redact(text), { text, kinds: [] });
+  });
+
+  it('masks only customer values that a reply repeats', () => {
+    const vault = new PiiVault(PII_KINDS, ['support@spurmart.com']);
+    assert.equal(vault.redact('My email is jane@example.com').text, 'My email is j***@example.com');
+
+    const reply = vault.redactKnown('I found the order for Jane@example.com. Questions? Call 1-800-555-0123.');
+    assert.equal(reply.text, 'I found the order for j***@example.com. Questions? Call 1-800-555-0123.');
+    assert.deepEqual(reply.kinds, ['email']);
+  });
+
+  it('restores masked values in tool arguments', () => {
+    const vault = new PiiVault(PII_KINDS);
+    vault.redact('Order 1001, placed with jane@example.com');
+    assert.deepEqual(vault.restore({ email: 'j***@example.com' }), { email: 'jane@example.com' });
+  });
+
+  it('gives values that look alike their own masks', () => {
+    const vault = new PiiVault(PII_KINDS);
+    const { text } = vault.redact('Try jane@example.com or john@example.com');
+    assert.equal(text, 'Try j***@example.com or j***2@example.com');
+    assert.deepEqual(vault.restore(['j***@example.com', 'j***2@example.com']), ['jane@example.com', 'john@example.com']);
+  });
+
+  it('restores masks saved in an earlier turn', () => {
+    const first = new PiiVault(PII_KINDS);
+    first.redact('My email is jane@example.com');
+    const saved = first.takeNew();
+    assert.deepEqual(first.takeNew(), []);
+
+    const later = new PiiVault(PII_KINDS, [], saved);
+    assert.deepEqual(later.restore({ email: 'j***@example.com' }), { email: 'jane@example.com' });
+    assert.equal(later.redact('Also john@example.com').text, 'Also j***2@example.com');
+    assert.deepEqual(later.takeNew(), [{ kind: 'email', masked: 'j***2@example.com', original: 'john@example.com' }]);
+  });
+});
+
+describe('PiiStreamRedactor', () => {
+  it('streams the same masked text as the finished reply', () => {
+    const vault = new PiiVault(PII_KINDS, ['support@spurmart.com']);
+    vault.redact('I am jane@example.com, phone 415-555-0123');
+    const reply = 'Thanks! The order for jane@example.com ships today. We will text 415-555-0123, or write to support@spurmart.com.';
+
+    for (const size of [1, 3, 7]) {
+      const redactor = new PiiStreamRedactor(vault);
+      let streamed = '';
+      for (let i = 0; i < reply.length; i += size) {
+        streamed += redactor.push(reply.slice(i, i + size));
+        assert.ok(!streamed.includes('jane'), streamed);
+      }
+      const finished = vault.redactKnown(reply).text;
+      assert.ok(finished.startsWith(streamed), `${streamed} / ${finished}`);
+      assert.equal(finished, 'Thanks! The order for j***@example.com ships today. We will text [phone ending 0123], or write to support@spurmart.com.');
+    }
+  });
+});
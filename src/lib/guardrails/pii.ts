@@ -0,0 +1,201 @@
+import { PiiKind, PiiMaskEntry } from './types';
+
+// Card numbers: 13 to 19 digits, optionally grouped with spaces or dashes.
+// Only runs of digits that pass the Luhn check are treated as cards.
+const CARD_PATTERN = /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Candidate phone numbers; see isPhoneNumber for what actually counts
+const PHONE_PATTERN = /(?<![\w+])\+?\(?\d[\d\s().-]{7,}\d(?!\w)/g;
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// 9 to 15 digits (E.164 allows 15). An ungrouped run needs a leading + or
+// exactly 10 or 11 digits, so order totals, dates and ids aren't taken for
+// phone numbers.
+function isPhoneNumber(candidate: string): boolean {
+  const digits = digitsOf(candidate);
+  if (digits.length < 9 || digits.length > 15) return false;
+  if (candidate.startsWith('+') || /[\s().-]/.test(candidate)) return true;
+  return digits.length === 10 || digits.length === 11;
+}
+
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return `${local[0]}***@${domain}`;
+}
+
+// Tells apart values that would otherwise share a mask, e.g. two addresses
+// with the same first letter and domain: j***2@example.com, [card ending 4242 #2]
+function numberedMask(masked: string, n: number): string {
+  return masked.endsWith(']') ? `${masked.slice(0, -1)} #${n}]` : masked.replace('***@', `***${n}@`);
+}
+
+// Identifies a value however it's written: "Jane@Example.com" is the same
+// address as "jane@example.com", and "+1 (800) 555-0199" the same number as
+// "800-555-0199"
+function valueKey(kind: PiiKind, value: string): string {
+  if (kind === 'email') return `email:${value.toLowerCase()}`;
+  const digits = digitsOf(value);
+  return kind === 'phone' ? `phone:${digits.slice(-10)}` : `card:${digits}`;
+}
+
+// Redacts PII and remembers what each mask stood for, so tool calls the model
+// makes with a masked value (say, the email address an order was placed with)
+// can still run against the real one. Each value gets its own mask. The
+// masks a conversation already uses are loaded with `saved`, and the ones
+// added since are returned by `takeNew` for saving. The store's own contact
+// details are never masked.
+export class PiiVault {
+  private originals = new Map<string, string>();
+  // Mask of every value redacted so far, by valueKey
+  private masks = new Map<string, string>();
+  private added: PiiMaskEntry[] = [];
+  private allowed: Set<string>;
+
+  constructor(
+    private kinds: readonly PiiKind[],
+    allowed: readonly string[] = [],
+    saved: readonly PiiMaskEntry[] = []
+  ) {
+    this.allowed = new Set(allowed.map((value) => valueKey(value.includes('@') ? 'email' : 'phone', value)));
+    for (const entry of saved) {
+      this.masks.set(valueKey(entry.kind, entry.original), entry.masked);
+      this.originals.set(entry.masked, entry.original);
+    }
+  }
+
+  private mask(kind: PiiKind, original: string, base: string): string {
+    const key = valueKey(kind, original);
+    const existing = this.masks.get(key);
+    if (existing) return existing;
+
+    let masked = base;
+    for (let n = 2; this.originals.has(masked); n++) {
+      masked = numberedMask(base, n);
+    }
+    this.masks.set(key, masked);
+    this.originals.set(masked, original);
+    this.added.push({ kind, masked, original });
+    return masked;
+  }
+
+  // Masks added since the vault was created or last asked
+  takeNew(): PiiMaskEntry[] {
+    const added = this.added;
+    this.added = [];
+    return added;
+  }
+
+  // Masks every email address, phone and card number in the text, e.g. the
+  // customer's message or a tool result
+  redact(text: string): { text: string; kinds: PiiKind[] } {
+    return this.replace(text, (kind, match, masked) => this.mask(kind, match, masked));
+  }
+
+  // Masks only values already redacted from the customer's messages or tool
+  // results, should the model repeat one. Anything else the model writes, like
+  // a phone number from the knowledge base, is left alone.
+  redactKnown(text: string): { text: string; kinds: PiiKind[] } {
+    return this.replace(text, (kind, match) => this.masks.get(valueKey(kind, match)) ?? null);
+  }
+
+  private replace(
+    text: string,
+    maskFor: (kind: PiiKind, match: string, masked: string) => string | null
+  ): { text: string; kinds: PiiKind[] } {
+    const found = new Set<PiiKind>();
+    const apply = (kind: PiiKind, match: string, masked: string) => {
+      if (this.allowed.has(valueKey(kind, match))) return match;
+      const replacement = maskFor(kind, match, masked);
+      if (replacement === null) return match;
+      found.add(kind);
+      return replacement;
+    };
+    let result = text;
+
+    // Cards before phones, which would otherwise claim the same digits
+    if (this.kinds.includes('card')) {
+      result = result.replace(CARD_PATTERN, (match) => {
+        const digits = digitsOf(match);
+        if (digits.length < 13 || !passesLuhn(digits)) return match;
+        return apply('card', match, `[card ending ${digits.slice(-4)}]`);
+      });
+    }
+    if (this.kinds.includes('email')) {
+      result = result.replace(EMAIL_PATTERN, (match) => apply('email', match, maskEmail(match)));
+    }
+    if (this.kinds.includes('phone')) {
+      result = result.replace(PHONE_PATTERN, (match) => {
+        if (!isPhoneNumber(match)) return match;
+        return apply('phone', match, `[phone ending ${digitsOf(match).slice(-4)}]`);
+      });
+    }
+
+    return { text: result, kinds: Array.from(found) };
+  }
+
+  // Redacts every string inside a JSON-like value, e.g. a tool result
+  redactValue(value: unknown): unknown {
+    return mapStrings(value, (text) => this.redact(text).text);
+  }
+
+  // Puts the originals back into every string inside a JSON-like value
+  restore(value: unknown): unknown {
+    if (this.originals.size === 0) return value;
+    return mapStrings(value, (text) => {
+      let result = text;
+      this.originals.forEach((original, masked) => {
+        result = result.split(masked).join(original);
+      });
+      return result;
+    });
+  }
+}
+
+// The end of a streamed text that could still grow into an email address,
+// phone or card number
+const PARTIAL_PII = /(?:[A-Za-z0-9._%+-]+@?[A-Za-z0-9.-]*|\+?\(?(?:\d[\d\s().-]*)?)$/;
+
+// Masks a reply while it streams, so every chunk the customer sees is masked
+// the way redactKnown masks the finished reply. Whatever could be the start of
+// an address or number is held until a later chunk shows where it ends.
+export class PiiStreamRedactor {
+  private pending = '';
+
+  constructor(private vault: PiiVault) {}
+
+  // Returns the part of the text seen so far that is safe to send, masked
+  push(text: string): string {
+    this.pending += text;
+    const end = this.pending.search(PARTIAL_PII);
+    const ready = this.pending.slice(0, end);
+    this.pending = this.pending.slice(end);
+    return ready ? this.vault.redactKnown(ready).text : '';
+  }
+}
+
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+}
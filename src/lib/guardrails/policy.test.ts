@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PolicyStreamGate } from './policy';
+
+const EVIDENCE = ['Returns are accepted within 30 days of delivery. Return shipping costs $5.99.'];
+
+// Feeds `reply` to the gate a few characters at a time, like a provider stream
+function stream(reply: string, evidence = EVIDENCE): string {
+  const gate = new PolicyStreamGate(() => evidence);
+  let released = '';
+  for (let i = 0; i < reply.length; i += 3) {
+    released += gate.push(reply.slice(i, i + 3));
+  }
+  return released;
+}
+
+describe('PolicyStreamGate', () => {
+  it('streams text without policy figures as it arrives', () => {
+    assert.equal(stream('Happy to help with that! Let me check '), 'Happy to help with that! Let me check ');
+  });
+
+  it('releases a policy sentence once it is grounded', () => {
+    assert.equal(stream('Sure! Returns are accepted within 30 days. Anything else?'), 'Sure! Returns are accepted within 30 days. Anything ');
+  });
+
+  it('never releases an ungrounded policy figure, or anything after it', () => {
+    const released = stream('Sure! Returns are accepted within 60 days. Return shipping is $5.99.');
+    assert.equal(released, 'Sure! ');
+  });
+
+  it('holds a figure that comes before the policy term', () => {
+    assert.equal(stream('Within 90 days, refunds are issued. '), '');
+  });
+});
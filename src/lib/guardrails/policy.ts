@@ -0,0 +1,97 @@
+// Post-generation grounding check. A reply that states a store policy with
+// a figure (a return window, a fee, a refund time) must find that figure in
+// the store's own data: the retrieved knowledge, tool results or the
+// workspace persona. Catches invented numbers, not invented rules without
+// numbers.
+
+// Sentences about store policy
+const POLICY_TERMS =
+  /\b(returns?|returned|refunds?|refunded|exchanges?|shipping|ships|delivery|delivered|warranty|guarantee[ds]?|price match|cancel|cancell?ation|restocking|store credit|final sale|fees?)\b/i;
+
+// Durations, amounts and percentages, e.g. "3-5 business days", "$5.99", "15%"
+const FIGURE_PATTERN =
+  /\$\s?\d+(?:,\d{3})*(?:\.\d+)?|\b\d+(?:\.\d+)?\s?%|\b\d+(?:\s?(?:-|–|to)\s?\d+)?\s+(?:business\s+|working\s+|calendar\s+)?(?:hours?|days?|weeks?|months?|years?)\b/gi;
+
+// Same figure, same key: "$50.00" and "$50", "3 - 5 days" and "3-5 business days"
+function figureKey(figure: string): string {
+  const text = figure.toLowerCase().replace(/,/g, '');
+  if (text.startsWith('$')) {
+    return `$${Number(text.slice(1).trim())}`;
+  }
+  if (text.endsWith('%')) {
+    return `${Number(text.slice(0, -1).trim())}%`;
+  }
+  const [, from, to, unit] = text.match(/^(\d+)(?:\s?(?:-|–|to)\s?(\d+))?.*?(hour|day|week|month|year)/) ?? [];
+  return to ? `${from}-${to} ${unit}` : `${from} ${unit}`;
+}
+
+function figureKeys(text: string): Set<string> {
+  return new Set(Array.from(text.matchAll(FIGURE_PATTERN), (match) => figureKey(match[0])));
+}
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).filter(Boolean);
+}
+
+// Policy figures in the reply that none of the evidence mentions
+export function findUngroundedPolicyFigures(reply: string, evidence: string[]): string[] {
+  const known = figureKeys(evidence.join('\n'));
+  const ungrounded = new Set<string>();
+
+  for (const sentence of sentences(reply)) {
+    if (!POLICY_TERMS.test(sentence)) continue;
+    for (const match of Array.from(sentence.matchAll(FIGURE_PATTERN))) {
+      if (!known.has(figureKey(match[0]))) {
+        ungrounded.add(match[0]);
+      }
+    }
+  }
+  return Array.from(ungrounded);
+}
+
+// End of a sentence, matching the boundaries `sentences` splits on
+const SENTENCE_END = /[.!?]\s+|\n+/;
+
+// Text that might be or become part of a policy figure
+const FIGURE_START = /[\d$%]/;
+
+// Decides which streamed text can reach the customer before the finished
+// reply is checked. Text streams as it arrives until a sentence mentions a
+// policy term or a number; the rest of that sentence is held until it ends
+// and checked against the evidence known so far. After the first sentence
+// that fails, nothing more is released and the checked reply replaces what
+// was streamed.
+export class PolicyStreamGate {
+  private pending = '';
+  private blocked = false;
+
+  constructor(private evidence: () => string[]) {}
+
+  // Returns the part of the text seen so far that is safe to send
+  push(text: string): string {
+    if (this.blocked) return '';
+    this.pending += text;
+
+    let released = '';
+    for (let end = this.pending.search(SENTENCE_END); end !== -1; end = this.pending.search(SENTENCE_END)) {
+      const boundary = this.pending.slice(end).match(SENTENCE_END)![0];
+      const sentence = this.pending.slice(0, end + boundary.length);
+      if (findUngroundedPolicyFigures(sentence, this.evidence()).length > 0) {
+        this.blocked = true;
+        this.pending = '';
+        return released;
+      }
+      released += sentence;
+      this.pending = this.pending.slice(sentence.length);
+    }
+
+    // The unfinished sentence can go out up to its last whole word, as long
+    // as nothing in it could be policy. The last word may still be cut off.
+    const lastSpace = this.pending.search(/\s\S*$/);
+    if (lastSpace !== -1 && !POLICY_TERMS.test(this.pending) && !FIGURE_START.test(this.pending)) {
+      released += this.pending.slice(0, lastSpace + 1);
+      this.pending = this.pending.slice(lastSpace + 1);
+    }
+    return released;
+  }
+}
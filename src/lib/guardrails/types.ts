@@ -0,0 +1,45 @@
+// Personal data removed from text before it is stored or sent to the model
+export const PII_KINDS = ['card', 'email', 'phone'] as const;
+
+export type PiiKind = (typeof PII_KINDS)[number];
+
+// What one mask in a conversation stands for
+export interface PiiMaskEntry {
+  kind: PiiKind;
+  masked: string;
+  original: string;
+}
+
+// Flags recorded on a message when a guardrail acted on it:
+// - `pii:<kind>`: personal data was redacted from the text
+// - `injection:<rule>`: the customer message looked like a prompt injection
+// - `moderation:<category>`: the moderation model flagged the customer message
+// - `policy:ungrounded`: the AI reply stated a policy figure the knowledge
+//   base doesn't back, and was replaced
+export type GuardrailFlag = string;
+
+export interface ModerationResult {
+  flagged: boolean;
+  // Provider category names, e.g. "harassment"
+  categories: string[];
+}
+
+export interface Moderator {
+  moderate(text: string): Promise<ModerationResult>;
+}
+
+// The customer's message after the input guardrails
+export interface InputCheck {
+  // Message text with PII redacted; this is what is stored and sent on
+  text: string;
+  flags: GuardrailFlag[];
+  // Why the message must not reach the model, if it mustn't
+  blocked: 'injection' | 'moderation' | null;
+}
+
+// What the output guardrails did to an AI reply
+export interface ReplyGuardrail {
+  flags: GuardrailFlag[];
+  // The model's reply when it was replaced by a safe fallback, for review
+  replacedReply: string | null;
+}
@@ -0,0 +1,40 @@
+import { HandoffState } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getWidgetMessages, Locale } from '@/lib/i18n';
+import { emitWebhookEvent, toWebhookConversation } from '@/lib/webhooks';
+
+export const ESCALATION_TOOL_NAME = 'escalateToHuman';
+
+export function handoffAcknowledgement(locale: Locale | null | undefined): string {
+  return getWidgetMessages(locale).replyHandoff;
+}
+
+// Explicit requests for a person rather than the bot. "human" alone isn't
+// enough: it turns up in ordinary questions ("is this a human-safe dye?").
+const HANDOFF_REQUEST_PATTERN =
+  /\b(real (person|human)|human (agent|representative|rep|support)|live (agent|chat|person)|(speak|talk|chat|connect me|transfer me|put me through) (to|with) (an? |the |a real )?(agent|person|someone|representative|rep|manager|human)|customer service rep)\b/i;
+
+export function isHandoffRequest(text: string): boolean {
+  return HANDOFF_REQUEST_PATTERN.test(text);
+}
+
+// The AI stays quiet while a human is about to take, or has taken, the thread
+export function isAiSuppressed(state: HandoffState): boolean {
+  return state === 'WAITING_FOR_HUMAN' || state === 'HUMAN';
+}
+
+export async function escalateConversation(conversationId: string, reason: string) {
+  const conversation = await prisma.conversation.update({
+    where: { id: conversationId },
+    data: {
+      handoffState: 'WAITING_FOR_HUMAN',
+      escalatedAt: new Date(),
+      escalationReason: reason,
+    },
+  });
+
+  await emitWebhookEvent(conversation.workspaceId, 'conversation.escalated', {
+    conversation: toWebhookConversation(conversation),
+  });
+  return conversation;
+}
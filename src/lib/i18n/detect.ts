@@ -0,0 +1,70 @@
+import { Locale } from './types';
+
+// Guesses the language of a customer message from common short words and
+// letters only some of the languages use. Deliberately cautious: anything
+// ambiguous, too short or in another language is null, and the conversation
+// keeps the language it had.
+
+// Function words and support vocabulary, written without accents
+const COMMON_WORDS: Record<Locale, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'are', 'was', 'my', 'you', 'your', 'what', 'where', 'when', 'how', 'why', 'can', 'do',
+    'does', 'did', 'i', 'it', 'to', 'of', 'for', 'with', 'have', 'has', 'not', 'this', 'that', 'will', 'would',
+    'please', 'thanks', 'thank', 'hello', 'hi', 'hey', 'order', 'refund', 'shipping', 'yet', 'just',
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'es', 'mi', 'mis', 'por', 'para',
+    'con', 'no', 'se', 'lo', 'como', 'pero', 'cuando', 'donde', 'esta', 'estoy', 'tengo', 'quiero', 'puedo',
+    'hola', 'gracias', 'pedido', 'envio', 'devolucion', 'reembolso', 'su', 'muy', 'al', 'hay', 'cual', 'todavia',
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'de', 'des', 'du', 'et', 'est', 'un', 'une', 'je', 'j', 'vous', 'mon', 'ma', 'mes',
+    'pour', 'avec', 'pas', 'ne', 'que', 'qui', 'dans', 'sur', 'ce', 'cette', 'il', 'elle', 'au', 'aux', 'ai',
+    'suis', 'comment', 'quand', 'pourquoi', 'bonjour', 'merci', 'commande', 'livraison', 'remboursement', 'toujours',
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'ein', 'eine', 'mein', 'meine', 'sie', 'mit', 'fur',
+    'auf', 'zu', 'den', 'dem', 'wie', 'wo', 'wann', 'warum', 'habe', 'haben', 'kann', 'bitte', 'noch', 'auch',
+    'von', 'bei', 'hallo', 'danke', 'bestellung', 'lieferung', 'rucksendung', 'erstattung', 'wurde', 'schon',
+  ]),
+};
+
+// Letters that point to one language; each kind present adds a point
+const LETTER_HINTS: Array<{ locale: Locale; pattern: RegExp }> = [
+  { locale: 'es', pattern: /[ñ¿¡]/ },
+  { locale: 'fr', pattern: /[çœ]|[èêëàâîôùû]/ },
+  { locale: 'de', pattern: /[ßäöü]/ },
+];
+
+// Messages this short may be identified by a single word ("hola", "merci")
+const SHORT_MESSAGE_WORDS = 3;
+
+function words(text: string): string[] {
+  return (
+    text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .match(/[a-zßæœ]+/g) ?? []
+  );
+}
+
+export function detectLanguage(text: string): Locale | null {
+  const tokens = words(text);
+  if (tokens.length === 0) return null;
+
+  const lower = text.toLowerCase();
+  const scores = (Object.keys(COMMON_WORDS) as Locale[]).map((locale) => {
+    let score = tokens.filter((token) => COMMON_WORDS[locale].has(token)).length;
+    for (const hint of LETTER_HINTS) {
+      if (hint.locale === locale && hint.pattern.test(lower)) score++;
+    }
+    return { locale, score };
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score === 0 || best.score === runnerUp.score) return null;
+  if (best.score === 1 && tokens.length > SHORT_MESSAGE_WORDS) return null;
+  return best.locale;
+}
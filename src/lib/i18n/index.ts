@@ -0,0 +1,35 @@
+import { de } from './messages/de';
+import { en, WidgetMessages } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+import { DEFAULT_LOCALE, isLocale, Locale } from './types';
+
+// Shared by the server and the widget, so nothing here may touch the
+// database or Node-only APIs.
+
+export * from './types';
+export type { WidgetMessages } from './messages/en';
+export { detectLanguage } from './detect';
+
+const CATALOGS: Record<Locale, WidgetMessages> = { en, es, fr, de };
+
+export function getWidgetMessages(locale: Locale | null | undefined): WidgetMessages {
+  return CATALOGS[locale ?? DEFAULT_LOCALE];
+}
+
+// Fills `{name}` placeholders; unknown ones are left as they are
+export function formatMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+// The first supported locale among language tags like "es-MX", e.g. from
+// navigator.languages
+export function matchLocale(tags: readonly string[]): Locale | null {
+  for (const tag of tags) {
+    const language = tag.split('-')[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+import { WidgetMessages } from './en';
+
+export const de: WidgetMessages = {
+  openChat: 'Chat öffnen',
+  closeChat: 'Chat schließen',
+  toggleConversations: 'Unterhaltungen anzeigen',
+  supportTitle: '{store} Kundenservice',
+  supportTitleDefault: 'Kundenservice',
+  onlineStatus: 'Online • Antwortet meist sofort',
+  emailTranscript: 'Verlauf per E-Mail senden',
+  emailTranscriptTitle: 'Diesen Verlauf per E-Mail an mich senden',
+  newConversation: 'Neue Unterhaltung',
+
+  newChat: 'Neuer Chat',
+  previousConversations: 'Frühere Unterhaltungen',
+  noConversations: 'Noch keine Unterhaltungen',
+  messageCount: '{count} Nachr.',
+  yesterday: 'Gestern',
+  downloadChats: 'Meine Chats herunterladen',
+  downloadPrintable: 'Druckversion',
+  downloadMyData: 'Alle meine Daten herunterladen',
+  deleteChats: 'Meine Chats löschen',
+  deleteChatsConfirm: 'Alle Ihre Unterhaltungen mit uns löschen? Das kann nicht rückgängig gemacht werden.',
+  deleteChatsFailed: 'Ihre Unterhaltungen konnten nicht gelöscht werden',
+
+  handoffWaiting: 'Wir verbinden Sie mit einem Mitglied unseres Teams...',
+  handoffHuman: 'Sie chatten jetzt mit einem Menschen',
+  handoffHumanNamed: 'Sie chatten jetzt mit einem Menschen ({agent})',
+  defaultGreeting: 'Hallo! Wie kann ich Ihnen heute helfen?',
+  emptyStateHint: 'Fragen Sie uns zu Versand, Rücksendungen oder unseren Produkten.',
+  supportTeam: 'Support-Team',
+  csatThanks: 'Danke für Ihre Bewertung!',
+  cooldown: 'Sie können in {seconds} s eine weitere Nachricht senden.',
+
+  inputPlaceholder: 'Nachricht eingeben...',
+  stopGenerating: 'Antwort stoppen',
+  sendMessage: 'Nachricht senden',
+  inputHint: 'Mit Enter senden • Max. {max} Zeichen',
+
+  loginLinkInvalid: 'Dieser Anmeldelink ist ungültig oder abgelaufen. Bitte fordern Sie einen neuen an.',
+  tooManyMessages: 'Zu viele Nachrichten. Bitte warten Sie einen Moment.',
+  sendFailed: 'Nachricht konnte nicht gesendet werden',
+  somethingWentWrong: 'Etwas ist schiefgelaufen',
+
+  send: 'Senden',
+  sending: 'Wird gesendet...',
+  cancel: 'Abbrechen',
+  done: 'Fertig',
+
+  transcriptSendTo: 'Diesen Verlauf an {email} senden',
+  transcriptSignIn: 'Melden Sie sich an, um Verläufe per E-Mail zu erhalten.',
+  signIn: 'Anmelden',
+  transcriptSent: 'Verlauf an {email} gesendet',
+  transcriptFailed: 'Verlauf konnte nicht gesendet werden',
+
+  csatQuestion: 'Wie bewerten Sie diese Unterhaltung?',
+  notNow: 'Später',
+  rating: 'Bewertung',
+  csatScore1: 'Sehr schlecht',
+  csatScore2: 'Schlecht',
+  csatScore3: 'Okay',
+  csatScore4: 'Gut',
+  csatScore5: 'Ausgezeichnet',
+  csatCommentPlaceholder: 'Was können wir besser machen? (optional)',
+  csatFailed: 'Bewertung konnte nicht gesendet werden',
+
+  helpful: 'Hilfreich',
+  notHelpful: 'Nicht hilfreich',
+  feedbackThanks: 'Danke für Ihr Feedback!',
+  feedbackReasonPlaceholder: 'Was war falsch? (optional)',
+  feedbackFailed: 'Feedback konnte nicht gesendet werden',
+
+  signedInAs: 'Angemeldet als',
+  signOut: 'Abmelden',
+  checkEmailForLink: 'Wir haben Ihnen einen Anmeldelink per E-Mail geschickt.',
+  signInPrompt: 'Melden Sie sich an, um Ihre Chats auf jedem Gerät zu sehen',
+  emailPlaceholder: 'sie@beispiel.de',
+  emailSignInLink: 'Anmeldelink per E-Mail senden',
+  signInFailed: 'Anmeldelink konnte nicht gesendet werden',
+
+  replyHandoff: 'Ich verbinde Sie mit einem Mitarbeiter unseres Support-Teams. Gleich meldet sich jemand in diesem Chat.',
+  replyBlockedInjection:
+    'Ich kann nur Fragen zu Ihren Bestellungen, unseren Produkten und unseren Shop-Richtlinien beantworten. Könnten Sie Ihr Anliegen anders formulieren?',
+  replyBlockedModeration:
+    'Dabei kann ich leider nicht helfen. Wenn Sie eine Frage zu einer Bestellung oder unserem Shop haben, helfe ich Ihnen gern.',
+  replyPolicyFallback:
+    'Ich möchte sichergehen, dass Sie korrekte Informationen zu unseren Richtlinien erhalten, und lieber nicht raten. Bitte sehen Sie auf unseren Richtlinienseiten nach oder kontaktieren Sie unser Support-Team unter {supportEmail}.',
+  replyUnavailable: 'Unser KI-Support ist derzeit leider nicht verfügbar. Bitte kontaktieren Sie uns unter {supportEmail}.',
+  replyEmpty: 'Entschuldigung, ich konnte keine Antwort erstellen. Bitte versuchen Sie es erneut.',
+};
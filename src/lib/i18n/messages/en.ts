@@ -0,0 +1,102 @@
+// Widget strings and the assistant's canned replies. `{name}` placeholders
+// are filled in by formatMessage.
+export const en = {
+  // Launcher and header
+  openChat: 'Open chat',
+  closeChat: 'Close chat',
+  toggleConversations: 'Toggle conversations',
+  supportTitle: '{store} Support',
+  supportTitleDefault: 'Support',
+  onlineStatus: 'Online • Typically replies instantly',
+  emailTranscript: 'Email transcript',
+  emailTranscriptTitle: 'Email me this transcript',
+  newConversation: 'New conversation',
+
+  // Sidebar
+  newChat: 'New Chat',
+  previousConversations: 'Previous Conversations',
+  noConversations: 'No conversations yet',
+  messageCount: '{count} msgs',
+  yesterday: 'Yesterday',
+  downloadChats: 'Download my chats',
+  downloadPrintable: 'Printable',
+  downloadMyData: 'Download all my data',
+  deleteChats: 'Delete my chats',
+  deleteChatsConfirm: "Delete all your conversations with us? This can't be undone.",
+  deleteChatsFailed: 'Failed to delete your conversations',
+
+  // Conversation
+  handoffWaiting: 'Connecting you with a member of our team...',
+  handoffHuman: "You're now chatting with a person",
+  handoffHumanNamed: "You're now chatting with a person ({agent})",
+  defaultGreeting: 'Hi there! How can I help you today?',
+  emptyStateHint: 'Ask about shipping, returns, or our products.',
+  supportTeam: 'Support team',
+  csatThanks: 'Thanks for rating this conversation!',
+  cooldown: 'You can send another message in {seconds}s.',
+
+  // Input
+  inputPlaceholder: 'Type your message...',
+  stopGenerating: 'Stop generating',
+  sendMessage: 'Send message',
+  inputHint: 'Press Enter to send • Max {max} characters',
+
+  // Errors
+  loginLinkInvalid: 'That sign-in link is invalid or has expired. Please request a new one.',
+  tooManyMessages: 'Too many messages. Please wait a moment.',
+  sendFailed: 'Failed to send message',
+  somethingWentWrong: 'Something went wrong',
+
+  // Shared buttons
+  send: 'Send',
+  sending: 'Sending...',
+  cancel: 'Cancel',
+  done: 'Done',
+
+  // Transcript form
+  transcriptSendTo: 'Send this transcript to {email}',
+  transcriptSignIn: 'Sign in to get transcripts by email.',
+  signIn: 'Sign in',
+  transcriptSent: 'Transcript sent to {email}',
+  transcriptFailed: 'Failed to send transcript',
+
+  // Conversation rating
+  csatQuestion: 'How would you rate this conversation?',
+  notNow: 'Not now',
+  rating: 'Rating',
+  csatScore1: 'Very poor',
+  csatScore2: 'Poor',
+  csatScore3: 'Okay',
+  csatScore4: 'Good',
+  csatScore5: 'Excellent',
+  csatCommentPlaceholder: 'Anything we could do better? (optional)',
+  csatFailed: 'Failed to send rating',
+
+  // Reply feedback
+  helpful: 'Helpful',
+  notHelpful: 'Not helpful',
+  feedbackThanks: 'Thanks for your feedback!',
+  feedbackReasonPlaceholder: 'What was wrong? (optional)',
+  feedbackFailed: 'Failed to send feedback',
+
+  // Account
+  signedInAs: 'Signed in as',
+  signOut: 'Sign out',
+  checkEmailForLink: 'Check your email for a sign-in link.',
+  signInPrompt: 'Sign in to see your chats on any device',
+  emailPlaceholder: 'you@example.com',
+  emailSignInLink: 'Email me a sign-in link',
+  signInFailed: 'Failed to send sign-in link',
+
+  // Canned assistant replies, sent by the server instead of a model reply
+  replyHandoff: "I'm connecting you with a member of our support team. Someone will join this chat shortly.",
+  replyBlockedInjection:
+    'I can only help with questions about your orders, our products and our store policies. Could you rephrase what you need?',
+  replyBlockedModeration: "I'm not able to help with that. If you have a question about an order or our store, I'm happy to help.",
+  replyPolicyFallback:
+    "I want to make sure you get accurate information about our policies, so I'd rather not guess. Please check our policy pages or contact our support team at {supportEmail}.",
+  replyUnavailable: "I'm sorry, but our AI support is currently unavailable. Please contact us at {supportEmail} for assistance.",
+  replyEmpty: "I apologize, but I couldn't generate a response. Please try again.",
+};
+
+export type WidgetMessages = typeof en;
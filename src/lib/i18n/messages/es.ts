@@ -0,0 +1,89 @@
+import { WidgetMessages } from './en';
+
+export const es: WidgetMessages = {
+  openChat: 'Abrir chat',
+  closeChat: 'Cerrar chat',
+  toggleConversations: 'Mostrar conversaciones',
+  supportTitle: 'Atención al cliente de {store}',
+  supportTitleDefault: 'Atención al cliente',
+  onlineStatus: 'En línea • Suele responder al instante',
+  emailTranscript: 'Enviar transcripción por correo',
+  emailTranscriptTitle: 'Enviarme esta conversación por correo',
+  newConversation: 'Nueva conversación',
+
+  newChat: 'Nuevo chat',
+  previousConversations: 'Conversaciones anteriores',
+  noConversations: 'Todavía no hay conversaciones',
+  messageCount: '{count} mensajes',
+  yesterday: 'Ayer',
+  downloadChats: 'Descargar mis chats',
+  downloadPrintable: 'Imprimible',
+  downloadMyData: 'Descargar todos mis datos',
+  deleteChats: 'Eliminar mis chats',
+  deleteChatsConfirm: '¿Eliminar todas tus conversaciones con nosotros? No se puede deshacer.',
+  deleteChatsFailed: 'No se pudieron eliminar tus conversaciones',
+
+  handoffWaiting: 'Te estamos poniendo en contacto con alguien de nuestro equipo...',
+  handoffHuman: 'Ahora estás hablando con una persona',
+  handoffHumanNamed: 'Ahora estás hablando con una persona ({agent})',
+  defaultGreeting: '¡Hola! ¿En qué puedo ayudarte hoy?',
+  emptyStateHint: 'Pregunta sobre envíos, devoluciones o nuestros productos.',
+  supportTeam: 'Equipo de atención',
+  csatThanks: '¡Gracias por valorar esta conversación!',
+  cooldown: 'Podrás enviar otro mensaje en {seconds} s.',
+
+  inputPlaceholder: 'Escribe tu mensaje...',
+  stopGenerating: 'Detener respuesta',
+  sendMessage: 'Enviar mensaje',
+  inputHint: 'Pulsa Intro para enviar • Máximo {max} caracteres',
+
+  loginLinkInvalid: 'Ese enlace de inicio de sesión no es válido o ha caducado. Solicita uno nuevo.',
+  tooManyMessages: 'Demasiados mensajes. Espera un momento.',
+  sendFailed: 'No se pudo enviar el mensaje',
+  somethingWentWrong: 'Algo salió mal',
+
+  send: 'Enviar',
+  sending: 'Enviando...',
+  cancel: 'Cancelar',
+  done: 'Listo',
+
+  transcriptSendTo: 'Enviar esta conversación a {email}',
+  transcriptSignIn: 'Inicia sesión para recibir las conversaciones por correo.',
+  signIn: 'Iniciar sesión',
+  transcriptSent: 'Transcripción enviada a {email}',
+  transcriptFailed: 'No se pudo enviar la transcripción',
+
+  csatQuestion: '¿Cómo valorarías esta conversación?',
+  notNow: 'Ahora no',
+  rating: 'Valoración',
+  csatScore1: 'Muy mala',
+  csatScore2: 'Mala',
+  csatScore3: 'Normal',
+  csatScore4: 'Buena',
+  csatScore5: 'Excelente',
+  csatCommentPlaceholder: '¿Qué podríamos mejorar? (opcional)',
+  csatFailed: 'No se pudo enviar la valoración',
+
+  helpful: 'Útil',
+  notHelpful: 'No útil',
+  feedbackThanks: '¡Gracias por tu opinión!',
+  feedbackReasonPlaceholder: '¿Qué estuvo mal? (opcional)',
+  feedbackFailed: 'No se pudo enviar tu opinión',
+
+  signedInAs: 'Sesión iniciada como',
+  signOut: 'Cerrar sesión',
+  checkEmailForLink: 'Revisa tu correo: te hemos enviado un enlace para iniciar sesión.',
+  signInPrompt: 'Inicia sesión para ver tus chats en cualquier dispositivo',
+  emailPlaceholder: 'tu@ejemplo.com',
+  emailSignInLink: 'Enviarme un enlace de inicio de sesión',
+  signInFailed: 'No se pudo enviar el enlace de inicio de sesión',
+
+  replyHandoff: 'Te estoy conectando con una persona de nuestro equipo de soporte. Alguien se unirá a este chat en breve.',
+  replyBlockedInjection:
+    'Solo puedo ayudarte con preguntas sobre tus pedidos, nuestros productos y las políticas de la tienda. ¿Podrías reformular lo que necesitas?',
+  replyBlockedModeration: 'No puedo ayudarte con eso. Si tienes alguna pregunta sobre un pedido o nuestra tienda, estaré encantado de ayudarte.',
+  replyPolicyFallback:
+    'Quiero asegurarme de que recibas información correcta sobre nuestras políticas, así que prefiero no adivinar. Consulta nuestras páginas de políticas o escribe a nuestro equipo de soporte a {supportEmail}.',
+  replyUnavailable: 'Lo sentimos, nuestro soporte con IA no está disponible en este momento. Escríbenos a {supportEmail} y te ayudaremos.',
+  replyEmpty: 'Lo siento, no he podido generar una respuesta. Inténtalo de nuevo.',
+};
@@ -0,0 +1,90 @@
+import { WidgetMessages } from './en';
+
+export const fr: WidgetMessages = {
+  openChat: 'Ouvrir le chat',
+  closeChat: 'Fermer le chat',
+  toggleConversations: 'Afficher les conversations',
+  supportTitle: 'Service client {store}',
+  supportTitleDefault: 'Service client',
+  onlineStatus: 'En ligne • Répond généralement tout de suite',
+  emailTranscript: 'Envoyer la transcription par e-mail',
+  emailTranscriptTitle: "M'envoyer cette conversation par e-mail",
+  newConversation: 'Nouvelle conversation',
+
+  newChat: 'Nouveau chat',
+  previousConversations: 'Conversations précédentes',
+  noConversations: 'Aucune conversation pour le moment',
+  messageCount: '{count} messages',
+  yesterday: 'Hier',
+  downloadChats: 'Télécharger mes conversations',
+  downloadPrintable: 'Imprimable',
+  downloadMyData: 'Télécharger toutes mes données',
+  deleteChats: 'Supprimer mes conversations',
+  deleteChatsConfirm: 'Supprimer toutes vos conversations avec nous ? Cette action est irréversible.',
+  deleteChatsFailed: 'Impossible de supprimer vos conversations',
+
+  handoffWaiting: "Nous vous mettons en relation avec un membre de l'équipe...",
+  handoffHuman: 'Vous discutez maintenant avec une personne',
+  handoffHumanNamed: 'Vous discutez maintenant avec une personne ({agent})',
+  defaultGreeting: "Bonjour ! Comment puis-je vous aider aujourd'hui ?",
+  emptyStateHint: 'Posez vos questions sur la livraison, les retours ou nos produits.',
+  supportTeam: 'Équipe support',
+  csatThanks: "Merci d'avoir évalué cette conversation !",
+  cooldown: 'Vous pourrez envoyer un autre message dans {seconds} s.',
+
+  inputPlaceholder: 'Écrivez votre message...',
+  stopGenerating: 'Arrêter la réponse',
+  sendMessage: 'Envoyer le message',
+  inputHint: 'Appuyez sur Entrée pour envoyer • {max} caractères max.',
+
+  loginLinkInvalid: "Ce lien de connexion n'est pas valide ou a expiré. Veuillez en demander un nouveau.",
+  tooManyMessages: 'Trop de messages. Veuillez patienter un instant.',
+  sendFailed: "Impossible d'envoyer le message",
+  somethingWentWrong: "Une erreur s'est produite",
+
+  send: 'Envoyer',
+  sending: 'Envoi...',
+  cancel: 'Annuler',
+  done: 'OK',
+
+  transcriptSendTo: 'Envoyer cette conversation à {email}',
+  transcriptSignIn: 'Connectez-vous pour recevoir les conversations par e-mail.',
+  signIn: 'Se connecter',
+  transcriptSent: 'Transcription envoyée à {email}',
+  transcriptFailed: "Impossible d'envoyer la transcription",
+
+  csatQuestion: 'Comment évalueriez-vous cette conversation ?',
+  notNow: 'Plus tard',
+  rating: 'Note',
+  csatScore1: 'Très mauvais',
+  csatScore2: 'Mauvais',
+  csatScore3: 'Correct',
+  csatScore4: 'Bien',
+  csatScore5: 'Excellent',
+  csatCommentPlaceholder: 'Que pourrions-nous améliorer ? (facultatif)',
+  csatFailed: "Impossible d'envoyer la note",
+
+  helpful: 'Utile',
+  notHelpful: 'Pas utile',
+  feedbackThanks: 'Merci pour votre avis !',
+  feedbackReasonPlaceholder: "Qu'est-ce qui n'allait pas ? (facultatif)",
+  feedbackFailed: "Impossible d'envoyer votre avis",
+
+  signedInAs: 'Connecté en tant que',
+  signOut: 'Se déconnecter',
+  checkEmailForLink: 'Consultez vos e-mails : un lien de connexion vous attend.',
+  signInPrompt: "Connectez-vous pour retrouver vos chats sur n'importe quel appareil",
+  emailPlaceholder: 'vous@exemple.com',
+  emailSignInLink: "M'envoyer un lien de connexion",
+  signInFailed: "Impossible d'envoyer le lien de connexion",
+
+  replyHandoff: "Je vous mets en relation avec un membre de notre équipe d'assistance. Quelqu'un va rejoindre cette conversation sous peu.",
+  replyBlockedInjection:
+    'Je peux uniquement répondre aux questions sur vos commandes, nos produits et les conditions de notre boutique. Pouvez-vous reformuler votre demande ?',
+  replyBlockedModeration:
+    "Je ne peux pas vous aider sur ce point. Si vous avez une question sur une commande ou sur notre boutique, je serai ravi de vous aider.",
+  replyPolicyFallback:
+    "Je tiens à vous donner des informations exactes sur nos conditions, je préfère donc ne pas deviner. Consultez nos pages d'informations ou contactez notre équipe d'assistance à {supportEmail}.",
+  replyUnavailable: "Désolé, notre assistance par IA est momentanément indisponible. Contactez-nous à {supportEmail} pour obtenir de l'aide.",
+  replyEmpty: "Désolé, je n'ai pas pu générer de réponse. Veuillez réessayer.",
+};
@@ -0,0 +1,20 @@
+// Languages the widget is translated into and the assistant is told to
+// answer in. The first is the default, and the language knowledge articles
+// fall back to.
+export const LOCALES = ['en', 'es', 'fr', 'de'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// English names, used in the assistant's instructions
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { BM25Index, chunkText, termFrequencies } from '@/lib/retrieval';
+import { DEFAULT_LOCALE, Locale } from '@/lib/i18n';
+
+export interface KnowledgeEntry {
+  id: string;
+  title: string;
+  category: string;
+  body: string;
+  version: number;
+  locale: string;
+  translationOfId: string | null;
+}
+
+interface IndexedChunk {
+  id: string;
+  articleId: string;
+  title: string;
+  text: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+// A chunk selected as context for a reply; also returned to the client and
+// stored on the AI message so answers can be audited.
+export interface KnowledgeSource {
+  articleId: string;
+  chunkId: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+export interface KnowledgeSnapshot {
+  articles: KnowledgeEntry[];
+  chunks: IndexedChunk[];
+  // Search index per conversation language, built on first use
+  indexes: Map<Locale, BM25Index<IndexedChunk>>;
+  // Changes whenever a published article is added, edited or removed
+  version: string;
+}
+
+const DEFAULT_TOP_K = 4;
+
+// Edits made through the admin routes invalidate the cache immediately; the
+// TTL bounds staleness for other server instances that did not see the edit.
+const CACHE_TTL_MS = 60 * 1000;
+
+// Snapshots are per workspace, keyed by workspace id
+const cached = new Map<string, { snapshot: KnowledgeSnapshot; expiresAt: number }>();
+const pending = new Map<string, Promise<KnowledgeSnapshot>>();
+let generation = 0;
+
+function fingerprint(articles: KnowledgeEntry[]): string {
+  const hash = createHash('sha1');
+  for (const article of articles) {
+    hash.update(`${article.id}:${article.version};`);
+  }
+  return hash.digest('hex').slice(0, 12);
+}
+
+// Rebuilds the stored chunks for one article. The title is indexed with every
+// chunk so that a question matching only the title still finds its passages.
+async function reindexArticle(article: KnowledgeEntry) {
+  const chunks = chunkText(article.body).map((text, position) => ({
+    articleId: article.id,
+    articleVersion: article.version,
+    position,
+    text,
+    ...termFrequencies(`${article.title}\n${text}`),
+  }));
+
+  await prisma.$transaction([
+    prisma.knowledgeChunk.deleteMany({ where: { articleId: article.id } }),
+    prisma.knowledgeChunk.createMany({ data: chunks }),
+  ]);
+
+  return prisma.knowledgeChunk.findMany({
+    where: { articleId: article.id },
+    orderBy: { position: 'asc' },
+  });
+}
+
+async function loadSnapshot(workspaceId: string): Promise<KnowledgeSnapshot> {
+  const rows = await prisma.knowledgeArticle.findMany({
+    where: { workspaceId, published: true },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      chunks: { orderBy: { position: 'asc' } },
+    },
+  });
+
+  const articles: KnowledgeEntry[] = [];
+  const chunks: IndexedChunk[] = [];
+
+  for (const { chunks: storedChunks, workspaceId: _workspaceId, ...article } of rows) {
+    articles.push(article);
+
+    // Articles created or edited since they were last indexed (including
+    // the seeded policies) are chunked lazily here
+    const isStale =
+      storedChunks.length === 0 || storedChunks.some((chunk) => chunk.articleVersion !== article.version);
+    const articleChunks = isStale ? await reindexArticle(article) : storedChunks;
+
+    for (const chunk of articleChunks) {
+      chunks.push({
+        id: chunk.id,
+        articleId: article.id,
+        title: article.title,
+        text: chunk.text,
+        terms: chunk.terms as Record<string, number>,
+        length: chunk.length,
+      });
+    }
+  }
+
+  return { articles, chunks, indexes: new Map(), version: fingerprint(articles) };
+}
+
+// A conversation sees the articles written in its language, plus the
+// default-language ones that have no published translation into it
+function visibleArticles(articles: KnowledgeEntry[], locale: Locale): Set<string> {
+  const translated = new Set(
+    articles.filter((article) => article.locale === locale).map((article) => article.translationOfId)
+  );
+  return new Set(
+    articles
+      .filter(
+        (article) => article.locale === locale || (article.locale === DEFAULT_LOCALE && !translated.has(article.id))
+      )
+      .map((article) => article.id)
+  );
+}
+
+function localeIndex(snapshot: KnowledgeSnapshot, locale: Locale): BM25Index<IndexedChunk> {
+  let index = snapshot.indexes.get(locale);
+  if (!index) {
+    const visible = visibleArticles(snapshot.articles, locale);
+    index = new BM25Index(snapshot.chunks.filter((chunk) => visible.has(chunk.articleId)));
+    snapshot.indexes.set(locale, index);
+  }
+  return index;
+}
+
+export async function getKnowledgeSnapshot(workspaceId: string): Promise<KnowledgeSnapshot> {
+  const entry = cached.get(workspaceId);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.snapshot;
+  }
+
+  // Share one in-flight query between concurrent requests
+  let load = pending.get(workspaceId);
+  if (!load) {
+    const loadGeneration = generation;
+    const current: Promise<KnowledgeSnapshot> = loadSnapshot(workspaceId)
+      .then((snapshot) => {
+        // Don't cache a result that was read before the latest invalidation
+        if (loadGeneration === generation) {
+          cached.set(workspaceId, { snapshot, expiresAt: Date.now() + CACHE_TTL_MS });
+        }
+        return snapshot;
+      })
+      .finally(() => {
+        if (pending.get(workspaceId) === current) {
+          pending.delete(workspaceId);
+        }
+      });
+    pending.set(workspaceId, current);
+    load = current;
+  }
+
+  return load;
+}
+
+// Clears every workspace's snapshot; edits are rare enough that tracking
+// which workspace changed isn't worth it.
+export function invalidateKnowledgeCache(): void {
+  generation++;
+  cached.clear();
+  pending.clear();
+}
+
+export async function searchKnowledge(
+  workspaceId: string,
+  query: string,
+  locale: Locale = DEFAULT_LOCALE,
+  topK: number = DEFAULT_TOP_K
+): Promise<KnowledgeSource[]> {
+  const snapshot = await getKnowledgeSnapshot(workspaceId);
+
+  return localeIndex(snapshot, locale).search(query, topK).map(({ document, score }) => ({
+    articleId: document.articleId,
+    chunkId: document.id,
+    title: document.title,
+    text: document.text,
+    score: Math.round(score * 1000) / 1000,
+  }));
+}
+
+export function formatKnowledge(sources: KnowledgeSource[]): string {
+  return sources.map((source) => `## ${source.title}\n${source.text.trim()}`).join('\n\n');
+}
@@ -1,130 +1,539 @@
-import OpenAI from 'openai';
+import {
+  ChatMessage,
+  CompletionChunk,
+  CompletionMessage,
+  CompletionRequest,
+  countMessageTokens,
+  countTokens,
+  createProviderFromEnv,
+  getModelProfile,
+  LLM_ERRORS,
+  LLMProvider,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from '@/lib/llm';
+import { Workspace } from '@prisma/client';
+import { formatKnowledge, KnowledgeSource, searchKnowledge } from '@/lib/knowledge-base';
+import { getToolRegistry, ToolCallRecord, ToolRegistry } from '@/lib/tools';
+import { checkReply, createPiiVault, PiiStreamRedactor, PiiVault, PolicyStreamGate, ReplyGuardrail } from '@/lib/guardrails';
+import { DEFAULT_LOCALE, getWidgetMessages, LANGUAGE_NAMES, Locale } from '@/lib/i18n';
 
-export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+export type { ChatMessage } from '@/lib/llm';
+
+// Tokens spent on a reply across every tool round, the model that produced
+// it and the time from the start of the request to the last token
+export interface ReplyUsage extends TokenUsage {
+  model: string;
+  latencyMs: number;
+}
+
+// A finished reply, after the output guardrails
+export interface GeneratedReply {
+  reply: string;
+  sources: KnowledgeSource[];
+  toolCalls: ToolCallRecord[];
+  // Set when a guardrail redacted or replaced the model's reply
+  guardrail?: ReplyGuardrail;
+}
+
+export type ReplyStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'tool_call'; name: string }
+  // `reply` differs from the streamed tokens when a guardrail changed it
+  | ({ type: 'done' } & GeneratedReply)
+  | { type: 'error'; error: string }
+  // Tokens spent on this reply; sent before `done`/`error`, and also when the stream is aborted
+  | { type: 'usage'; usage: ReplyUsage };
+
+const MAX_TOOL_ITERATIONS = 4;
+
+// Upper limit on the tokens spent on earlier messages, whatever the model's
+// context window allows. Override with CONTEXT_HISTORY_TOKENS.
+const DEFAULT_HISTORY_TOKENS = 3000;
+
+const SUMMARY_MAX_TOKENS = 300;
+
+const SUMMARY_PROMPT = `You keep notes on a customer support conversation for the assistant who continues it. Update the summary with the new messages: what the customer wants, details they gave (order numbers, email addresses, products) and what has been answered, done or promised so far. Keep facts from the previous summary unless the new messages correct them. Write at most 150 words of plain prose and reply with the summary only.`;
+
+const SUMMARY_SPEAKERS: Record<string, string> = { USER: 'Customer', AI: 'Assistant', AGENT: 'Support agent' };
+
+// What the model sees of the conversation before the new message
+export interface ConversationContext {
+  history: Array<{ sender: string; text: string }>;
+  // Rolling summary of the older messages that `history` leaves out
+  summary?: string | null;
+  // Holds the PII redacted from the conversation so far, so tools the model
+  // calls with a masked value get the real one
+  pii?: PiiVault;
+  // The customer's language, when known
+  locale?: Locale | null;
 }
 
-const SYSTEM_PROMPT = `You are a helpful support agent for "SpurMart", a small e-commerce store. Answer clearly and concisely.
+// What a workspace can customize about its assistant
+export interface AssistantSettings {
+  storeName: string;
+  // Replaces the default persona prompt when set
+  persona?: string | null;
+  supportEmail: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export const DEFAULT_ASSISTANT_SETTINGS: AssistantSettings = {
+  storeName: 'SpurMart',
+  supportEmail: 'support@spurmart.com',
+  maxTokens: 500,
+  temperature: 0.7,
+};
 
-Here is what you know about our store:
+const TOOLS_PROMPT = `You can look up orders, check shipment status and start returns with the available tools. Before using them, ask the customer for their order number and the email address used to place the order. Never guess order details; only report what the tools return. If the customer is upset or needs help you cannot give, hand the conversation to a human with escalateToHuman. Email addresses, phone numbers and card numbers are masked for privacy (for example j***@example.com); pass them to the tools exactly as written.`;
 
-## Shipping Policy
-- We offer free shipping on orders over $50
-- Standard shipping takes 3-5 business days within the US
-- Express shipping (1-2 business days) is available for $12.99
-- We ship to all 50 US states and Puerto Rico
-- International shipping is not currently available
+function personaPrompt(settings: AssistantSettings): string {
+  return (
+    settings.persona ||
+    `You are a helpful support agent for "${settings.storeName}", a small e-commerce store. Answer clearly and concisely.`
+  );
+}
 
-## Return & Refund Policy
-- Returns are accepted within 30 days of purchase
-- Items must be unworn, unwashed, and in original packaging
-- Return shipping is free for defective items
-- For other returns, customer pays return shipping ($5.99 flat rate)
-- Refunds are processed within 5-7 business days of receiving the return
-- Gift cards and final sale items cannot be returned
+function languagePrompt(locale: Locale | null | undefined): string {
+  return locale
+    ? `The customer writes in ${LANGUAGE_NAMES[locale]}. Always reply in ${LANGUAGE_NAMES[locale]}, even when the store information you were given is in another language.`
+    : `Reply in the language the customer writes in.`;
+}
+
+function fallbackPrompt(settings: AssistantSettings): string {
+  return `If you don't know the answer to a question, politely say you don't have that information and suggest they contact our support team at ${settings.supportEmail}.`;
+}
+
+// The store's policies live in the knowledge base; only the passages
+// retrieved for the current question are included in the system prompt.
+export function buildSystemPrompt(
+  sources: KnowledgeSource[],
+  options: { tools?: boolean; settings?: AssistantSettings; summary?: string | null; locale?: Locale | null } = {}
+): string {
+  const settings = options.settings ?? DEFAULT_ASSISTANT_SETTINGS;
+  const sections = [personaPrompt(settings)];
+
+  if (options.summary) {
+    sections.push(`Summary of the earlier conversation with this customer:\n\n${options.summary}`);
+  }
+
+  if (sources.length > 0) {
+    sections.push(`Here is what you know about our store that is relevant to this question:\n\n${formatKnowledge(sources)}`);
+  }
+
+  if (options.tools) {
+    sections.push(TOOLS_PROMPT);
+  }
+
+  sections.push(languagePrompt(options.locale));
+  sections.push(fallbackPrompt(settings));
+
+  return sections.join('\n\n');
+}
 
-## Support Hours
-- Our support team is available Monday-Friday, 9 AM - 6 PM EST
-- Weekend support is limited to email only
-- Response time: typically within 2 hours during business hours
+// Keeps the newest messages whose tokens fit in `budget`. The selection never
+// starts with an assistant message, since some providers require the
+// conversation to open with the user.
+export function selectHistory(messages: ChatMessage[], budget: number, model: string): ChatMessage[] {
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    used += countMessageTokens([messages[start - 1]], model);
+    if (used > budget) break;
+    start--;
+  }
 
-## Payment Methods
-- We accept all major credit cards (Visa, Mastercard, Amex, Discover)
-- PayPal, Apple Pay, and Google Pay are also accepted
-- All payments are securely processed
+  while (start < messages.length && messages[start].role === 'assistant') {
+    start++;
+  }
+  return messages.slice(start);
+}
 
-If you don't know the answer to a question, politely say you don't have that information and suggest they contact our support team at support@spurmart.com.`;
+export interface LLMServiceOptions {
+  // Pass null to run without a provider (the service reports not configured)
+  provider?: LLMProvider | null;
+  // Defaults to no retrieval; getLLMService() searches the workspace's
+  // knowledge base in the conversation's language
+  retrieveKnowledge?: (query: string, locale: Locale) => Promise<KnowledgeSource[]>;
+  // Defaults to no tools; getLLMService() uses the workspace's own registry
+  tools?: ToolRegistry | null;
+  settings?: AssistantSettings;
+}
 
 export class LLMService {
-  private client: OpenAI | null = null;
-  private model: string;
+  private provider: LLMProvider | null;
+  private retrieveKnowledge: (query: string, locale: Locale) => Promise<KnowledgeSource[]>;
+  private tools: ToolRegistry | null;
+  private settings: AssistantSettings;
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.client = new OpenAI({ apiKey });
-    }
-    this.model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  constructor(options: LLMServiceOptions = {}) {
+    this.provider = options.provider !== undefined ? options.provider : createProviderFromEnv();
+    this.retrieveKnowledge = options.retrieveKnowledge ?? (async () => []);
+    this.tools = options.tools ?? null;
+    this.settings = options.settings ?? DEFAULT_ASSISTANT_SETTINGS;
   }
 
   private formatHistory(messages: Array<{ sender: string; text: string }>): ChatMessage[] {
     return messages.map((msg) => ({
-      role: msg.sender === 'user' ? 'user' : 'assistant',
+      role: msg.sender.toLowerCase() === 'user' ? 'user' : 'assistant',
       content: msg.text,
     }));
   }
 
+  // Follow-ups like "and for express?" rarely match anything on their own,
+  // so retrieval falls back to including the previous user message.
+  private async retrieveSources(
+    formattedHistory: ChatMessage[],
+    userMessage: string,
+    locale: Locale
+  ): Promise<KnowledgeSource[]> {
+    const sources = await this.retrieveKnowledge(userMessage, locale);
+    if (sources.length > 0) {
+      return sources;
+    }
+
+    const previous = formattedHistory.filter((msg) => msg.role === 'user').pop();
+    return previous ? this.retrieveKnowledge(`${previous.content}\n${userMessage}`, locale) : [];
+  }
+
+  // Tokens left for earlier messages once the system prompt, tools, new
+  // message and reply are accounted for, capped at CONTEXT_HISTORY_TOKENS
+  private historyBudget(model: string, system: string, tools: ToolDefinition[] | undefined, userMessage: string): number {
+    const limit = Number(process.env.CONTEXT_HISTORY_TOKENS) || DEFAULT_HISTORY_TOKENS;
+    const available =
+      getModelProfile(model).contextWindow -
+      countTokens(system, model) -
+      (tools ? countTokens(JSON.stringify(tools), model) : 0) -
+      countMessageTokens([{ content: userMessage }], model) -
+      this.settings.maxTokens;
+    return Math.max(0, Math.min(limit, available));
+  }
+
+  private async buildRequest(
+    provider: LLMProvider,
+    context: ConversationContext,
+    userMessage: string,
+    signal?: AbortSignal
+  ): Promise<{ request: CompletionRequest; sources: KnowledgeSource[] }> {
+    const formattedHistory = this.formatHistory(context.history);
+    const sources = await this.retrieveSources(formattedHistory, userMessage, context.locale ?? DEFAULT_LOCALE);
+    const tools = this.tools && this.tools.size > 0 ? this.tools.definitions() : undefined;
+    const system = buildSystemPrompt(sources, {
+      tools: tools !== undefined,
+      settings: this.settings,
+      summary: context.summary,
+      locale: context.locale,
+    });
+    const budget = this.historyBudget(provider.model, system, tools, userMessage);
+
+    return {
+      request: {
+        system,
+        messages: [
+          ...selectHistory(formattedHistory, budget, provider.model),
+          { role: 'user', content: userMessage },
+        ],
+        tools,
+        maxTokens: this.settings.maxTokens,
+        temperature: this.settings.temperature,
+        signal,
+      },
+      sources,
+    };
+  }
+
+  private async *callProvider(provider: LLMProvider, request: CompletionRequest, streaming: boolean): AsyncGenerator<CompletionChunk> {
+    if (streaming) {
+      yield* provider.stream(request);
+      return;
+    }
+
+    const { text, toolCalls, usage } = await provider.complete(request);
+    if (text) {
+      yield { type: 'text', text };
+    }
+    if (toolCalls.length > 0) {
+      yield { type: 'tool_calls', toolCalls };
+    }
+    if (usage) {
+      yield { type: 'usage', usage };
+    }
+  }
+
+  // Calls the model, executes any tools it asks for and feeds the results
+  // back until it answers in plain text. After MAX_TOOL_ITERATIONS rounds the
+  // tools are withheld so the model has to answer with what it has. Token
+  // usage is added to `usage` as each round reports it.
+  private async *runToolLoop(
+    provider: LLMProvider,
+    request: CompletionRequest,
+    streaming: boolean,
+    usage: TokenUsage,
+    pii: PiiVault
+  ): AsyncGenerator<{ type: 'text'; text: string } | { type: 'tool_call'; record: ToolCallRecord }> {
+    const messages: CompletionMessage[] = [...request.messages];
+    let hasText = false;
+
+    for (let iteration = 0; ; iteration++) {
+      const tools = iteration < MAX_TOOL_ITERATIONS ? request.tools : undefined;
+      let text = '';
+      let toolCalls: ToolCall[] = [];
+
+      for await (const chunk of this.callProvider(provider, { ...request, messages, tools }, streaming)) {
+        if (chunk.type === 'text') {
+          // Separate text from earlier rounds, e.g. "Let me check that for you."
+          const prefix = hasText && !text ? '\n\n' : '';
+          text += chunk.text;
+          yield { type: 'text', text: prefix + chunk.text };
+        } else if (chunk.type === 'usage') {
+          usage.inputTokens += chunk.usage.inputTokens;
+          usage.outputTokens += chunk.usage.outputTokens;
+        } else {
+          toolCalls = chunk.toolCalls;
+        }
+      }
+      hasText = hasText || text.length > 0;
+
+      if (toolCalls.length === 0 || !tools || !this.tools) {
+        return;
+      }
+
+      messages.push({ role: 'assistant', content: text, toolCalls });
+      for (const call of toolCalls) {
+        // Tools run on the real values; the model and the audit log only see masked ones
+        const executed = await this.tools.execute({ ...call, arguments: pii.restore(call.arguments) });
+        const record = { ...executed, arguments: call.arguments, result: pii.redactValue(executed.result) };
+        yield { type: 'tool_call', record };
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: JSON.stringify(record.error ? { error: record.error } : record.result),
+        });
+      }
+    }
+  }
+
+  // What policy figures in a reply may be grounded on: the store's own
+  // knowledge, tool results and persona. Never the conversation, or a
+  // customer could supply a figure and have the assistant repeat it as policy.
+  private groundingEvidence(sources: KnowledgeSource[], toolCalls: ToolCallRecord[]): string[] {
+    return [
+      ...sources.map((source) => source.text),
+      ...toolCalls.map((call) => JSON.stringify(call.result ?? null)),
+      this.settings.persona ?? '',
+    ];
+  }
+
+  // Runs the output guardrails. Canned replies are in the customer's language.
+  private finishReply(
+    reply: string,
+    sources: KnowledgeSource[],
+    toolCalls: ToolCallRecord[],
+    pii: PiiVault,
+    locale: Locale | null | undefined
+  ): GeneratedReply {
+    if (!reply) {
+      return { reply: getWidgetMessages(locale).replyEmpty, sources, toolCalls };
+    }
+
+    const evidence = this.groundingEvidence(sources, toolCalls);
+    const checked = checkReply(reply, pii, evidence, this.settings.supportEmail, locale);
+    return { reply: checked.reply, sources, toolCalls, guardrail: checked.guardrail };
+  }
+
   async generateReply(
-    history: Array<{ sender: string; text: string }>,
+    context: ConversationContext,
     userMessage: string
-  ): Promise<{ reply: string; error?: string }> {
-    if (!this.client) {
+  ): Promise<Partial<GeneratedReply> & { reply: string; error?: string; usage?: ReplyUsage }> {
+    if (!this.provider) {
       return {
         reply: '',
-        error: 'LLM service not configured. Please check API key.',
+        error: LLM_ERRORS.notConfigured,
       };
     }
 
-    try {
-      const formattedHistory = this.formatHistory(history);
+    const toolCalls: ToolCallRecord[] = [];
+    const usage: ReplyUsage = { model: this.provider.model, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+    const pii = context.pii ?? createPiiVault([this.settings.supportEmail]);
+    const startedAt = Date.now();
 
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          ...formattedHistory.slice(-10), // Keep last 10 messages for context
-          { role: 'user', content: userMessage },
-        ],
-        max_tokens: 500,
-        temperature: 0.7,
-      });
+    try {
+      const { request, sources } = await this.buildRequest(this.provider, context, userMessage);
 
-      const reply = response.choices[0]?.message?.content || "I apologize, but I couldn't generate a response. Please try again.";
+      let reply = '';
+      for await (const event of this.runToolLoop(this.provider, request, false, usage, pii)) {
+        if (event.type === 'text') {
+          reply += event.text;
+        } else {
+          toolCalls.push(event.record);
+        }
+      }
 
-      return { reply };
+      usage.latencyMs = Date.now() - startedAt;
+      return { ...this.finishReply(reply, sources, toolCalls, pii, context.locale), usage };
     } catch (error) {
-      console.error('LLM API error:', error);
-
-      if (error instanceof OpenAI.APIError) {
-        if (error.status === 401) {
-          return {
-            reply: '',
-            error: 'Invalid API key. Please contact support.',
-          };
-        }
-        if (error.status === 429) {
-          return {
-            reply: '',
-            error: 'Service is experiencing high demand. Please try again in a moment.',
-          };
-        }
-        if (error.status === 500 || error.status === 502 || error.status === 503) {
-          return {
-            reply: '',
-            error: 'Our AI service is temporarily unavailable. Please try again.',
-          };
-        }
+      console.error(`LLM API error (${this.provider.name}):`, error);
+      if (toolCalls.length > 0) {
+        console.error('Tool calls executed before the error:', JSON.stringify(toolCalls));
       }
 
+      usage.latencyMs = Date.now() - startedAt;
       return {
         reply: '',
-        error: 'Something went wrong. Please try again.',
+        error: this.provider.toErrorMessage(error),
+        usage,
       };
     }
   }
 
+  // Yields the reply token by token as the provider produces it, masked as it
+  // goes, except that sentences stating policy figures are held until they
+  // pass the grounding check. The stream ends with a `usage` event followed by exactly one
+  // `done` or `error` event; aborting via `signal` ends it after `usage`
+  // without either.
+  async *streamReply(
+    context: ConversationContext,
+    userMessage: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<ReplyStreamEvent> {
+    if (!this.provider) {
+      yield { type: 'error', error: LLM_ERRORS.notConfigured };
+      return;
+    }
+
+    let reply = '';
+    let streamed = '';
+    let sources: KnowledgeSource[] = [];
+    const toolCalls: ToolCallRecord[] = [];
+    const usage: ReplyUsage = { model: this.provider.model, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+    const pii = context.pii ?? createPiiVault([this.settings.supportEmail]);
+    const redactor = new PiiStreamRedactor(pii);
+    const gate = new PolicyStreamGate(() => this.groundingEvidence(sources, toolCalls));
+    const startedAt = Date.now();
+
+    try {
+      const built = await this.buildRequest(this.provider, context, userMessage, signal);
+      sources = built.sources;
+
+      for await (const event of this.runToolLoop(this.provider, built.request, true, usage, pii)) {
+        if (event.type === 'text') {
+          reply += event.text;
+          const released = gate.push(redactor.push(event.text));
+          if (released) {
+            streamed += released;
+            yield { type: 'token', text: released };
+          }
+        } else {
+          toolCalls.push(event.record);
+          yield { type: 'tool_call', name: event.record.name };
+        }
+      }
+    } catch (error) {
+      usage.latencyMs = Date.now() - startedAt;
+      yield { type: 'usage', usage };
+      if (signal?.aborted) {
+        return;
+      }
+
+      console.error(`LLM API stream error (${this.provider.name}):`, error);
+      if (toolCalls.length > 0) {
+        console.error('Tool calls executed before the error:', JSON.stringify(toolCalls));
+      }
+      yield { type: 'error', error: this.provider.toErrorMessage(error) };
+      return;
+    }
+
+    usage.latencyMs = Date.now() - startedAt;
+    yield { type: 'usage', usage };
+    if (signal?.aborted) {
+      return;
+    }
+
+    // Send whatever the gate held back, unless a guardrail changed text that
+    // already went out; `done` then carries the replacement
+    const finished = this.finishReply(reply, sources, toolCalls, pii, context.locale);
+    if (finished.reply.startsWith(streamed) && finished.reply.length > streamed.length) {
+      yield { type: 'token', text: finished.reply.slice(streamed.length) };
+    }
+
+    yield { type: 'done', ...finished };
+  }
+
+  // Folds `messages` into the conversation's running summary. Throws when the
+  // provider fails; the caller keeps the previous summary.
+  async summarize(
+    previousSummary: string | null,
+    messages: Array<{ sender: string; text: string }>
+  ): Promise<{ summary: string; usage?: ReplyUsage }> {
+    const transcript = messages
+      .map((msg) => `${SUMMARY_SPEAKERS[msg.sender] ?? msg.sender}: ${msg.text}`)
+      .join('\n');
+    const { text, usage } = await this.completeTask(
+      SUMMARY_PROMPT,
+      `Previous summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcript}`,
+      { maxTokens: SUMMARY_MAX_TOKENS, temperature: 0.2 }
+    );
+
+    return { summary: text.trim(), usage };
+  }
+
+  // A single prompt outside the conversation, such as labelling a message,
+  // with none of the assistant's persona, knowledge or tools. Usage is
+  // omitted when the provider reports none. Throws when the provider fails.
+  async completeTask(
+    system: string,
+    content: string,
+    options: { maxTokens: number; temperature: number }
+  ): Promise<{ text: string; usage?: ReplyUsage }> {
+    if (!this.provider) {
+      throw new Error(LLM_ERRORS.notConfigured);
+    }
+
+    const startedAt = Date.now();
+    const { text, usage } = await this.provider.complete({
+      system,
+      messages: [{ role: 'user', content }],
+      ...options,
+    });
+    return {
+      text,
+      usage: usage && { ...usage, model: this.provider.model, latencyMs: Date.now() - startedAt },
+    };
+  }
+
   isConfigured(): boolean {
-    return this.client !== null;
+    return this.provider !== null;
   }
 }
 
-// Singleton instance
-let llmServiceInstance: LLMService | null = null;
+export function toAssistantSettings(workspace: Workspace): AssistantSettings {
+  return {
+    storeName: workspace.name,
+    persona: workspace.persona,
+    supportEmail: workspace.supportEmail,
+    maxTokens: workspace.maxTokens,
+    temperature: workspace.temperature,
+  };
+}
+
+// One instance per workspace, rebuilt when the workspace's settings change
+const llmServices = new Map<string, { service: LLMService; updatedAt: number }>();
 
-export function getLLMService(): LLMService {
-  if (!llmServiceInstance) {
-    llmServiceInstance = new LLMService();
+export function getLLMService(workspace: Workspace): LLMService {
+  const entry = llmServices.get(workspace.id);
+  if (entry && entry.updatedAt === workspace.updatedAt.getTime()) {
+    return entry.service;
   }
-  return llmServiceInstance;
+
+  const service = new LLMService({
+    provider: createProviderFromEnv(process.env, { provider: workspace.llmProvider, model: workspace.llmModel }),
+    retrieveKnowledge: (query, locale) => searchKnowledge(workspace.id, query, locale),
+    tools: getToolRegistry(workspace),
+    settings: toAssistantSettings(workspace),
+  });
+  llmServices.set(workspace.id, { service, updatedAt: workspace.updatedAt.getTime() });
+  return service;
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  CompletionChunk,
+  CompletionMessage,
+  CompletionRequest,
+  CompletionResult,
+  LLM_ERRORS,
+  LLMProvider,
+  parseToolArguments,
+  ToolCall,
+} from './types';
+
+type ContentBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam | Anthropic.ToolResultBlockParam;
+
+function toContentBlocks(message: CompletionMessage): ContentBlock[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+  }
+
+  const blocks: ContentBlock[] = message.content ? [{ type: 'text', text: message.content }] : [];
+  if (message.role === 'assistant') {
+    for (const call of message.toolCalls || []) {
+      blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments ?? {} });
+    }
+  }
+  return blocks;
+}
+
+// The Messages API expects the conversation to open with a user turn and
+// roles to alternate, so consecutive turns from the same role are merged.
+// Tool results are sent as content of a user turn.
+function toAnthropicMessages(messages: CompletionMessage[]): Anthropic.MessageParam[] {
+  const result: Array<{ role: 'user' | 'assistant'; content: ContentBlock[] }> = [];
+
+  for (const message of messages) {
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    if (result.length === 0 && role !== 'user') continue;
+
+    const blocks = toContentBlocks(message);
+    if (blocks.length === 0) continue;
+
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+
+  return result;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  private toParams(request: CompletionRequest) {
+    return {
+      model: this.model,
+      system: request.system,
+      messages: toAnthropicMessages(request.messages),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+            })),
+          }
+        : {}),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.messages.create(this.toParams(request), {
+      signal: request.signal,
+    });
+
+    let text = '';
+    const toolCalls: ToolCall[] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        text += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: block.input });
+      }
+    }
+
+    return {
+      text,
+      toolCalls,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const stream = await this.client.messages.create(
+      { ...this.toParams(request), stream: true },
+      { signal: request.signal }
+    );
+
+    // Tool input arrives as partial JSON per content block
+    const pendingCalls = new Map<number, { id: string; name: string; json: string }>();
+    // Input tokens are reported when the message starts, output tokens as it ends
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        usage.inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        usage.outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+        pendingCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          yield { type: 'text', text: event.delta.text };
+        } else if (event.delta.type === 'input_json_delta') {
+          const call = pendingCalls.get(event.index);
+          if (call) call.json += event.delta.partial_json;
+        }
+      }
+    }
+
+    const toolCalls = Array.from(pendingCalls.values()).map((call) => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseToolArguments(call.json),
+    }));
+    if (toolCalls.length > 0) {
+      yield { type: 'tool_calls', toolCalls };
+    }
+    yield { type: 'usage', usage };
+  }
+
+  toErrorMessage(error: unknown): string {
+    if (error instanceof Anthropic.APIError) {
+      if (error.status === 401) {
+        return LLM_ERRORS.invalidKey;
+      }
+      if (error.status === 429) {
+        return LLM_ERRORS.rateLimited;
+      }
+      // 529 is Anthropic's "overloaded" status
+      if (error.status === 500 || error.status === 502 || error.status === 503 || error.status === 529) {
+        return LLM_ERRORS.unavailable;
+      }
+    }
+
+    return LLM_ERRORS.generic;
+  }
+}
@@ -0,0 +1,47 @@
+import { AnthropicProvider } from './anthropic-provider';
+import { MockProvider } from './mock-provider';
+import { OpenAIProvider } from './openai-provider';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { AnthropicProvider } from './anthropic-provider';
+export { MockProvider, MockProviderError } from './mock-provider';
+export { OpenAIProvider } from './openai-provider';
+export { countMessageTokens, countTokens, getModelProfile } from './tokens';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+export interface ProviderOverrides {
+  provider?: string | null;
+  model?: string | null;
+}
+
+// Picks the provider from LLM_PROVIDER. When it is unset the first provider
+// with an API key wins (OpenAI, then Anthropic), so existing deployments keep
+// working unchanged. Returns null when the chosen provider has no API key.
+// `overrides` (per-workspace settings) replace the provider and model, but
+// API keys always come from the environment.
+export function createProviderFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  overrides: ProviderOverrides = {}
+): LLMProvider | null {
+  const name = (overrides.provider?.toLowerCase() ||
+    env.LLM_PROVIDER?.toLowerCase() ||
+    (env.OPENAI_API_KEY ? 'openai' : env.ANTHROPIC_API_KEY ? 'anthropic' : 'openai')) as LLMProviderName;
+
+  switch (name) {
+    case 'openai':
+      return env.OPENAI_API_KEY
+        ? new OpenAIProvider(env.OPENAI_API_KEY, overrides.model || env.OPENAI_MODEL || 'gpt-4o-mini')
+        : null;
+    case 'anthropic':
+      return env.ANTHROPIC_API_KEY
+        ? new AnthropicProvider(env.ANTHROPIC_API_KEY, overrides.model || env.ANTHROPIC_MODEL || 'claude-haiku-4-5')
+        : null;
+    case 'mock':
+      return new MockProvider();
+    default:
+      console.error(`Unknown LLM provider "${overrides.provider || env.LLM_PROVIDER}"`);
+      return null;
+  }
+}
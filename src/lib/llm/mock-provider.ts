@@ -0,0 +1,120 @@
+import { CompletionChunk, CompletionRequest, CompletionResult, LLM_ERRORS, LLMProvider, TokenUsage } from './types';
+
+export interface MockScriptRule {
+  pattern: RegExp;
+  reply: string;
+}
+
+// Thrown when a message contains `[mock-error:<status>]`, so error handling
+// can be exercised locally without a real provider.
+export class MockProviderError extends Error {
+  constructor(readonly status: number) {
+    super(`Mock provider error ${status}`);
+    this.name = 'MockProviderError';
+  }
+}
+
+const MOCK_ERROR_PATTERN = /\[mock-error:(\d{3})\]/;
+const ORDER_NUMBER_PATTERN = /\b([A-Z]{2}-\d{4,})\b/i;
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/;
+
+const DEFAULT_SCRIPT: MockScriptRule[] = [
+  {
+    pattern: /\b(return|refund)/i,
+    reply: 'Returns are accepted within 30 days of purchase. Items must be unworn, unwashed, and in original packaging.',
+  },
+  {
+    pattern: /\b(ship|shipping|deliver)/i,
+    reply: 'We offer free shipping on orders over $50. Standard shipping takes 3-5 business days within the US.',
+  },
+  {
+    pattern: /\b(pay|payment|card|paypal)/i,
+    reply: 'We accept all major credit cards, PayPal, Apple Pay, and Google Pay.',
+  },
+  {
+    pattern: /\b(hours|available|open)\b/i,
+    reply: 'Our support team is available Monday-Friday, 9 AM - 6 PM EST.',
+  },
+];
+
+// Rough count (~4 characters per token) so usage limits can be exercised offline
+function estimateUsage(request: CompletionRequest, output: string): TokenUsage {
+  const input = request.system + request.messages.map((msg) => msg.content).join('');
+  return { inputTokens: Math.ceil(input.length / 4), outputTokens: Math.ceil(output.length / 4) };
+}
+
+// Deterministic offline provider for tests and local development. Replies
+// come from the first matching script rule, otherwise the user's message is
+// echoed back. No API key or network access is needed.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+
+  constructor(private script: MockScriptRule[] = DEFAULT_SCRIPT) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const last = request.messages[request.messages.length - 1];
+
+    // Summarize tool output once the service has run the requested calls
+    if (last?.role === 'tool') {
+      const summary = `Here's what I found: ${last.content}`;
+      return { text: summary, toolCalls: [], usage: estimateUsage(request, summary) };
+    }
+
+    const userMessage = [...request.messages].reverse().find((msg) => msg.role === 'user');
+    const text = userMessage?.content ?? '';
+
+    const errorMatch = text.match(MOCK_ERROR_PATTERN);
+    if (errorMatch) {
+      throw new MockProviderError(Number(errorMatch[1]));
+    }
+
+    // Mentioning an order number and email triggers a scripted tool call
+    const orderNumber = text.match(ORDER_NUMBER_PATTERN)?.[1];
+    const email = text.match(EMAIL_PATTERN)?.[0];
+    const toolName = /\b(ship|track|where)/i.test(text) ? 'getShipmentStatus' : 'lookupOrder';
+    if (orderNumber && email && request.tools?.some((tool) => tool.name === toolName)) {
+      return {
+        text: '',
+        toolCalls: [{ id: `mock-call-${request.messages.length}`, name: toolName, arguments: { orderNumber, email } }],
+        usage: estimateUsage(request, ''),
+      };
+    }
+
+    const rule = this.script.find((r) => r.pattern.test(text));
+    const reply = rule ? rule.reply : `You said: "${text}"`;
+    return { text: reply, toolCalls: [], usage: estimateUsage(request, reply) };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const { text, toolCalls, usage } = await this.complete(request);
+
+    for (const word of text.split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return;
+      if (word) yield { type: 'text', text: word };
+    }
+
+    if (toolCalls.length > 0) {
+      yield { type: 'tool_calls', toolCalls };
+    }
+    if (usage) {
+      yield { type: 'usage', usage };
+    }
+  }
+
+  toErrorMessage(error: unknown): string {
+    if (error instanceof MockProviderError) {
+      if (error.status === 401) {
+        return LLM_ERRORS.invalidKey;
+      }
+      if (error.status === 429) {
+        return LLM_ERRORS.rateLimited;
+      }
+      if (error.status >= 500) {
+        return LLM_ERRORS.unavailable;
+      }
+    }
+
+    return LLM_ERRORS.generic;
+  }
+}
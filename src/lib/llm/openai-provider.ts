@@ -0,0 +1,139 @@
+import OpenAI from 'openai';
+import {
+  CompletionChunk,
+  CompletionMessage,
+  CompletionRequest,
+  CompletionResult,
+  LLM_ERRORS,
+  LLMProvider,
+  parseToolArguments,
+  ToolCall,
+} from './types';
+
+function toOpenAIMessage(message: CompletionMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  private toParams(request: CompletionRequest) {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system' as const, content: request.system },
+        ...request.messages.map(toOpenAIMessage),
+      ],
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map((tool) => ({
+              type: 'function' as const,
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            })),
+          }
+        : {}),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create(this.toParams(request), {
+      signal: request.signal,
+    });
+
+    const message = response.choices[0]?.message;
+    const toolCalls: ToolCall[] = (message?.tool_calls || []).flatMap((call) =>
+      call.type === 'function'
+        ? [{ id: call.id, name: call.function.name, arguments: parseToolArguments(call.function.arguments) }]
+        : []
+    );
+
+    return {
+      text: message?.content || '',
+      toolCalls,
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const stream = await this.client.chat.completions.create(
+      { ...this.toParams(request), stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+
+    // Tool call ids, names and arguments arrive in fragments keyed by index
+    const pendingCalls: Array<{ id: string; name: string; arguments: string }> = [];
+    let usage: OpenAI.CompletionUsage | null | undefined;
+
+    for await (const chunk of stream) {
+      // Sent on a final chunk with no choices
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        yield { type: 'text', text: delta.content };
+      }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = (pendingCalls[fragment.index] ??= { id: '', name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    const toolCalls = pendingCalls.filter(Boolean).map((call) => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments),
+    }));
+    if (toolCalls.length > 0) {
+      yield { type: 'tool_calls', toolCalls };
+    }
+    if (usage) {
+      yield { type: 'usage', usage: { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } };
+    }
+  }
+
+  toErrorMessage(error: unknown): string {
+    if (error instanceof OpenAI.APIError) {
+      if (error.status === 401) {
+        return LLM_ERRORS.invalidKey;
+      }
+      if (error.status === 429) {
+        return LLM_ERRORS.rateLimited;
+      }
+      if (error.status === 500 || error.status === 502 || error.status === 503) {
+        return LLM_ERRORS.unavailable;
+      }
+    }
+
+    return LLM_ERRORS.generic;
+  }
+}
@@ -0,0 +1,39 @@
+// Approximate token counting. No tokenizer ships with the app, so counts use
+// each model family's average characters per token, which is close enough
+// for budgeting the prompt. Usage reported by the provider stays the source
+// of truth for the token budget.
+
+interface ModelProfile {
+  contextWindow: number;
+  charsPerToken: number;
+}
+
+const MODEL_PROFILES: Array<{ pattern: RegExp; profile: ModelProfile }> = [
+  { pattern: /^gpt-4\.1/, profile: { contextWindow: 1_000_000, charsPerToken: 4 } },
+  { pattern: /^(gpt-4o|gpt-4-turbo|gpt-5|o\d)/, profile: { contextWindow: 128_000, charsPerToken: 4 } },
+  { pattern: /^gpt-3\.5/, profile: { contextWindow: 16_000, charsPerToken: 4 } },
+  { pattern: /^claude/, profile: { contextWindow: 200_000, charsPerToken: 3.5 } },
+];
+
+// Unknown models (and the mock provider) get a conservative window
+const DEFAULT_PROFILE: ModelProfile = { contextWindow: 8_000, charsPerToken: 4 };
+
+// Role markers and separators the API adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Characters outside the Latin scripts (CJK, emoji, ...) tend to cost about
+// a token each rather than a fraction of one
+const WIDE_CHARACTERS = /[^\x00-\u024f]/g;
+
+export function getModelProfile(model: string): ModelProfile {
+  return MODEL_PROFILES.find(({ pattern }) => pattern.test(model))?.profile ?? DEFAULT_PROFILE;
+}
+
+export function countTokens(text: string, model: string): number {
+  const wide = text.match(WIDE_CHARACTERS)?.length ?? 0;
+  return Math.ceil((text.length - wide) / getModelProfile(model).charsPerToken) + wide;
+}
+
+export function countMessageTokens(messages: Array<{ content: string }>, model: string): number {
+  return messages.reduce((total, message) => total + countTokens(message.content, model) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
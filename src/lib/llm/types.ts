@@ -0,0 +1,82 @@
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the tool's arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // Parsed from the provider's JSON; validated by the tool registry
+  arguments: unknown;
+}
+
+export type CompletionMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface CompletionRequest {
+  system: string;
+  messages: CompletionMessage[];
+  tools?: ToolDefinition[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  toolCalls: ToolCall[];
+  // Omitted when the provider doesn't report usage
+  usage?: TokenUsage;
+}
+
+// Streams emit text as it arrives; any tool calls are emitted once, after
+// the model has finished producing them, followed by the token usage.
+export type CompletionChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_calls'; toolCalls: ToolCall[] }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  stream(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+
+  // Maps a provider-specific error onto one of the LLM_ERRORS messages
+  toErrorMessage(error: unknown): string;
+}
+
+// Customer-facing messages shared by every provider so that switching
+// backends does not change what the widget shows when something fails.
+export const LLM_ERRORS = {
+  notConfigured: 'LLM service not configured. Please check API key.',
+  invalidKey: 'Invalid API key. Please contact support.',
+  rateLimited: 'Service is experiencing high demand. Please try again in a moment.',
+  unavailable: 'Our AI service is temporarily unavailable. Please try again.',
+  generic: 'Something went wrong. Please try again.',
+} as const;
+
+export function parseToolArguments(json: string): unknown {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    // Left as a string so validation reports it as invalid arguments
+    return json;
+  }
+}
@@ -0,0 +1,24 @@
+import { MailMessage, Mailer } from './types';
+
+// Keeps only the most recent messages so a long-running dev server doesn't grow
+const MAX_KEPT_MESSAGES = 100;
+
+// Local stand-in that prints mail to the server console instead of sending
+// it, so magic links can be followed in development. The latest messages are
+// also captured in `sent` for tests.
+export class ConsoleMailer implements Mailer {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > MAX_KEPT_MESSAGES) {
+      this.sent.shift();
+    }
+
+    const from = message.from ? `\n[mail] From: ${message.from}` : '';
+    const inReplyTo = message.references?.length ? `\n[mail] In-Reply-To: ${message.references.at(-1)}` : '';
+    console.log(
+      `\n[mail] To: ${message.to}${from}\n[mail] Subject: ${message.subject}${inReplyTo}\n\n${message.text}\n`
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { ConsoleMailer } from './console-mailer';
+import { SmtpMailer } from './smtp-mailer';
+import { Mailer } from './types';
+
+export * from './types';
+export { ConsoleMailer } from './console-mailer';
+export { extractAddress } from './mime';
+export { SmtpMailer } from './smtp-mailer';
+
+const DEFAULT_MAIL_FROM = 'SpurMart Support <support@localhost>';
+
+let mailerInstance: Mailer | null = null;
+
+// Sender address for mail that isn't tied to a workspace inbox
+export function getDefaultFromAddress(): string {
+  return process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+}
+
+// SMTP_HOST switches from the console stand-in to a real SMTP transport
+export function getMailer(): Mailer {
+  if (!mailerInstance) {
+    const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD } = process.env;
+    if (SMTP_HOST) {
+      const port = Number(SMTP_PORT) || 587;
+      mailerInstance = new SmtpMailer({
+        host: SMTP_HOST,
+        port,
+        secure: SMTP_SECURE ? SMTP_SECURE === 'true' : port === 465,
+        user: SMTP_USER,
+        password: SMTP_PASSWORD,
+        from: getDefaultFromAddress(),
+      });
+    } else {
+      mailerInstance = new ConsoleMailer();
+    }
+  }
+  return mailerInstance;
+}
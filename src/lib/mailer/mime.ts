@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import { MailMessage } from './types';
+
+// Builds a plain-text RFC 5322 message for sending over SMTP
+
+const BASE64_LINE_LENGTH = 76;
+
+// Customer-supplied text (e.g. an email subject) ends up in headers, so line
+// breaks are removed to stop header injection
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// RFC 2047 encoded-word for non-ASCII header text
+function encodeHeaderText(value: string): string {
+  const text = singleLine(value);
+  return /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text).toString('base64')}?=`;
+}
+
+// "Name <address>" or a bare address; returns the address part
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^<>]+)>\s*$/);
+  const address = singleLine(match ? match[1] : value);
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new Error(`Invalid email address: ${value}`);
+  }
+  return address;
+}
+
+function formatAddress(value: string): string {
+  const address = extractAddress(value);
+  const name = value.match(/^(.*?)\s*<[^<>]+>\s*$/)?.[1].replace(/^"|"$/g, '');
+  return name ? `${encodeHeaderText(name)} <${address}>` : address;
+}
+
+function wrap(text: string, width: number): string {
+  const lines = [];
+  for (let i = 0; i < text.length; i += width) {
+    lines.push(text.slice(i, i + width));
+  }
+  return lines.join('\r\n');
+}
+
+export function buildMimeMessage(message: MailMessage & { from: string }): string {
+  const domain = extractAddress(message.from).split('@')[1];
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+  ];
+
+  const references = (message.references ?? []).map(singleLine).filter(Boolean);
+  if (references.length > 0) {
+    headers.push(`In-Reply-To: ${references[references.length - 1]}`, `References: ${references.join(' ')}`);
+  }
+
+  headers.push('MIME-Version: 1.0', 'Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64');
+
+  // Base64 keeps lines short and needs no escaping for non-ASCII text
+  const body = wrap(Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64'), BASE64_LINE_LENGTH);
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
@@ -0,0 +1,182 @@
+import net from 'net';
+import tls from 'tls';
+import { buildMimeMessage, extractAddress } from './mime';
+import { MailMessage, Mailer } from './types';
+
+// Inactivity timeout for each step of the conversation with the server
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (port 465). Otherwise the connection is
+  // upgraded with STARTTLS when the server offers it.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Default From address
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// One SMTP session. Reads the server's replies, which may span several
+// "250-..." lines, and hands them out one command at a time.
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      const connection = new SmtpConnection(socket);
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(connection));
+      socket.once('error', reject);
+    });
+  }
+
+  get isEncrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.pendingLines.push(line.slice(4));
+
+      // "250-" continues the reply, "250 " ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.deliver();
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  // Waits for the next reply and checks its code
+  read(expected: number[]): Promise<SmtpReply> {
+    return new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    }).then((reply) => {
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    });
+  }
+
+  command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  // Switches the session to TLS after a successful STARTTLS
+  upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host });
+      this.attach(secure);
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+// Lines starting with "." are escaped, and the message ends with a lone "."
+function dataBlock(content: string): string {
+  return `${content.replace(/^\./gm, '..')}\r\n.`;
+}
+
+// Sends mail straight to an SMTP server (a relay such as SES, Postmark or
+// Mailgun, or a local capture server like Mailpit)
+export class SmtpMailer implements Mailer {
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const from = message.from ?? this.config.from;
+    const content = buildMimeMessage({ ...message, from });
+    const heloName = extractAddress(from).split('@')[1];
+
+    const connection = await SmtpConnection.open(this.config);
+    try {
+      await connection.read([220]);
+      const ehlo = await connection.command(`EHLO ${heloName}`, 250);
+
+      if (!connection.isEncrypted && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(this.config.host);
+        await connection.command(`EHLO ${heloName}`, 250);
+      }
+
+      if (this.config.user) {
+        if (!connection.isEncrypted) {
+          throw new Error('SMTP server does not support TLS; refusing to send credentials in plain text');
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(from)}>`, 250);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, 250, 251);
+      await connection.command('DATA', 354);
+      await connection.command(dataBlock(content), 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
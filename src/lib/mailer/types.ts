@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  // Defaults to MAIL_FROM
+  from?: string;
+  // Message-IDs (with angle brackets) of earlier messages in the thread, oldest
+  // first. The last one is also sent as In-Reply-To.
+  references?: string[];
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { Workspace } from '@prisma/client';
+import { InMemoryOrderAdapter } from './memory-adapter';
+import { OrderDataAdapter } from './types';
+
+export * from './types';
+export { InMemoryOrderAdapter } from './memory-adapter';
+
+// Values of Workspace.orderAdapter. Only the seeded in-memory adapter ships
+// with the app; add an adapter backed by the real order system here.
+export const ORDER_ADAPTERS = ['memory'] as const;
+
+export type OrderAdapterName = (typeof ORDER_ADAPTERS)[number];
+
+function createOrderDataAdapter(name: OrderAdapterName): OrderDataAdapter {
+  switch (name) {
+    case 'memory':
+      return new InMemoryOrderAdapter();
+  }
+}
+
+// One adapter per workspace, so one store's orders are never looked up by
+// another store's assistant and in-memory returns survive settings changes
+const adapters = new Map<string, { name: string; adapter: OrderDataAdapter }>();
+
+export function getOrderDataAdapter(workspace: Pick<Workspace, 'id' | 'orderAdapter'>): OrderDataAdapter | null {
+  const name = workspace.orderAdapter;
+  if (!name || !(ORDER_ADAPTERS as readonly string[]).includes(name)) {
+    return null;
+  }
+
+  const entry = adapters.get(workspace.id);
+  if (entry && entry.name === name) {
+    return entry.adapter;
+  }
+
+  const adapter = createOrderDataAdapter(name as OrderAdapterName);
+  adapters.set(workspace.id, { name, adapter });
+  return adapter;
+}
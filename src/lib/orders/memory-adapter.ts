@@ -0,0 +1,122 @@
+import { Order, OrderDataAdapter, ReturnRequest, Shipment } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS);
+}
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * DAY_MS);
+}
+
+// Dates are relative to startup so the seeded orders always fall inside or
+// outside the return window the same way.
+function seedOrders(): Order[] {
+  return [
+    {
+      orderNumber: 'SM-10001',
+      email: 'alex@example.com',
+      status: 'shipped',
+      placedAt: daysAgo(2),
+      total: 64.5,
+      items: [
+        { sku: 'TEE-BLK-M', name: 'Classic Tee (Black, M)', quantity: 2, price: 19.5 },
+        { sku: 'CAP-NVY', name: 'Logo Cap (Navy)', quantity: 1, price: 25.5 },
+      ],
+    },
+    {
+      orderNumber: 'SM-10002',
+      email: 'jordan@example.com',
+      status: 'delivered',
+      placedAt: daysAgo(12),
+      deliveredAt: daysAgo(8),
+      total: 89.0,
+      items: [
+        { sku: 'HOOD-GRY-L', name: 'Zip Hoodie (Grey, L)', quantity: 1, price: 59.0 },
+        { sku: 'SOCK-3PK', name: 'Crew Socks 3-Pack', quantity: 1, price: 30.0, finalSale: true },
+      ],
+    },
+    {
+      orderNumber: 'SM-10003',
+      email: 'sam@example.com',
+      status: 'processing',
+      placedAt: daysAgo(0),
+      total: 42.0,
+      items: [{ sku: 'MUG-WHT', name: 'Ceramic Mug (White)', quantity: 2, price: 21.0 }],
+    },
+    {
+      orderNumber: 'SM-10004',
+      email: 'alex@example.com',
+      status: 'delivered',
+      placedAt: daysAgo(50),
+      deliveredAt: daysAgo(45),
+      total: 120.0,
+      items: [{ sku: 'JKT-OLV-M', name: 'Field Jacket (Olive, M)', quantity: 1, price: 120.0 }],
+    },
+  ];
+}
+
+function seedShipments(): Shipment[] {
+  return [
+    {
+      orderNumber: 'SM-10001',
+      carrier: 'UPS',
+      trackingNumber: '1Z999AA10123456784',
+      status: 'in_transit',
+      estimatedDelivery: daysFromNow(2),
+      events: [
+        { at: daysAgo(1), location: 'Columbus, OH', description: 'Departed facility' },
+        { at: daysAgo(2), location: 'Columbus, OH', description: 'Picked up' },
+      ],
+    },
+    {
+      orderNumber: 'SM-10002',
+      carrier: 'USPS',
+      trackingNumber: '9400111899223344556677',
+      status: 'delivered',
+      events: [
+        { at: daysAgo(8), location: 'Austin, TX', description: 'Delivered, front door' },
+        { at: daysAgo(10), location: 'Dallas, TX', description: 'In transit' },
+      ],
+    },
+    {
+      orderNumber: 'SM-10004',
+      carrier: 'FedEx',
+      trackingNumber: '794612345678',
+      status: 'delivered',
+      events: [{ at: daysAgo(45), location: 'Denver, CO', description: 'Delivered' }],
+    },
+  ];
+}
+
+export class InMemoryOrderAdapter implements OrderDataAdapter {
+  private orders: Map<string, Order>;
+  private shipments: Map<string, Shipment>;
+  private returns: ReturnRequest[] = [];
+
+  constructor(orders: Order[] = seedOrders(), shipments: Shipment[] = seedShipments()) {
+    this.orders = new Map(orders.map((order) => [order.orderNumber, order]));
+    this.shipments = new Map(shipments.map((shipment) => [shipment.orderNumber, shipment]));
+  }
+
+  async findOrder(orderNumber: string): Promise<Order | null> {
+    return this.orders.get(orderNumber) ?? null;
+  }
+
+  async getShipment(orderNumber: string): Promise<Shipment | null> {
+    return this.shipments.get(orderNumber) ?? null;
+  }
+
+  async createReturn(orderNumber: string, skus: string[], reason: string): Promise<ReturnRequest> {
+    const request: ReturnRequest = {
+      returnId: `RMA-${String(this.returns.length + 1).padStart(5, '0')}`,
+      orderNumber,
+      skus,
+      reason,
+      createdAt: new Date(),
+    };
+    this.returns.push(request);
+    return request;
+  }
+}
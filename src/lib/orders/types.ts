@@ -0,0 +1,58 @@
+export type OrderStatus = 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  price: number;
+  finalSale?: boolean;
+}
+
+export interface Order {
+  orderNumber: string;
+  email: string;
+  status: OrderStatus;
+  placedAt: Date;
+  deliveredAt?: Date;
+  total: number;
+  items: OrderItem[];
+}
+
+export interface ShipmentEvent {
+  at: Date;
+  location: string;
+  description: string;
+}
+
+export interface Shipment {
+  orderNumber: string;
+  carrier: string;
+  trackingNumber: string;
+  status: 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered';
+  estimatedDelivery?: Date;
+  events: ShipmentEvent[];
+}
+
+export interface ReturnRequest {
+  returnId: string;
+  orderNumber: string;
+  skus: string[];
+  reason: string;
+  createdAt: Date;
+}
+
+// A workspace's return rules, as the startReturn tool applies and reports them
+export interface ReturnPolicy {
+  windowDays: number;
+  // What the customer is told happens next; left to the knowledge base when null
+  instructions: string | null;
+}
+
+// Source of order data for the assistant's tools. The in-memory adapter is a
+// seeded stand-in; a real deployment implements this against the store's
+// commerce backend.
+export interface OrderDataAdapter {
+  findOrder(orderNumber: string): Promise<Order | null>;
+  getShipment(orderNumber: string): Promise<Shipment | null>;
+  createReturn(orderNumber: string, skus: string[], reason: string): Promise<ReturnRequest>;
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Conversation } from '@prisma/client';
+import { SlidingWindowLimiter } from './limiter';
+import { InMemoryRateLimitStore } from './memory-store';
+import { PostgresRateLimitStore } from './postgres-store';
+import { TokenBudget } from './token-budget';
+import { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+export * from './types';
+export { SlidingWindowLimiter } from './limiter';
+export { InMemoryRateLimitStore } from './memory-store';
+export { PostgresRateLimitStore } from './postgres-store';
+export { TokenBudget } from './token-budget';
+
+export const RATE_LIMITS = {
+  // Messages per signed-in user or anonymous visitor
+  chatVisitor: { name: 'chat:visitor', limit: 10, windowMs: 60 * 1000 },
+  // Messages per IP, loose enough for a shared office network
+  chatIp: { name: 'chat:ip', limit: 30, windowMs: 60 * 1000 },
+  // Sign-in emails per IP
+  login: { name: 'auth:login', limit: 5, windowMs: 15 * 60 * 1000 },
+  // Transcript emails per IP
+  transcript: { name: 'chat:transcript', limit: 5, windowMs: 15 * 60 * 1000 },
+  // Transcript downloads per IP; each one can read many conversations
+  export: { name: 'chat:export', limit: 10, windowMs: 15 * 60 * 1000 },
+  // Data access and deletion requests per IP
+  privacy: { name: 'chat:privacy', limit: 10, windowMs: 15 * 60 * 1000 },
+  // Feedback votes and CSAT ratings per IP
+  feedback: { name: 'chat:feedback', limit: 30, windowMs: 60 * 1000 },
+} satisfies Record<string, RateLimitRule>;
+
+const DEFAULT_DAILY_TOKEN_LIMIT = 50000;
+
+// Proxies in front of the app that append to X-Forwarded-For (see getClientIp)
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+// Customer-facing messages for 429 responses
+export const RATE_LIMIT_ERRORS = {
+  tooManyRequests: "You're sending messages too quickly. Please wait a moment and try again.",
+  dailyBudget: "You've reached today's limit for the assistant. Please try again tomorrow.",
+} as const;
+
+let storeInstance: RateLimitStore | null = null;
+let tokenBudgetInstance: TokenBudget | null = null;
+
+// RATE_LIMIT_STORE=postgres shares counters between instances; the default
+// in-memory store only limits within one server process.
+export function getRateLimitStore(): RateLimitStore {
+  if (!storeInstance) {
+    storeInstance =
+      process.env.RATE_LIMIT_STORE === 'postgres' ? new PostgresRateLimitStore() : new InMemoryRateLimitStore();
+  }
+  return storeInstance;
+}
+
+export function getTokenBudget(): TokenBudget {
+  if (!tokenBudgetInstance) {
+    // DAILY_SESSION_TOKEN_LIMIT is the setting's name from when the budget was per conversation
+    const limit =
+      Number(process.env.DAILY_TOKEN_LIMIT || process.env.DAILY_SESSION_TOKEN_LIMIT) || DEFAULT_DAILY_TOKEN_LIMIT;
+    tokenBudgetInstance = new TokenBudget(getRateLimitStore(), limit);
+  }
+  return tokenBudgetInstance;
+}
+
+// Whose daily token budget a conversation's model calls count against: the
+// signed-in customer, the web visitor or the channel's sender. Never the
+// session alone, or leaving out the session id would start a fresh budget.
+export function tokenBudgetKey(
+  conversation: Pick<Conversation, 'channel' | 'userId' | 'visitorId' | 'externalUserId' | 'sessionId'>
+): string {
+  if (conversation.userId) return `user:${conversation.userId}`;
+  if (conversation.visitorId) return `visitor:${conversation.visitorId}`;
+  if (conversation.externalUserId) return `${conversation.channel.toLowerCase()}:${conversation.externalUserId}`;
+  return `session:${conversation.sessionId}`;
+}
+
+// Counts the request against every rule and returns the most restrictive
+// result: the longest wait if any rule rejects it.
+export async function checkRateLimits(checks: Array<{ rule: RateLimitRule; id: string }>): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const results = await Promise.all(
+    checks.map(({ rule, id }) => new SlidingWindowLimiter(store, rule).consume(id))
+  );
+
+  const rejected = results.filter((result) => !result.allowed);
+  if (rejected.length > 0) {
+    return rejected.reduce((a, b) => (b.retryAfterSeconds > a.retryAfterSeconds ? b : a));
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+export function rateLimitResponse(result: RateLimitResult, error: string): NextResponse {
+  return NextResponse.json(
+    { error, retryAfter: result.retryAfterSeconds },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(result.retryAfterSeconds),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': '0',
+      },
+    }
+  );
+}
+
+// The client's address as seen by the outermost trusted proxy. Each proxy
+// appends the address it got the request from to X-Forwarded-For, so with
+// TRUSTED_PROXY_HOPS proxies in front of the app (default 1) the client is
+// that many entries from the right. Anything further left was sent by the
+// client and can be made up. On Vercel the platform supplies the address.
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) return request.ip;
+
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS) || DEFAULT_TRUSTED_PROXY_HOPS;
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map((entry) => entry.trim()) ?? [];
+  return forwarded[forwarded.length - hops] || 'unknown';
+}
@@ -0,0 +1,63 @@
+import { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+// Sliding-window counter: the count for the current fixed window plus the
+// previous window's count weighted by how much of it still overlaps the
+// sliding window. Needs two counters per caller instead of a log of every
+// request, and smooths out the burst a plain fixed window allows at its edges.
+export class SlidingWindowLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private rule: RateLimitRule
+  ) {}
+
+  // Counts a request from `id` and reports whether it fits within the limit.
+  // Rejected requests are counted too, so a client that keeps retrying stays
+  // blocked until it backs off.
+  async consume(id: string, now = Date.now()): Promise<RateLimitResult> {
+    const { name, limit, windowMs } = this.rule;
+    const window = Math.floor(now / windowMs);
+    const elapsed = now - window * windowMs;
+
+    const [previous, current] = await Promise.all([
+      this.store.get(`${name}:${id}:${window - 1}`),
+      // Kept for two windows so it can act as the previous window next time
+      this.store.increment(`${name}:${id}:${window}`, 1, windowMs * 2),
+    ]);
+
+    const weightedPrevious = previous * (1 - elapsed / windowMs);
+    const estimate = weightedPrevious + current;
+
+    if (estimate <= limit) {
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimate)),
+        retryAfterSeconds: 0,
+      };
+    }
+
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      retryAfterSeconds: Math.max(1, Math.ceil(this.retryAfterMs(previous, current, elapsed) / 1000)),
+    };
+  }
+
+  // Time until one more request would fit: either the previous window's
+  // weight decays enough before this window ends, or we wait for this
+  // window's count to decay once it becomes the previous one.
+  private retryAfterMs(previous: number, current: number, elapsed: number): number {
+    const { limit, windowMs } = this.rule;
+    const remainingInWindow = windowMs - elapsed;
+
+    if (current + 1 <= limit && previous > 0) {
+      const wait = windowMs * (1 - (limit - current - 1) / previous) - elapsed;
+      if (wait < remainingInWindow) {
+        return Math.max(0, wait);
+      }
+    }
+
+    return remainingInWindow + Math.max(0, windowMs * (1 - (limit - 1) / current));
+  }
+}
@@ -0,0 +1,36 @@
+import { RateLimitStore } from './types';
+
+// Per-process counters. Fine for a single server; use the Postgres store when
+// running several instances so they share limits.
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) {
+      this.counters.set(key, { value: amount, expiresAt: now + ttlMs });
+      return amount;
+    }
+
+    counter.value += amount;
+    return counter.value;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+  }
+
+  // Drops expired counters once the map has grown, so idle keys don't pile up
+  private sweep(now: number) {
+    if (this.counters.size < 10_000) return;
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
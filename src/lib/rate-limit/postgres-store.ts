@@ -0,0 +1,40 @@
+import { prisma } from '@/lib/prisma';
+import { RateLimitStore } from './types';
+
+// Fraction of increments that also delete expired counters
+const CLEANUP_PROBABILITY = 0.01;
+
+// Counters in the RateLimitCounter table, shared by every app instance
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    // Single upsert so concurrent requests can't lose increments
+    const rows = await prisma.$queryRaw<Array<{ value: number }>>`
+      INSERT INTO "RateLimitCounter" ("key", "value", "expiresAt")
+      VALUES (${key}, ${amount}, ${expiresAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "value" = CASE
+          WHEN "RateLimitCounter"."expiresAt" <= ${now} THEN EXCLUDED."value"
+          ELSE "RateLimitCounter"."value" + EXCLUDED."value"
+        END,
+        "expiresAt" = CASE
+          WHEN "RateLimitCounter"."expiresAt" <= ${now} THEN EXCLUDED."expiresAt"
+          ELSE "RateLimitCounter"."expiresAt"
+        END
+      RETURNING "value"
+    `;
+
+    if (Math.random() < CLEANUP_PROBABILITY) {
+      await prisma.rateLimitCounter.deleteMany({ where: { expiresAt: { lte: now } } });
+    }
+
+    return rows[0].value;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = await prisma.rateLimitCounter.findUnique({ where: { key } });
+    return counter && counter.expiresAt > new Date() ? counter.value : 0;
+  }
+}
@@ -0,0 +1,40 @@
+import { TokenUsage } from '@/lib/llm';
+import { RateLimitResult, RateLimitStore } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily cap on LLM tokens (input + output) spent on one customer's
+// conversations, keyed by tokenBudgetKey. Days are UTC so every instance
+// agrees on when the budget resets.
+export class TokenBudget {
+  constructor(
+    private store: RateLimitStore,
+    readonly dailyLimit: number
+  ) {}
+
+  private key(owner: string, now: number): string {
+    return `tokens:${owner}:${Math.floor(now / DAY_MS)}`;
+  }
+
+  async check(owner: string, now = Date.now()): Promise<RateLimitResult> {
+    const used = await this.store.get(this.key(owner, now));
+    if (used < this.dailyLimit) {
+      return { allowed: true, limit: this.dailyLimit, remaining: this.dailyLimit - used, retryAfterSeconds: 0 };
+    }
+
+    const nextDay = (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+    return {
+      allowed: false,
+      limit: this.dailyLimit,
+      remaining: 0,
+      retryAfterSeconds: Math.ceil((nextDay - now) / 1000),
+    };
+  }
+
+  async record(owner: string, usage: TokenUsage | undefined, now = Date.now()): Promise<void> {
+    const tokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+    if (tokens > 0) {
+      await this.store.increment(this.key(owner, now), tokens, DAY_MS);
+    }
+  }
+}
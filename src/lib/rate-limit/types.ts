@@ -0,0 +1,25 @@
+// Counter storage for rate limits. Deliberately limited to what Redis offers
+// natively (INCRBY + PEXPIRE NX, GET) so a Redis-backed store is a drop-in.
+export interface RateLimitStore {
+  // Adds `amount` to the counter at `key` and returns the new value. A new
+  // counter expires after `ttlMs`; later increments don't extend it.
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+
+  // Current value, or 0 for a missing or expired counter
+  get(key: string): Promise<number>;
+}
+
+export interface RateLimitRule {
+  // Prefix for the counter keys
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until a request would be allowed again; 0 when allowed
+  retryAfterSeconds: number;
+}
@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getKnowledgeSnapshot } from '@/lib/knowledge-base';
+import { Locale } from '@/lib/i18n';
+import { InMemoryReplyCacheStore } from './memory-store';
+import { isCacheableQuestion, normalizeQuestion } from './normalize';
+import { PostgresReplyCacheStore } from './postgres-store';
+import { CachedReply, ReplyCacheKey, ReplyCacheStats, ReplyCacheStore } from './types';
+
+export * from './types';
+export { isCacheableQuestion, normalizeQuestion } from './normalize';
+export { InMemoryReplyCacheStore } from './memory-store';
+export { PostgresReplyCacheStore } from './postgres-store';
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+
+export type ReplyLookup =
+  | { status: 'hit'; reply: CachedReply; pinned: boolean }
+  // `key` is where to store the generated reply; null when it shouldn't be cached
+  | { status: 'miss'; key: ReplyCacheKey | null };
+
+let storeInstance: ReplyCacheStore | null | undefined;
+const stats = new Map<string, ReplyCacheStats>();
+
+// REPLY_CACHE_STORE=postgres shares entries between instances, "off"
+// disables caching (pinned answers still apply). Defaults to in-memory.
+export function getReplyCacheStore(): ReplyCacheStore | null {
+  if (storeInstance === undefined) {
+    const kind = process.env.REPLY_CACHE_STORE;
+    storeInstance =
+      kind === 'off' ? null : kind === 'postgres' ? new PostgresReplyCacheStore() : new InMemoryReplyCacheStore();
+  }
+  return storeInstance;
+}
+
+function ttlMs(): number {
+  return (Number(process.env.REPLY_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS) * 1000;
+}
+
+function record(workspaceId: string, outcome: keyof ReplyCacheStats): void {
+  const current = getReplyCacheStats(workspaceId);
+  stats.set(workspaceId, { ...current, [outcome]: current[outcome] + 1 });
+}
+
+export function getReplyCacheStats(workspaceId: string): ReplyCacheStats {
+  return stats.get(workspaceId) ?? { pinnedHits: 0, hits: 0, misses: 0 };
+}
+
+// A cached reply is tied to everything it was generated from: the question,
+// the conversation's language, the published knowledge base and the
+// workspace's assistant settings. Any change to those gives new questions a
+// new key.
+async function cacheKey(workspace: Workspace, question: string, locale: Locale | null): Promise<ReplyCacheKey> {
+  const { version } = await getKnowledgeSnapshot(workspace.id);
+  const hash = createHash('sha256')
+    .update(`${version}:${workspace.updatedAt.getTime()}:${locale ?? ''}:${question}`)
+    .digest('hex')
+    .slice(0, 32);
+  return { key: `${workspace.id}:${hash}`, workspaceId: workspace.id, question };
+}
+
+// Looks for a pinned answer, then (for the opening question of a
+// conversation only, since later replies depend on what came before) a
+// cached AI reply. Errors count as a miss: the cache must never break chat.
+export async function lookupReply(
+  workspace: Workspace,
+  text: string,
+  options: { opening: boolean; locale: Locale | null }
+): Promise<ReplyLookup> {
+  try {
+    const question = normalizeQuestion(text);
+    if (!question) {
+      return { status: 'miss', key: null };
+    }
+
+    const pinned = await prisma.pinnedAnswer.findUnique({
+      where: { workspaceId_normalizedQuestion: { workspaceId: workspace.id, normalizedQuestion: question } },
+    });
+    if (pinned) {
+      await prisma.pinnedAnswer.update({
+        where: { id: pinned.id },
+        data: { hits: { increment: 1 }, lastHitAt: new Date() },
+      });
+      record(workspace.id, 'pinnedHits');
+      return { status: 'hit', reply: { reply: pinned.answer, sources: [] }, pinned: true };
+    }
+
+    const store = getReplyCacheStore();
+    if (!store || !options.opening || !isCacheableQuestion(text)) {
+      return { status: 'miss', key: null };
+    }
+
+    const key = await cacheKey(workspace, question, options.locale);
+    const cached = await store.get(key.key);
+    record(workspace.id, cached ? 'hits' : 'misses');
+    return cached ? { status: 'hit', reply: cached, pinned: false } : { status: 'miss', key };
+  } catch (error) {
+    console.error('Reply cache lookup failed:', error);
+    return { status: 'miss', key: null };
+  }
+}
+
+export async function rememberReply(key: ReplyCacheKey, value: CachedReply): Promise<void> {
+  try {
+    await getReplyCacheStore()?.set(key, value, ttlMs());
+  } catch (error) {
+    console.error('Failed to cache reply:', error);
+  }
+}
+
+// Drops the workspace's cached replies, e.g. after its policies change.
+// Pinned answers are kept.
+export async function clearReplyCache(workspaceId: string): Promise<void> {
+  await getReplyCacheStore()?.clear(workspaceId);
+}
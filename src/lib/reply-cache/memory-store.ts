@@ -0,0 +1,39 @@
+import { CachedReply, ReplyCacheKey, ReplyCacheStore } from './types';
+
+// Caps memory use; the oldest entries are dropped first
+const MAX_ENTRIES = 5000;
+
+// Per-process cache. Fine for a single server; use the Postgres store when
+// running several instances so they share cached replies.
+export class InMemoryReplyCacheStore implements ReplyCacheStore {
+  private entries = new Map<string, { workspaceId: string; value: CachedReply; expiresAt: number }>();
+
+  async get(key: string): Promise<CachedReply | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: ReplyCacheKey, value: CachedReply, ttlMs: number): Promise<void> {
+    this.entries.delete(key.key);
+    this.entries.set(key.key, { workspaceId: key.workspaceId, value, expiresAt: Date.now() + ttlMs });
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  async clear(workspaceId: string): Promise<void> {
+    this.entries.forEach((entry, key) => {
+      if (entry.workspaceId === workspaceId) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isCacheableQuestion, normalizeQuestion } from './normalize';
+
+describe('normalizeQuestion', () => {
+  it('drops greetings, politeness and filler', () => {
+    assert.equal(normalizeQuestion("What's your return policy?"), 'what return policy');
+    assert.equal(normalizeQuestion('hi, what is the returns policy please'), 'what return policy');
+  });
+
+  it('keeps interrogatives, so different questions get different keys', () => {
+    const questions = ['Where do you ship?', 'When do you ship?', 'Why do you ship?', 'How do you ship?', 'Who do you ship with?'];
+    const keys = new Set(questions.map(normalizeQuestion));
+    assert.equal(keys.size, questions.length);
+  });
+
+  it('keeps negations and pronouns', () => {
+    assert.notEqual(normalizeQuestion('Can I return sale items?'), normalizeQuestion("Can't I return sale items?"));
+    assert.notEqual(normalizeQuestion('Do you ship to us?'), normalizeQuestion('Do you ship?'));
+  });
+
+  it('is empty when nothing meaningful is left', () => {
+    assert.equal(normalizeQuestion('hi, thanks!'), '');
+  });
+});
+
+describe('isCacheableQuestion', () => {
+  it('rejects questions containing personal data', () => {
+    assert.equal(isCacheableQuestion('Where is order SM-10001?'), false);
+    assert.equal(isCacheableQuestion('Can you email me at jo@example.com?'), false);
+    assert.equal(isCacheableQuestion('Do you ship to Canada?'), true);
+  });
+});
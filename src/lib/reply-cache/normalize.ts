@@ -0,0 +1,30 @@
+import { stemWords } from '@/lib/retrieval';
+
+// Questions longer than this are usually specific to the customer's situation
+const MAX_CACHEABLE_LENGTH = 200;
+
+// Greetings, politeness, articles and auxiliaries (after stemming) that don't
+// change what's asked. Not the retrieval stopwords: those drop interrogatives
+// and pronouns, which would merge "where do you ship?" with "when do you
+// ship?". Negations aren't filler either.
+const FILLER_WORDS = new Set([
+  'hi', 'hello', 'hey', 'thank', 'thx', 'please', 'pls', 'plz', 'ok', 'okay', 'just', 'wonder', 'know', 'tell',
+  'quick', 'a', 'an', 'the', 'and', 'is', 'are', 'be', 'do', 'doe', 'can', 'could', 'would', 'will', 'i', 'my',
+  'you', 'your', 'we', 'our', 'it', 'this', 'that', 'there', 'to', 'of', 'for', 'in', 'on', 'at', 'about', 'get',
+]);
+
+// Order numbers, phone numbers and email addresses. Replies to questions
+// containing them are about one customer and must not be shared.
+const PERSONAL_DATA_PATTERN = /\d{4,}|@/;
+
+// Reduces a question to its meaningful terms, so "What's your return
+// policy?" and "hi, what is the returns policy please" share a cache entry.
+// Empty when nothing meaningful is left.
+export function normalizeQuestion(text: string): string {
+  const terms = stemWords(text.replace(/['’]s\b/gi, '').replace(/['’]/g, '')).filter((term) => !FILLER_WORDS.has(term));
+  return Array.from(new Set(terms)).join(' ');
+}
+
+export function isCacheableQuestion(text: string): boolean {
+  return text.length <= MAX_CACHEABLE_LENGTH && !PERSONAL_DATA_PATTERN.test(text) && normalizeQuestion(text) !== '';
+}
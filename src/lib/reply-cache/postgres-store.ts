@@ -0,0 +1,43 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { KnowledgeSource } from '@/lib/knowledge-base';
+import { CachedReply, ReplyCacheKey, ReplyCacheStore } from './types';
+
+// Fraction of writes that also delete expired entries
+const CLEANUP_PROBABILITY = 0.01;
+
+// Entries in the ReplyCacheEntry table, shared by every app instance
+export class PostgresReplyCacheStore implements ReplyCacheStore {
+  async get(key: string): Promise<CachedReply | null> {
+    const entry = await prisma.replyCacheEntry.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt <= new Date()) return null;
+
+    await prisma.replyCacheEntry.update({ where: { key }, data: { hits: { increment: 1 } } });
+    return { reply: entry.reply, sources: (entry.sources as unknown as KnowledgeSource[] | null) ?? [] };
+  }
+
+  async set(key: ReplyCacheKey, value: CachedReply, ttlMs: number): Promise<void> {
+    const now = new Date();
+    const data = {
+      workspaceId: key.workspaceId,
+      question: key.question,
+      reply: value.reply,
+      sources: value.sources as unknown as Prisma.InputJsonValue,
+      expiresAt: new Date(now.getTime() + ttlMs),
+    };
+
+    await prisma.replyCacheEntry.upsert({
+      where: { key: key.key },
+      create: { key: key.key, ...data },
+      update: { ...data, hits: 0, createdAt: now },
+    });
+
+    if (Math.random() < CLEANUP_PROBABILITY) {
+      await prisma.replyCacheEntry.deleteMany({ where: { expiresAt: { lte: now } } });
+    }
+  }
+
+  async clear(workspaceId: string): Promise<void> {
+    await prisma.replyCacheEntry.deleteMany({ where: { workspaceId } });
+  }
+}
@@ -0,0 +1,36 @@
+import { KnowledgeSource } from '@/lib/knowledge-base';
+
+export interface CachedReply {
+  reply: string;
+  sources: KnowledgeSource[];
+}
+
+// Where a cacheable turn's reply is stored once generated
+export interface ReplyCacheKey {
+  key: string;
+  workspaceId: string;
+  // Normalized question
+  question: string;
+}
+
+// Storage for cached replies. Like the rate-limit store, limited to simple
+// get/set-with-expiry so a Redis store is a drop-in.
+export interface ReplyCacheStore {
+  // The entry at `key`, or null when missing or expired
+  get(key: string): Promise<CachedReply | null>;
+
+  set(key: ReplyCacheKey, value: CachedReply, ttlMs: number): Promise<void>;
+
+  // Drops every entry for the workspace
+  clear(workspaceId: string): Promise<void>;
+}
+
+// Lookups since this server process started
+export interface ReplyCacheStats {
+  // Answered from a pinned answer
+  pinnedHits: number;
+  // Answered from a cached AI reply
+  hits: number;
+  // Cacheable question with nothing cached; the model was called
+  misses: number;
+}
@@ -0,0 +1,67 @@
+import { prisma } from '@/lib/prisma';
+import { ChatOwner, ownedBy } from '@/lib/customer-auth';
+import { PersonalDataExport } from './types';
+
+// Collects the caller's account and every conversation they own in the
+// workspace, including the labels the classifier put on their messages
+export async function collectPersonalData(
+  workspace: { id: string; name: string },
+  owner: ChatOwner
+): Promise<PersonalDataExport> {
+  const [user, conversations] = await Promise.all([
+    owner.userId ? prisma.user.findUnique({ where: { id: owner.userId } }) : null,
+    prisma.conversation.findMany({
+      where: { workspaceId: workspace.id, ...ownedBy(owner) },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        rating: true,
+        messages: {
+          orderBy: { timestamp: 'asc' },
+          include: { feedback: true },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    store: workspace.name,
+    account: user
+      ? {
+          email: user.email,
+          createdAt: user.createdAt.toISOString(),
+          lastLoginAt: user.lastLoginAt?.toISOString() ?? null,
+        }
+      : null,
+    conversations: conversations.map((conversation) => ({
+      sessionId: conversation.sessionId,
+      channel: conversation.channel,
+      externalUserId: conversation.externalUserId,
+      subject: conversation.subject,
+      locale: conversation.locale,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+      handoffState: conversation.handoffState,
+      sentiment: conversation.sentiment,
+      intent: conversation.intent,
+      urgency: conversation.urgency,
+      tags: conversation.tags,
+      rating: conversation.rating
+        ? {
+            score: conversation.rating.score,
+            comment: conversation.rating.comment,
+            createdAt: conversation.rating.createdAt.toISOString(),
+          }
+        : null,
+      messages: conversation.messages.map((message) => ({
+        sender: message.sender,
+        text: message.text,
+        timestamp: message.timestamp.toISOString(),
+        sentiment: message.sentiment,
+        intent: message.intent,
+        urgency: message.urgency,
+        feedback: message.feedback ? { rating: message.feedback.rating, reason: message.feedback.reason } : null,
+      })),
+    })),
+  };
+}
@@ -0,0 +1,121 @@
+import { Channel, Prisma, RetentionAction } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ErasureRequest } from './types';
+
+// Conversations erased per transaction
+const BATCH_SIZE = 100;
+
+// Message text left behind by anonymization
+export const ANONYMIZED_TEXT = '[removed]';
+
+interface ErasedConversation {
+  id: string;
+  workspaceId: string;
+  sessionId: string;
+  channel: Channel;
+  _count: { messages: number };
+}
+
+function nextBatch(where: Prisma.ConversationWhereInput, take: number): Promise<ErasedConversation[]> {
+  return prisma.conversation.findMany({
+    where,
+    orderBy: { updatedAt: 'asc' },
+    take,
+    select: { id: true, workspaceId: true, sessionId: true, channel: true, _count: { select: { messages: true } } },
+  });
+}
+
+function logEntries(
+  batch: ErasedConversation[],
+  action: RetentionAction,
+  request: ErasureRequest
+): Prisma.DeletionLogCreateManyInput[] {
+  return batch.map((conversation) => ({
+    action,
+    reason: request.reason,
+    workspaceId: conversation.workspaceId,
+    conversationId: conversation.id,
+    sessionId: conversation.sessionId,
+    channel: conversation.channel,
+    messageCount: conversation._count.messages,
+    requestedBy: request.requestedBy,
+  }));
+}
+
+// Erases matching conversations a batch at a time, logging each batch in the
+// same transaction that erases it. Stops after `limit` conversations.
+async function eraseInBatches(
+  where: Prisma.ConversationWhereInput,
+  limit: number,
+  erase: (batch: ErasedConversation[]) => Promise<void>
+): Promise<number> {
+  let erased = 0;
+  while (erased < limit) {
+    const take = Math.min(BATCH_SIZE, limit - erased);
+    const batch = await nextBatch(where, take);
+    if (batch.length > 0) {
+      await erase(batch);
+      erased += batch.length;
+    }
+    if (batch.length < take) break;
+  }
+  return erased;
+}
+
+// Deletes conversations outright. Messages, tool calls, feedback, the CSAT
+// rating, rule matches, PII masks and webhook deliveries about them go with
+// them through their cascading relations.
+export async function deleteConversations(
+  where: Prisma.ConversationWhereInput,
+  request: ErasureRequest,
+  limit: number = Infinity
+): Promise<number> {
+  return eraseInBatches(where, limit, async (batch) => {
+    await prisma.$transaction([
+      prisma.deletionLog.createMany({ data: logEntries(batch, 'DELETE', request) }),
+      prisma.conversation.deleteMany({ where: { id: { in: batch.map((conversation) => conversation.id) } } }),
+    ]);
+  });
+}
+
+// Keeps conversations for reporting (timestamps, labels, usage, votes) but
+// strips what they said and who said it: message text, tool calls, free-text
+// feedback, webhook deliveries (whose payloads repeat the text), the values
+// behind PII masks and the customer's identifiers. The conversation can no
+// longer be reached from the widget or a channel.
+export async function anonymizeConversations(
+  where: Prisma.ConversationWhereInput,
+  request: ErasureRequest,
+  limit: number = Infinity
+): Promise<number> {
+  return eraseInBatches({ AND: [where, { anonymizedAt: null }] }, limit, async (batch) => {
+    const ids = batch.map((conversation) => conversation.id);
+    const messages = { message: { conversationId: { in: ids } } };
+
+    await prisma.$transaction([
+      prisma.deletionLog.createMany({ data: logEntries(batch, 'ANONYMIZE', request) }),
+      prisma.toolInvocation.deleteMany({ where: messages }),
+      prisma.webhookDelivery.deleteMany({ where: { conversationId: { in: ids } } }),
+      prisma.piiMask.deleteMany({ where: { conversationId: { in: ids } } }),
+      prisma.messageFeedback.updateMany({ where: messages, data: { reason: null } }),
+      prisma.message.updateMany({
+        where: { conversationId: { in: ids } },
+        data: { text: ANONYMIZED_TEXT, replacedReply: null, externalId: null },
+      }),
+      prisma.conversationRating.updateMany({ where: { conversationId: { in: ids } }, data: { comment: null } }),
+      prisma.conversation.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          externalUserId: null,
+          subject: null,
+          summary: null,
+          summaryUpTo: null,
+          summaryUpdatedAt: null,
+          visitorId: null,
+          userId: null,
+          anonymizedAt: new Date(),
+        },
+      }),
+    ]);
+  });
+}
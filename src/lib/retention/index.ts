@@ -0,0 +1,15 @@
+import { ChatOwner } from '@/lib/customer-auth';
+
+// Data retention and erasure: per-workspace retention windows enforced by a
+// scheduled job, customer deletion and access requests, and an audit log
+// (DeletionLog) of every conversation deleted or anonymized.
+
+export * from './types';
+export { ANONYMIZED_TEXT, anonymizeConversations, deleteConversations } from './erase';
+export { runRetention } from './purge';
+export { collectPersonalData } from './access';
+
+// How a customer is recorded as the requester in the deletion log
+export function customerRequester(owner: ChatOwner): string {
+  return owner.userId ? `user:${owner.userId}` : `visitor:${owner.visitor.id}`;
+}
@@ -0,0 +1,39 @@
+import { prisma } from '@/lib/prisma';
+import { anonymizeConversations, deleteConversations } from './erase';
+import { ErasureRequest, RetentionRunResult } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most conversations erased in one run, so a run stays short after retention
+// is first switched on; the backlog is worked off over the next runs
+const MAX_PER_RUN = 1000;
+
+const RETENTION_REQUEST: ErasureRequest = { reason: 'RETENTION', requestedBy: 'retention' };
+
+// Deletes or anonymizes, per each workspace's setting, the conversations with
+// no activity for longer than its retention window
+export async function runRetention(now: Date = new Date()): Promise<RetentionRunResult> {
+  const workspaces = await prisma.workspace.findMany({
+    where: { retentionDays: { not: null } },
+    select: { id: true, retentionDays: true, retentionAction: true },
+  });
+
+  const result: RetentionRunResult = { workspaces: workspaces.length, deleted: 0, anonymized: 0, more: false };
+  for (const workspace of workspaces) {
+    const remaining = MAX_PER_RUN - result.deleted - result.anonymized;
+    if (remaining <= 0) break;
+
+    const where = {
+      workspaceId: workspace.id,
+      updatedAt: { lt: new Date(now.getTime() - workspace.retentionDays! * DAY_MS) },
+    };
+    if (workspace.retentionAction === 'ANONYMIZE') {
+      result.anonymized += await anonymizeConversations(where, RETENTION_REQUEST, remaining);
+    } else {
+      result.deleted += await deleteConversations(where, RETENTION_REQUEST, remaining);
+    }
+  }
+
+  result.more = result.deleted + result.anonymized >= MAX_PER_RUN;
+  return result;
+}
@@ -0,0 +1,50 @@
+import { Channel, DeletionReason, FeedbackRating, HandoffState, Intent, Sender, Sentiment, Urgency } from '@prisma/client';
+
+// Who asked for conversations to be erased, recorded in the deletion log
+export interface ErasureRequest {
+  reason: DeletionReason;
+  // "retention", "admin", or the customer: "user:<id>" or "visitor:<id>"
+  requestedBy: string;
+}
+
+export interface RetentionRunResult {
+  // Workspaces with a retention window
+  workspaces: number;
+  deleted: number;
+  anonymized: number;
+  // The run stopped at its cap with conversations still due; run it again
+  more: boolean;
+}
+
+// Everything stored about a customer in one workspace, for right-of-access
+// requests
+export interface PersonalDataExport {
+  exportedAt: string;
+  store: string;
+  // Null for anonymous visitors
+  account: { email: string; createdAt: string; lastLoginAt: string | null } | null;
+  conversations: Array<{
+    sessionId: string;
+    channel: Channel;
+    externalUserId: string | null;
+    subject: string | null;
+    locale: string | null;
+    createdAt: string;
+    updatedAt: string;
+    handoffState: HandoffState;
+    sentiment: Sentiment | null;
+    intent: Intent | null;
+    urgency: Urgency | null;
+    tags: string[];
+    rating: { score: number; comment: string | null; createdAt: string } | null;
+    messages: Array<{
+      sender: Sender;
+      text: string;
+      timestamp: string;
+      sentiment: Sentiment | null;
+      intent: Intent | null;
+      urgency: Urgency | null;
+      feedback: { rating: FeedbackRating; reason: string | null } | null;
+    }>;
+  }>;
+}
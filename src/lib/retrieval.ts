@@ -0,0 +1,140 @@
+// Lexical retrieval over knowledge-base chunks using Okapi BM25. Everything
+// runs locally: chunks and their term frequencies are stored in Postgres and
+// the corpus statistics are rebuilt in memory when the knowledge cache loads.
+
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do',
+  'does', 'for', 'from', 'get', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its',
+  'me', 'my', 'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'their', 'there', 'this',
+  'to', 'us', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+  'would', 'you', 'your',
+]);
+
+const MAX_CHUNK_LENGTH = 400;
+
+const K1 = 1.2;
+const B = 0.75;
+
+function stem(word: string): string {
+  let result = word;
+
+  if (result.length > 4 && result.endsWith('ies')) {
+    result = result.slice(0, -3) + 'y';
+  } else if (result.length > 5 && result.endsWith('ing')) {
+    result = result.slice(0, -3);
+  } else if (result.length > 4 && result.endsWith('ed')) {
+    result = result.slice(0, -2);
+  } else if (result.length > 3 && result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1);
+  }
+
+  // "shipping" -> "shipp" -> "ship"
+  if (result !== word && /([b-df-hj-np-tv-z])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+// Accents are dropped so "devolución" and "devolucion" match; ß, æ and œ are
+// the only letters of the supported languages left outside a-z after that
+function splitWords(text: string): string[] {
+  const plain = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return plain.match(/[a-z0-9$ßæœ]+/g) || [];
+}
+
+export function tokenize(text: string): string[] {
+  return splitWords(text)
+    .filter((word) => !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// Every word stemmed, stopwords included, for callers with their own filter
+export function stemWords(text: string): string[] {
+  return splitWords(text).map(stem);
+}
+
+export function termFrequencies(text: string): { terms: Record<string, number>; length: number } {
+  const tokens = tokenize(text);
+  const terms: Record<string, number> = {};
+  for (const token of tokens) {
+    terms[token] = (terms[token] || 0) + 1;
+  }
+  return { terms, length: tokens.length };
+}
+
+// Splits an article body on paragraph and list-item boundaries, packing
+// consecutive pieces together until a chunk reaches MAX_CHUNK_LENGTH.
+export function chunkText(body: string): string[] {
+  const pieces = body
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+export interface IndexedDocument {
+  terms: Record<string, number>;
+  length: number;
+}
+
+export class BM25Index<T extends IndexedDocument> {
+  private docFreq = new Map<string, number>();
+  private avgLength: number;
+
+  constructor(private documents: T[]) {
+    let totalLength = 0;
+    for (const doc of documents) {
+      totalLength += doc.length;
+      for (const term of Object.keys(doc.terms)) {
+        this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1);
+      }
+    }
+    this.avgLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  private idf(term: string): number {
+    const n = this.docFreq.get(term) || 0;
+    return Math.log(1 + (this.documents.length - n + 0.5) / (n + 0.5));
+  }
+
+  search(query: string, topK: number): Array<{ document: T; score: number }> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.length === 0) {
+      return [];
+    }
+
+    const results: Array<{ document: T; score: number }> = [];
+
+    for (const doc of this.documents) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.terms[term];
+        if (!tf) continue;
+        const norm = tf + K1 * (1 - B + (B * doc.length) / (this.avgLength || 1));
+        score += this.idf(term) * ((tf * (K1 + 1)) / norm);
+      }
+      if (score > 0) {
+        results.push({ document: doc, score });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
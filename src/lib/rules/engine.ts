@@ -0,0 +1,36 @@
+import { compareUrgency } from '@/lib/classification';
+import { RuleCondition, RuleContext } from './types';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words or phrases only, so "refund" doesn't match "refunded"
+function containsKeyword(text: string, keyword: string): boolean {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+export function matchesCondition(condition: RuleCondition, context: RuleContext): boolean {
+  const latest = context.recent[0];
+  switch (condition.type) {
+    case 'sentiment':
+      return (
+        context.recent.length >= condition.consecutive &&
+        context.recent.slice(0, condition.consecutive).every((labels) => labels.sentiment === condition.sentiment)
+      );
+    case 'intent':
+      return !!latest && condition.intents.includes(latest.intent);
+    case 'urgency':
+      return !!latest && compareUrgency(latest.urgency, condition.atLeast) >= 0;
+    case 'negative_messages':
+      return context.negativeMessages >= condition.atLeast;
+    case 'keywords':
+      return condition.keywords.some((keyword) => containsKeyword(context.text, keyword));
+    case 'channel':
+      return condition.channels.includes(context.channel);
+  }
+}
+
+export function matchesRule(conditions: RuleCondition[], context: RuleContext): boolean {
+  return conditions.every((condition) => matchesCondition(condition, context));
+}
@@ -0,0 +1,131 @@
+import { Conversation, ConversationRule, Message, Prisma, Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { MessageLabels } from '@/lib/classification';
+import { escalateConversation, isAiSuppressed } from '@/lib/handoff';
+import { getMailer } from '@/lib/mailer';
+import { emitWebhookEvent, toWebhookConversation, toWebhookMessage } from '@/lib/webhooks';
+import { matchesRule } from './engine';
+import { MAX_CONSECUTIVE_MESSAGES, RuleAction, ruleActionsSchema, ruleConditionsSchema, RuleContext } from './types';
+
+export * from './types';
+export { matchesCondition, matchesRule } from './engine';
+
+export interface RulesOutcome {
+  conversation: Conversation;
+  // A rule handed the conversation to a person just now
+  escalated: boolean;
+}
+
+// Marks the rule as fired in this conversation. False when it already had,
+// possibly on another instance handling a message at the same time.
+async function claimMatch(ruleId: string, conversationId: string, messageId: string): Promise<boolean> {
+  try {
+    await prisma.ruleMatch.create({ data: { ruleId, conversationId, messageId } });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false;
+    throw error;
+  }
+}
+
+async function notify(workspace: Workspace, conversation: Conversation, message: Message, rule: ConversationRule, to?: string) {
+  await getMailer().send({
+    to: to ?? workspace.supportEmail,
+    subject: `${workspace.name}: "${rule.name}" matched a conversation`,
+    text: [
+      `The rule "${rule.name}" matched conversation ${conversation.id} (${conversation.channel}).`,
+      '',
+      `Customer: ${message.text}`,
+      '',
+      `Sentiment: ${conversation.sentiment ?? 'unknown'}, intent: ${conversation.intent ?? 'unknown'}, urgency: ${conversation.urgency ?? 'unknown'}`,
+      `Handoff state: ${conversation.handoffState}`,
+      '',
+      `Transcript: /admin/conversations/${conversation.id}`,
+    ].join('\n'),
+  });
+}
+
+async function runAction(
+  action: RuleAction,
+  workspace: Workspace,
+  outcome: RulesOutcome,
+  message: Message,
+  rule: ConversationRule
+): Promise<void> {
+  switch (action.type) {
+    case 'escalate':
+      if (isAiSuppressed(outcome.conversation.handoffState)) return;
+      outcome.conversation = await escalateConversation(outcome.conversation.id, action.reason ?? `Rule: ${rule.name}`);
+      outcome.escalated = true;
+      return;
+    case 'tag':
+      if (outcome.conversation.tags.includes(action.tag)) return;
+      outcome.conversation = await prisma.conversation.update({
+        where: { id: outcome.conversation.id },
+        data: { tags: { push: action.tag } },
+      });
+      return;
+    case 'notify':
+      await notify(workspace, outcome.conversation, message, rule, action.email);
+      return;
+  }
+}
+
+// Checks the workspace's enabled rules against the customer message just
+// saved, oldest rule first, and runs the actions of those that match. Each
+// rule fires at most once per conversation. `labels` is null when the
+// message couldn't be classified; conditions on labels then don't match.
+// Never throws: a rule problem must not break the chat.
+export async function applyRules(
+  workspace: Workspace,
+  conversation: Conversation,
+  message: Message,
+  labels: MessageLabels | null
+): Promise<RulesOutcome> {
+  const outcome: RulesOutcome = { conversation, escalated: false };
+  try {
+    const rules = await prisma.conversationRule.findMany({
+      where: { workspaceId: workspace.id, enabled: true, matches: { none: { conversationId: conversation.id } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (rules.length === 0) return outcome;
+
+    const recent = labels
+      ? await prisma.message.findMany({
+          where: { conversationId: conversation.id, sender: 'USER', sentiment: { not: null } },
+          orderBy: { timestamp: 'desc' },
+          take: MAX_CONSECUTIVE_MESSAGES,
+          select: { sentiment: true, intent: true, urgency: true },
+        })
+      : [];
+    const context: RuleContext = {
+      text: message.text,
+      channel: conversation.channel,
+      recent: recent as MessageLabels[],
+      negativeMessages: conversation.negativeMessages,
+    };
+
+    for (const rule of rules) {
+      const conditions = ruleConditionsSchema.safeParse(rule.conditions);
+      const actions = ruleActionsSchema.safeParse(rule.actions);
+      if (!conditions.success || !actions.success) {
+        console.error(`Skipping rule ${rule.id} with invalid conditions or actions`);
+        continue;
+      }
+      if (!matchesRule(conditions.data, context)) continue;
+      if (!(await claimMatch(rule.id, conversation.id, message.id))) continue;
+
+      for (const action of actions.data) {
+        await runAction(action, workspace, outcome, message, rule);
+      }
+      await emitWebhookEvent(workspace.id, 'conversation.rule_matched', {
+        conversation: toWebhookConversation(outcome.conversation),
+        message: toWebhookMessage(message),
+        rule: { id: rule.id, name: rule.name, actions: actions.data.map((action) => action.type) },
+      });
+    }
+  } catch (error) {
+    console.error('Conversation rules error:', error);
+  }
+  return outcome;
+}
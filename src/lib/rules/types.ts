@@ -0,0 +1,88 @@
+import { Channel, Intent, Sentiment, Urgency } from '@prisma/client';
+import { z } from 'zod';
+import type { MessageLabels } from '@/lib/classification';
+
+// Longest run of customer messages a sentiment condition can ask for
+export const MAX_CONSECUTIVE_MESSAGES = 10;
+
+// Something about the customer's latest message or the conversation so far.
+// A rule fires when all of its conditions hold.
+export const ruleConditionSchema = z.discriminatedUnion('type', [
+  // The latest `consecutive` customer messages all had this sentiment
+  z.object({
+    type: z.literal('sentiment'),
+    sentiment: z.enum(Sentiment, { error: 'Sentiment must be POSITIVE, NEUTRAL or NEGATIVE' }),
+    consecutive: z.number().int().min(1).max(MAX_CONSECUTIVE_MESSAGES).default(1),
+  }),
+  // The latest message's intent is one of these
+  z.object({
+    type: z.literal('intent'),
+    intents: z.array(z.enum(Intent, { error: 'Unknown intent' })).min(1, 'List at least one intent'),
+  }),
+  // The latest message is at least this urgent
+  z.object({
+    type: z.literal('urgency'),
+    atLeast: z.enum(Urgency, { error: 'Urgency must be LOW, NORMAL or HIGH' }),
+  }),
+  // The conversation has had at least this many negative customer messages
+  z.object({
+    type: z.literal('negative_messages'),
+    atLeast: z.number().int().min(1),
+  }),
+  // The latest message contains one of these words or phrases
+  z.object({
+    type: z.literal('keywords'),
+    keywords: z
+      .array(z.string().trim().toLowerCase().min(1, 'Keywords cannot be empty').max(100, 'Keyword too long (max 100 characters)'))
+      .min(1, 'List at least one keyword')
+      .max(50, 'At most 50 keywords'),
+  }),
+  // The conversation is on one of these channels
+  z.object({
+    type: z.literal('channel'),
+    channels: z.array(z.enum(Channel, { error: 'Unknown channel' })).min(1, 'List at least one channel'),
+  }),
+], { error: 'Unknown condition type' });
+
+// What happens when a rule fires. Every firing also sends a
+// `conversation.rule_matched` webhook.
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  // Hand the conversation to a person; the AI tells the customer instead of answering
+  z.object({
+    type: z.literal('escalate'),
+    reason: z.string().trim().min(1).max(200, 'Reason too long (max 200 characters)').optional(),
+  }),
+  // Add a label to the conversation, for filtering in the admin
+  z.object({
+    type: z.literal('tag'),
+    tag: z.string().trim().toLowerCase().min(1, 'Tag cannot be empty').max(50, 'Tag too long (max 50 characters)'),
+  }),
+  // Email the conversation to `email`, or the workspace's support address
+  z.object({
+    type: z.literal('notify'),
+    email: z.email('Notify email must be a valid email address').optional(),
+  }),
+], { error: 'Unknown action type' });
+
+export const ruleConditionsSchema = z
+  .array(ruleConditionSchema)
+  .min(1, 'A rule needs at least one condition')
+  .max(10, 'At most 10 conditions');
+
+export const ruleActionsSchema = z
+  .array(ruleActionSchema)
+  .min(1, 'A rule needs at least one action')
+  .max(10, 'At most 10 actions');
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+
+// What the conditions are checked against
+export interface RuleContext {
+  // The customer message that was just saved
+  text: string;
+  channel: Channel;
+  // Labels of the customer's latest classified messages, newest first
+  recent: MessageLabels[];
+  negativeMessages: number;
+}
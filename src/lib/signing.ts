@@ -0,0 +1,38 @@
+// HMAC helpers shared by the signed cookies. Uses Web Crypto rather than
+// node:crypto so they can also run in middleware (edge runtime).
+
+const encoder = new TextEncoder();
+
+// Only used outside production so local dev works without extra setup
+const DEV_SESSION_SECRET = 'spurmart-dev-session-secret';
+
+// Secret for the customer-facing cookies (visitor id, signed-in user)
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return DEV_SESSION_SECRET;
+}
+
+export async function sign(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { ESCALATION_TOOL_NAME } from '@/lib/handoff';
+import { AnyTool, defineTool, Tool } from './types';
+
+// The tool itself has no side effects; the message route escalates the
+// conversation when it sees a successful call in the reply's tool calls.
+export function createHandoffTools(): AnyTool[] {
+  const escalateToHuman: Tool<{ reason: string }> = {
+    name: ESCALATION_TOOL_NAME,
+    description:
+      'Hand the conversation to a human support agent. Use when the customer is upset, the request needs human judgment (exceptions, complaints, damaged items), or you cannot resolve it with the information and tools you have.',
+    parameters: z.object({
+      reason: z.string().trim().min(1).max(300).describe('Short summary for the agent of why the customer needs a person'),
+    }),
+    async execute() {
+      return { escalated: true };
+    },
+  };
+
+  return [defineTool(escalateToHuman)];
+}
@@ -0,0 +1,36 @@
+import { Workspace } from '@prisma/client';
+import { getOrderDataAdapter } from '@/lib/orders';
+import { createHandoffTools } from './handoff-tools';
+import { createOrderTools } from './order-tools';
+import { ToolRegistry } from './registry';
+
+export * from './types';
+export { ToolRegistry } from './registry';
+export { createOrderTools } from './order-tools';
+export { createHandoffTools } from './handoff-tools';
+
+// One registry per workspace, rebuilt when the workspace's settings change
+const registries = new Map<string, { registry: ToolRegistry | null; updatedAt: number }>();
+
+// The workspace's order tools, on its own order system and return policy,
+// plus the handoff tool. Null when the workspace has no order system, so its
+// assistant answers from the knowledge base alone.
+export function getToolRegistry(workspace: Workspace): ToolRegistry | null {
+  const entry = registries.get(workspace.id);
+  if (entry && entry.updatedAt === workspace.updatedAt.getTime()) {
+    return entry.registry;
+  }
+
+  const adapter = getOrderDataAdapter(workspace);
+  let registry: ToolRegistry | null = null;
+  if (adapter) {
+    registry = new ToolRegistry();
+    const returnPolicy = { windowDays: workspace.returnWindowDays, instructions: workspace.returnInstructions };
+    for (const tool of [...createOrderTools(adapter, returnPolicy), ...createHandoffTools()]) {
+      registry.register(tool);
+    }
+  }
+
+  registries.set(workspace.id, { registry, updatedAt: workspace.updatedAt.getTime() });
+  return registry;
+}
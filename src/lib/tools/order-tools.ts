@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { Order, OrderDataAdapter, ReturnPolicy } from '@/lib/orders';
+import { AnyTool, defineTool, Tool, ToolError } from './types';
+
+const orderIdentity = {
+  orderNumber: z.string().trim().toUpperCase().min(1).describe('Order number, e.g. SM-10001'),
+  email: z.string().trim().toLowerCase().email().describe('Email address used to place the order'),
+};
+
+// Orders are only disclosed when the customer supplies the matching email,
+// so the assistant can't be used to look up someone else's order.
+async function findVerifiedOrder(adapter: OrderDataAdapter, orderNumber: string, email: string): Promise<Order> {
+  const order = await adapter.findOrder(orderNumber);
+  if (!order || order.email.toLowerCase() !== email) {
+    throw new ToolError('No order matches that order number and email address.');
+  }
+  return order;
+}
+
+export function createOrderTools(adapter: OrderDataAdapter, returnPolicy: ReturnPolicy): AnyTool[] {
+  const lookupOrder: Tool<{ orderNumber: string; email: string }> = {
+    name: 'lookupOrder',
+    description: 'Look up an order\'s status, items and total. Requires the order number and the email used to place it.',
+    parameters: z.object(orderIdentity),
+    async execute({ orderNumber, email }) {
+      const order = await findVerifiedOrder(adapter, orderNumber, email);
+      return {
+        orderNumber: order.orderNumber,
+        status: order.status,
+        placedAt: order.placedAt.toISOString(),
+        deliveredAt: order.deliveredAt?.toISOString(),
+        total: order.total,
+        items: order.items.map(({ sku, name, quantity, price, finalSale }) => ({
+          sku,
+          name,
+          quantity,
+          price,
+          finalSale: finalSale ?? false,
+        })),
+      };
+    },
+  };
+
+  const getShipmentStatus: Tool<{ orderNumber: string; email: string }> = {
+    name: 'getShipmentStatus',
+    description: 'Get carrier, tracking number, delivery estimate and tracking events for an order. Requires the order number and email.',
+    parameters: z.object(orderIdentity),
+    async execute({ orderNumber, email }) {
+      const order = await findVerifiedOrder(adapter, orderNumber, email);
+      const shipment = await adapter.getShipment(order.orderNumber);
+
+      if (!shipment) {
+        return { orderNumber: order.orderNumber, status: 'not_shipped', orderStatus: order.status };
+      }
+
+      return {
+        orderNumber: shipment.orderNumber,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        status: shipment.status,
+        estimatedDelivery: shipment.estimatedDelivery?.toISOString(),
+        events: shipment.events.map((event) => ({
+          at: event.at.toISOString(),
+          location: event.location,
+          description: event.description,
+        })),
+      };
+    },
+  };
+
+  const startReturn: Tool<{ orderNumber: string; email: string; skus: string[]; reason: string }> = {
+    name: 'startReturn',
+    description: `Start a return for delivered items within ${returnPolicy.windowDays} days of delivery. Confirm the items and reason with the customer before calling.`,
+    parameters: z.object({
+      ...orderIdentity,
+      skus: z.array(z.string().trim().toUpperCase()).min(1).describe('SKUs of the items to return'),
+      reason: z.string().trim().min(1).max(500).describe('Why the customer is returning the items'),
+    }),
+    async execute({ orderNumber, email, skus, reason }) {
+      const order = await findVerifiedOrder(adapter, orderNumber, email);
+
+      if (order.status !== 'delivered' || !order.deliveredAt) {
+        throw new ToolError('Only delivered orders can be returned.');
+      }
+
+      const daysSinceDelivery = (Date.now() - order.deliveredAt.getTime()) / (24 * 60 * 60 * 1000);
+      if (daysSinceDelivery > returnPolicy.windowDays) {
+        throw new ToolError(`This order was delivered more than ${returnPolicy.windowDays} days ago and is outside the return window.`);
+      }
+
+      for (const sku of skus) {
+        const item = order.items.find((i) => i.sku === sku);
+        if (!item) {
+          throw new ToolError(`Item ${sku} is not part of this order.`);
+        }
+        if (item.finalSale) {
+          throw new ToolError(`${item.name} is a final sale item and cannot be returned.`);
+        }
+      }
+
+      const request = await adapter.createReturn(order.orderNumber, skus, reason);
+      return {
+        returnId: request.returnId,
+        orderNumber: request.orderNumber,
+        skus: request.skus,
+        instructions: returnPolicy.instructions ?? undefined,
+      };
+    },
+  };
+
+  return [defineTool(lookupOrder), defineTool(getShipmentStatus), defineTool(startReturn)];
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { ToolCall, ToolDefinition } from '@/lib/llm';
+import { AnyTool, ToolCallRecord, ToolError } from './types';
+
+export class ToolRegistry {
+  private tools = new Map<string, AnyTool>();
+
+  register(tool: AnyTool): this {
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: z.toJSONSchema(tool.parameters, { io: 'input' }) as Record<string, unknown>,
+    }));
+  }
+
+  // Never throws: validation and execution failures are captured in the
+  // record so they can be fed back to the model and audited.
+  async execute(call: ToolCall): Promise<ToolCallRecord> {
+    const startedAt = Date.now();
+    const record = (result: unknown, error?: string): ToolCallRecord => ({
+      callId: call.id,
+      name: call.name,
+      arguments: call.arguments,
+      result,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return record(null, `Unknown tool "${call.name}"`);
+    }
+
+    try {
+      return record(await tool.execute(call.arguments));
+    } catch (error) {
+      if (error instanceof ToolError) {
+        return record(null, error.message);
+      }
+
+      console.error(`Tool ${call.name} failed:`, error);
+      return record(null, 'The lookup failed due to a temporary problem.');
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export interface Tool<TArgs = unknown> {
+  name: string;
+  description: string;
+  parameters: z.ZodType<TArgs>;
+  execute(args: TArgs): Promise<unknown>;
+}
+
+// A tool with its argument type erased, so tools of different shapes can
+// share a registry. Only built by `defineTool`, whose execute narrows the raw
+// arguments through the tool's own schema before the typed implementation
+// sees them.
+export interface AnyTool {
+  name: string;
+  description: string;
+  parameters: z.ZodType;
+  execute(args: unknown): Promise<unknown>;
+}
+
+// Thrown by a tool for expected failures (e.g. an email that doesn't match
+// the order). The message is shown to the model so it can explain the
+// problem to the customer; unexpected errors are reported generically.
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+// Audit record of one executed tool call, persisted with the AI message
+export interface ToolCallRecord {
+  callId: string;
+  name: string;
+  arguments: unknown;
+  result: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export function defineTool<TArgs>(tool: Tool<TArgs>): AnyTool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    async execute(args) {
+      const validationResult = tool.parameters.safeParse(args);
+      if (!validationResult.success) {
+        const issue = validationResult.error.issues[0];
+        throw new ToolError(`Invalid arguments: ${issue.path.join('.') || 'input'}: ${issue.message}`);
+      }
+      return tool.execute(validationResult.data);
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import { Sender } from '@prisma/client';
+import { formatTime, senderLabel } from '@/lib/transcript';
+import { ExportAudience, ExportConversation, ExportFormat, ExportMessage, TranscriptFormatter } from './types';
+
+type SenderLabel = (conversation: ExportConversation, sender: Sender) => string;
+
+const STAFF_SENDER_LABELS: Record<Sender, string> = {
+  USER: 'Customer',
+  AI: 'AI assistant',
+  AGENT: 'Agent',
+};
+
+const CSV_COLUMNS = [
+  'conversation_id',
+  'session_id',
+  'workspace',
+  'channel',
+  'customer',
+  'started_at',
+  'message_id',
+  'timestamp',
+  'sender',
+  'text',
+];
+
+// Spreadsheet apps run cells starting with these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | null): string {
+  const text = value ?? '';
+  const safe = CSV_FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function csvRow(values: Array<string | null>): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Store, channel and language lines shared by the readable formats
+function details(conversation: ExportConversation): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ['Store', conversation.workspaceName],
+    ['Channel', conversation.channel],
+    ['Started', formatTime(conversation.createdAt)],
+  ];
+  if (conversation.externalUserId) rows.push(['Customer', conversation.externalUserId]);
+  if (conversation.subject) rows.push(['Subject', conversation.subject]);
+  if (conversation.locale) rows.push(['Language', conversation.locale]);
+  return rows;
+}
+
+// One JSON object per line: a `conversation` record followed by its
+// `message` records
+function jsonLines(): TranscriptFormatter {
+  return {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'jsonl',
+    header: () => '',
+    conversationStart: (conversation) => `${JSON.stringify({ type: 'conversation', ...conversation })}\n`,
+    message: (conversation, message) =>
+      `${JSON.stringify({ type: 'message', conversationId: conversation.id, ...message })}\n`,
+    conversationEnd: () => '',
+    footer: () => '',
+  };
+}
+
+// One row per message, with the conversation repeated on each
+function csv(label: SenderLabel): TranscriptFormatter {
+  return {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: () => csvRow(CSV_COLUMNS),
+    conversationStart: () => '',
+    message: (conversation, message) =>
+      csvRow([
+        conversation.id,
+        conversation.sessionId,
+        conversation.workspaceName,
+        conversation.channel,
+        conversation.externalUserId,
+        conversation.createdAt.toISOString(),
+        message.id,
+        message.timestamp.toISOString(),
+        label(conversation, message.sender),
+        message.text,
+      ]),
+    conversationEnd: () => '',
+    footer: () => '',
+  };
+}
+
+function markdown(label: SenderLabel): TranscriptFormatter {
+  return {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    header: () => '',
+    conversationStart: (conversation) =>
+      `# Conversation ${conversation.sessionId}\n\n${details(conversation)
+        .map(([name, value]) => `- ${name}: ${value}`)
+        .join('\n')}\n\n`,
+    message: (conversation, message) =>
+      `**${label(conversation, message.sender)}** · ${formatTime(message.timestamp)}\n\n${message.text
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n')}\n\n`,
+    conversationEnd: () => '---\n\n',
+    footer: () => '',
+  };
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; color: #111827; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+article { margin-bottom: 3rem; }
+h1 { font-size: 1.25rem; margin-bottom: 0.5rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.875rem; color: #4b5563; }
+dt { font-weight: 600; }
+.message { margin: 1rem 0; padding: 0.5rem 0.75rem; border-radius: 0.5rem; background: #f9fafb; break-inside: avoid; }
+.message.user { background: #eff6ff; }
+.message.agent { background: #f0fdf4; }
+.meta { font-size: 0.75rem; color: #6b7280; margin: 0 0 0.25rem; }
+.text { white-space: pre-wrap; word-break: break-word; margin: 0; }
+@media print { body { margin: 0; max-width: none; } article { break-after: page; } }
+`;
+
+// A standalone page that prints one conversation per sheet, for saving as PDF
+function html(label: SenderLabel): TranscriptFormatter {
+  return {
+    contentType: 'text/html; charset=utf-8',
+    extension: 'html',
+    header: () =>
+      `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>Conversation transcripts</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n`,
+    conversationStart: (conversation) =>
+      `<article>\n<h1>Conversation ${escapeHtml(conversation.sessionId)}</h1>\n<dl>${details(conversation)
+        .map(([name, value]) => `<dt>${name}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('')}</dl>\n`,
+    message: (conversation, message) =>
+      `<div class="message ${message.sender.toLowerCase()}"><p class="meta">${escapeHtml(
+        label(conversation, message.sender)
+      )} · ${formatTime(message.timestamp)}</p><p class="text">${escapeHtml(message.text)}</p></div>\n`,
+    conversationEnd: () => '</article>\n',
+    footer: () => '</body>\n</html>\n',
+  };
+}
+
+export function createFormatter(format: ExportFormat, audience: ExportAudience): TranscriptFormatter {
+  const label: SenderLabel =
+    audience === 'customer'
+      ? (conversation, sender) => senderLabel(sender, conversation.workspaceName)
+      : (_conversation, sender) => STAFF_SENDER_LABELS[sender];
+
+  switch (format) {
+    case 'jsonl':
+      return jsonLines();
+    case 'csv':
+      return csv(label);
+    case 'markdown':
+      return markdown(label);
+    case 'html':
+      return html(label);
+  }
+}
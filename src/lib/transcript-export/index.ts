@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createFormatter } from './formats';
+import { ExportAudience, ExportConversation, ExportFormat, ExportMessage, TranscriptFormatter } from './types';
+
+export * from './types';
+export { createFormatter } from './formats';
+
+// Rows read per query; an export only ever holds one batch of each in memory
+const CONVERSATION_BATCH_SIZE = 100;
+const MESSAGE_BATCH_SIZE = 500;
+
+async function* conversationsMatching(where: Prisma.ConversationWhereInput): AsyncGenerator<ExportConversation> {
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.conversation.findMany({
+      where,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: CONVERSATION_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        sessionId: true,
+        workspaceId: true,
+        channel: true,
+        externalUserId: true,
+        subject: true,
+        locale: true,
+        createdAt: true,
+        handoffState: true,
+        assignedAgent: true,
+        workspace: { select: { name: true } },
+      },
+    });
+
+    for (const { workspace, ...conversation } of batch) {
+      yield { ...conversation, workspaceName: workspace.name };
+    }
+    if (batch.length < CONVERSATION_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+async function* messageBatches(conversationId: string): AsyncGenerator<ExportMessage[]> {
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.message.findMany({
+      where: { conversationId },
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+      take: MESSAGE_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true, sender: true, text: true, timestamp: true },
+    });
+
+    if (batch.length > 0) yield batch;
+    if (batch.length < MESSAGE_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+// The export as a sequence of text pieces, oldest conversation first
+export async function* renderExport(
+  where: Prisma.ConversationWhereInput,
+  formatter: TranscriptFormatter
+): AsyncGenerator<string> {
+  yield formatter.header();
+  for await (const conversation of conversationsMatching(where)) {
+    yield formatter.conversationStart(conversation);
+    for await (const messages of messageBatches(conversation.id)) {
+      yield messages.map((message) => formatter.message(conversation, message)).join('');
+    }
+    yield formatter.conversationEnd(conversation);
+  }
+  yield formatter.footer();
+}
+
+// Streams the conversations matching `where` as a file download. Batches are
+// read as the client consumes the body, so a slow download doesn't pile up
+// rows in memory. `filename` is given without its extension.
+export function exportResponse(
+  where: Prisma.ConversationWhereInput,
+  format: ExportFormat,
+  audience: ExportAudience,
+  filename: string
+): NextResponse {
+  const formatter = createFormatter(format, audience);
+  const pieces = renderExport(where, formatter);
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        for (;;) {
+          const { value, done } = await pieces.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          if (value) {
+            controller.enqueue(encoder.encode(value));
+            return;
+          }
+        }
+      } catch (error) {
+        // Headers are already sent, so the client sees a truncated download
+        console.error('Transcript export error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pieces.return(undefined);
+    },
+  });
+
+  // The HTML page opens in the browser so it can be printed to PDF
+  const disposition = format === 'html' ? 'inline' : 'attachment';
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': formatter.contentType,
+      'Content-Disposition': `${disposition}; filename="${filename.replace(/[^\w.-]/g, '_')}.${formatter.extension}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import type { Channel, HandoffState, Sender } from '@prisma/client';
+
+export const EXPORT_FORMATS = ['jsonl', 'csv', 'markdown', 'html'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Who the export is for: customers see themselves as "You", staff see
+// "Customer"
+export type ExportAudience = 'customer' | 'staff';
+
+export interface ExportConversation {
+  id: string;
+  sessionId: string;
+  workspaceId: string;
+  workspaceName: string;
+  channel: Channel;
+  externalUserId: string | null;
+  subject: string | null;
+  locale: string | null;
+  createdAt: Date;
+  handoffState: HandoffState;
+  assignedAgent: string | null;
+}
+
+export interface ExportMessage {
+  id: string;
+  sender: Sender;
+  text: string;
+  timestamp: Date;
+}
+
+// Renders an export piece by piece, so conversations can be written out as
+// they are read. Each method returns the text to append.
+export interface TranscriptFormatter {
+  contentType: string;
+  extension: string;
+  header(): string;
+  conversationStart(conversation: ExportConversation): string;
+  message(conversation: ExportConversation, message: ExportMessage): string;
+  conversationEnd(conversation: ExportConversation): string;
+  footer(): string;
+}
@@ -0,0 +1,30 @@
+import { Message, Workspace } from '@prisma/client';
+import { getDefaultFromAddress, getMailer } from '@/lib/mailer';
+
+type TranscriptMessage = Pick<Message, 'sender' | 'text' | 'timestamp'>;
+
+export function senderLabel(sender: TranscriptMessage['sender'], storeName: string): string {
+  return sender === 'USER' ? 'You' : sender === 'AGENT' ? `${storeName} team` : `${storeName} assistant`;
+}
+
+export function formatTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Plain-text transcript, one block per message
+export function formatTranscript(storeName: string, messages: TranscriptMessage[]): string {
+  return messages
+    .map((message) => `[${formatTime(message.timestamp)}] ${senderLabel(message.sender, storeName)}:\n${message.text}`)
+    .join('\n\n');
+}
+
+// Emails the customer a copy of their conversation. When the workspace has an
+// inbound address it's used as the sender, so replying reaches support.
+export async function sendTranscript(workspace: Workspace, to: string, messages: TranscriptMessage[]): Promise<void> {
+  await getMailer().send({
+    from: workspace.inboundEmail ? `${workspace.name} Support <${workspace.inboundEmail}>` : getDefaultFromAddress(),
+    to,
+    subject: `Your conversation with ${workspace.name} support`,
+    text: `Here's a copy of your conversation with ${workspace.name} support.\n\n${formatTranscript(workspace.name, messages)}\n\nNeed more help? Contact us at ${workspace.supportEmail}.`,
+  });
+}
@@ -0,0 +1,100 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { getMailer } from '@/lib/mailer';
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// The UTC month `now` falls in
+function budgetPeriod(now: Date): { period: string; start: Date } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return { period: start.toISOString().slice(0, 7), start };
+}
+
+async function spendSince(workspaceId: string, start: Date): Promise<number> {
+  const [messages, summaries, unsavedReplies] = await Promise.all([
+    prisma.message.aggregate({
+      _sum: { costUsd: true },
+      where: { timestamp: { gte: start }, conversation: { workspaceId } },
+    }),
+    prisma.summaryUsage.aggregate({
+      _sum: { costUsd: true },
+      where: { createdAt: { gte: start }, conversation: { workspaceId } },
+    }),
+    prisma.unsavedReplyUsage.aggregate({
+      _sum: { costUsd: true },
+      where: { createdAt: { gte: start }, conversation: { workspaceId } },
+    }),
+  ]);
+  return [messages, summaries, unsavedReplies].reduce((sum, result) => sum + (result._sum.costUsd?.toNumber() ?? 0), 0);
+}
+
+// Claims each threshold with a BudgetAlert row; the unique index makes sure
+// only one instance gets it. Returns the thresholds this call claimed.
+async function claimThresholds(
+  workspaceId: string,
+  period: string,
+  thresholds: number[],
+  spendUsd: number,
+  budgetUsd: number
+): Promise<number[]> {
+  const claimed: number[] = [];
+  for (const threshold of thresholds) {
+    try {
+      await prisma.budgetAlert.create({ data: { workspaceId, period, threshold, spendUsd, budgetUsd } });
+      claimed.push(threshold);
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+    }
+  }
+  return claimed;
+}
+
+// Called after a model call (a reply, classification or summary) is saved.
+// When this month's spend crosses one of the workspace's thresholds for the
+// first time, sends a `usage.budget_threshold` webhook and emails the support
+// address; a call that jumps several thresholds sends one alert for the
+// highest. Never throws: an alert problem must not break the chat.
+export async function checkBudgetAlerts(workspaceId: string, now = new Date()): Promise<void> {
+  try {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { name: true, supportEmail: true, monthlyBudgetUsd: true, budgetAlertThresholds: true },
+    });
+    if (!workspace?.monthlyBudgetUsd || workspace.budgetAlertThresholds.length === 0) return;
+
+    const budgetUsd = workspace.monthlyBudgetUsd.toNumber();
+    const { period, start } = budgetPeriod(now);
+    const spendUsd = await spendSince(workspaceId, start);
+    const crossed = workspace.budgetAlertThresholds.filter((threshold) => spendUsd >= (budgetUsd * threshold) / 100);
+    if (crossed.length === 0) return;
+
+    const alerted = await prisma.budgetAlert.findMany({
+      where: { workspaceId, period, threshold: { in: crossed } },
+      select: { threshold: true },
+    });
+    const pending = crossed.filter((threshold) => !alerted.some((alert) => alert.threshold === threshold));
+    if (pending.length === 0) return;
+
+    const claimed = await claimThresholds(workspaceId, period, pending, spendUsd, budgetUsd);
+    if (claimed.length === 0) return;
+
+    const threshold = Math.max(...claimed);
+    await emitWebhookEvent(workspaceId, 'usage.budget_threshold', {
+      budget: { period, thresholdPercent: threshold, spendUsd, budgetUsd },
+    });
+    await getMailer().send({
+      to: workspace.supportEmail,
+      subject: `${workspace.name}: ${threshold}% of this month's AI budget used`,
+      text: [
+        `AI usage for ${workspace.name} has cost ${formatUsd(spendUsd)} so far in ${period}, ${threshold}% or more of the ${formatUsd(budgetUsd)} monthly budget.`,
+        '',
+        'Replies keep working. Adjust the budget or thresholds in the workspace settings, or see /api/admin/usage for details.',
+      ].join('\n'),
+    });
+  } catch (error) {
+    console.error('Budget alert error:', error);
+  }
+}
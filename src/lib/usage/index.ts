@@ -0,0 +1,38 @@
+import type { ReplyUsage } from '@/lib/llm-service';
+import { DEFAULT_MODEL_PRICES, parsePriceOverrides, PriceTable } from './pricing';
+
+export * from './types';
+export { DEFAULT_MODEL_PRICES, parsePriceOverrides, PriceTable } from './pricing';
+export { checkBudgetAlerts } from './alerts';
+export { usageByConversation, usageByDay, usageByWorkspace } from './reports';
+
+let priceTableInstance: PriceTable | null = null;
+
+// The default prices with LLM_PRICES applied on top
+export function getPriceTable(): PriceTable {
+  if (!priceTableInstance) {
+    priceTableInstance = new PriceTable({
+      ...DEFAULT_MODEL_PRICES,
+      ...parsePriceOverrides(process.env.LLM_PRICES),
+    });
+  }
+  return priceTableInstance;
+}
+
+// Usage columns for a model call: on the message it produced or classified,
+// or on a SummaryUsage or UnsavedReplyUsage row
+export function toUsageColumns(usage: ReplyUsage): {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+} {
+  return {
+    model: usage.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    latencyMs: usage.latencyMs,
+    costUsd: getPriceTable().cost(usage.model, usage),
+  };
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { TokenUsage } from '@/lib/llm';
+import { ModelPrice } from './types';
+
+// List prices in USD per million tokens. LLM_PRICES adds models or replaces
+// these, e.g. for negotiated rates.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  mock: { input: 0, output: 0 },
+};
+
+const priceTableSchema = z.record(
+  z.string(),
+  z.object({ input: z.number().min(0), output: z.number().min(0) })
+);
+
+// Parses LLM_PRICES (a JSON object of model => { input, output }). An invalid
+// value is logged and ignored rather than taking the chat down.
+export function parsePriceOverrides(json: string | undefined): Record<string, ModelPrice> {
+  if (!json) return {};
+
+  try {
+    const result = priceTableSchema.safeParse(JSON.parse(json));
+    if (result.success) return result.data;
+    console.error('Ignoring invalid LLM_PRICES:', result.error.issues[0].message);
+  } catch {
+    console.error('Ignoring LLM_PRICES: not valid JSON');
+  }
+  return {};
+}
+
+export class PriceTable {
+  constructor(private prices: Record<string, ModelPrice>) {}
+
+  // Exact match first, then the longest matching prefix, so dated snapshots
+  // such as gpt-4o-mini-2024-07-18 get their family's price
+  priceFor(model: string): ModelPrice | null {
+    if (this.prices[model]) return this.prices[model];
+
+    const prefix = Object.keys(this.prices)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : null;
+  }
+
+  // Null when the model has no price
+  cost(model: string, usage: TokenUsage): number | null {
+    const price = this.priceFor(model);
+    if (!price) return null;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  }
+}
@@ -0,0 +1,98 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ConversationUsage, DailyUsage, UsageRange, WorkspaceUsage } from './types';
+
+// Every model call: AI replies and classifications are stored on the message
+// they produced or labelled, summary refreshes in SummaryUsage and replies that
+// were never saved in UnsavedReplyUsage. Cached replies and unclassified
+// messages have no model.
+const MODEL_CALLS = Prisma.sql`(
+  SELECT
+    "conversationId",
+    CASE WHEN sender = 'AI' THEN 'reply' ELSE 'classification' END AS kind,
+    timestamp,
+    "inputTokens",
+    "outputTokens",
+    "latencyMs",
+    "costUsd"
+  FROM "Message"
+  WHERE model IS NOT NULL
+  UNION ALL
+  SELECT "conversationId", 'summary', "createdAt", "inputTokens", "outputTokens", "latencyMs", "costUsd"
+  FROM "SummaryUsage"
+  UNION ALL
+  SELECT "conversationId", 'unsaved_reply', "createdAt", "inputTokens", "outputTokens", "latencyMs", "costUsd"
+  FROM "UnsavedReplyUsage"
+)`;
+
+// Totals over the model calls in scope. Sums come back as float8 so they are
+// plain numbers rather than BigInt or Decimal.
+const TOTALS = Prisma.sql`
+  (COUNT(*) FILTER (WHERE m.kind = 'reply'))::int AS replies,
+  (COUNT(*) FILTER (WHERE m.kind = 'classification'))::int AS classifications,
+  (COUNT(*) FILTER (WHERE m.kind = 'summary'))::int AS summaries,
+  (COUNT(*) FILTER (WHERE m.kind = 'unsaved_reply'))::int AS "unsavedReplies",
+  COALESCE(SUM(m."inputTokens"), 0)::float8 AS "inputTokens",
+  COALESCE(SUM(m."outputTokens"), 0)::float8 AS "outputTokens",
+  COALESCE(SUM(m."costUsd"), 0)::float8 AS "costUsd",
+  (COUNT(*) FILTER (WHERE m."costUsd" IS NULL))::int AS "unpricedCalls",
+  ROUND(AVG(m."latencyMs") FILTER (WHERE m.kind = 'reply'))::int AS "averageLatencyMs"
+`;
+
+function usageWhere(range: UsageRange): Prisma.Sql {
+  const conditions = [
+    Prisma.sql`m.timestamp >= ${range.from}`,
+    Prisma.sql`m.timestamp < ${range.to}`,
+  ];
+  if (range.workspaceId) {
+    conditions.push(Prisma.sql`c."workspaceId" = ${range.workspaceId}`);
+  }
+  return Prisma.join(conditions, ' AND ');
+}
+
+// One row per UTC day that had usage
+export async function usageByDay(range: UsageRange): Promise<DailyUsage[]> {
+  return prisma.$queryRaw<DailyUsage[]>`
+    SELECT to_char(date_trunc('day', m.timestamp), 'YYYY-MM-DD') AS date, ${TOTALS}
+    FROM ${MODEL_CALLS} m
+    JOIN "Conversation" c ON c.id = m."conversationId"
+    WHERE ${usageWhere(range)}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+}
+
+// The most expensive conversations first
+export async function usageByConversation(range: UsageRange, limit: number): Promise<ConversationUsage[]> {
+  return prisma.$queryRaw<ConversationUsage[]>`
+    SELECT
+      c.id AS "conversationId",
+      c."workspaceId",
+      c."sessionId",
+      c.channel,
+      c."createdAt",
+      ${TOTALS}
+    FROM ${MODEL_CALLS} m
+    JOIN "Conversation" c ON c.id = m."conversationId"
+    WHERE ${usageWhere(range)}
+    GROUP BY c.id
+    ORDER BY "costUsd" DESC, SUM(m."inputTokens" + m."outputTokens") DESC
+    LIMIT ${limit}
+  `;
+}
+
+export async function usageByWorkspace(range: UsageRange): Promise<WorkspaceUsage[]> {
+  return prisma.$queryRaw<WorkspaceUsage[]>`
+    SELECT
+      w.id AS "workspaceId",
+      w.name AS "workspaceName",
+      w."monthlyBudgetUsd"::float8 AS "monthlyBudgetUsd",
+      ${TOTALS}
+    FROM ${MODEL_CALLS} m
+    JOIN "Conversation" c ON c.id = m."conversationId"
+    JOIN "Workspace" w ON w.id = c."workspaceId"
+    WHERE ${usageWhere(range)}
+    GROUP BY w.id
+    ORDER BY "costUsd" DESC
+  `;
+}
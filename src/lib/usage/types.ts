@@ -0,0 +1,50 @@
+import { Channel } from '@prisma/client';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Sums over the model calls: AI replies produced by the model (cached
+// replies excluded), customer messages it classified, summary refreshes and
+// replies that failed or were abandoned before they were saved
+export interface UsageTotals {
+  replies: number;
+  classifications: number;
+  summaries: number;
+  unsavedReplies: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Calls whose model has no price, so they're missing from costUsd
+  unpricedCalls: number;
+  // Of the replies
+  averageLatencyMs: number | null;
+}
+
+export interface UsageRange {
+  from: Date;
+  to: Date;
+  // All workspaces when omitted
+  workspaceId?: string;
+}
+
+export interface DailyUsage extends UsageTotals {
+  // UTC day, e.g. 2026-04-20
+  date: string;
+}
+
+export interface ConversationUsage extends UsageTotals {
+  conversationId: string;
+  workspaceId: string;
+  sessionId: string;
+  channel: Channel;
+  createdAt: Date;
+}
+
+export interface WorkspaceUsage extends UsageTotals {
+  workspaceId: string;
+  workspaceName: string;
+  monthlyBudgetUsd: number | null;
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { constantTimeEqual, getSessionSecret, sign } from '@/lib/signing';
+
+// Anonymous visitor identity. Every chat visitor gets a server-issued id in a
+// signed httpOnly cookie, and conversations are scoped to that id so one
+// visitor can never list or read another's transcripts.
+
+export const VISITOR_COOKIE = 'spur_visitor';
+const VISITOR_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export interface Visitor {
+  id: string;
+  // True when the id was issued on this request and the cookie still needs setting
+  isNew: boolean;
+}
+
+// Token format: `<visitorId>.<hmac>`
+async function createVisitorToken(visitorId: string, secret: string): Promise<string> {
+  return `${visitorId}.${await sign(`visitor:${visitorId}`, secret)}`;
+}
+
+async function verifyVisitorToken(token: string | undefined, secret: string): Promise<string | null> {
+  if (!token) return null;
+
+  const [visitorId, signature] = token.split('.');
+  if (!visitorId || !signature) return null;
+
+  return constantTimeEqual(signature, await sign(`visitor:${visitorId}`, secret)) ? visitorId : null;
+}
+
+// Returns the caller's visitor id, issuing a new one when the cookie is
+// missing or has been tampered with.
+export async function getVisitor(request: NextRequest): Promise<Visitor> {
+  const visitorId = await verifyVisitorToken(request.cookies.get(VISITOR_COOKIE)?.value, getSessionSecret());
+  if (visitorId) {
+    return { id: visitorId, isNew: false };
+  }
+  return { id: crypto.randomUUID(), isNew: true };
+}
+
+// Sets the visitor cookie on the response when the id was just issued
+export async function withVisitorCookie<T extends NextResponse>(response: T, visitor: Visitor): Promise<T> {
+  if (visitor.isNew) {
+    const production = process.env.NODE_ENV === 'production';
+    response.cookies.set(VISITOR_COOKIE, await createVisitorToken(visitor.id, getSessionSecret()), {
+      httpOnly: true,
+      // Inside the embed iframe on a merchant's site this is a third-party
+      // cookie, so it needs SameSite=None and is partitioned per top-level
+      // site to survive third-party cookie blocking. Plain-HTTP development
+      // can't send SameSite=None, but localhost ports are same-site anyway.
+      sameSite: production ? 'none' : 'lax',
+      secure: production,
+      partitioned: production,
+      path: '/',
+      maxAge: VISITOR_TTL_SECONDS,
+    });
+  }
+  return response;
+}
@@ -0,0 +1,143 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { Conversation, Message, Prisma, WebhookDelivery } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { nextDueAt, processDueDeliveries } from './queue';
+import {
+  WEBHOOK_TEST_EVENT,
+  WebhookConversation,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookMessage,
+} from './types';
+
+export * from './types';
+export { SIGNATURE_HEADER, signWebhookBody } from './signature';
+export { MAX_DELIVERY_ATTEMPTS, processDueDeliveries } from './queue';
+
+// Delay before trying again when the queue itself errors (e.g. database down)
+const QUEUE_ERROR_RETRY_MS = 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function toWebhookConversation(conversation: Conversation): WebhookConversation {
+  return {
+    id: conversation.id,
+    sessionId: conversation.sessionId,
+    channel: conversation.channel,
+    externalUserId: conversation.externalUserId,
+    handoffState: conversation.handoffState,
+    escalationReason: conversation.escalationReason,
+    assignedAgent: conversation.assignedAgent,
+    sentiment: conversation.sentiment,
+    intent: conversation.intent,
+    urgency: conversation.urgency,
+    tags: conversation.tags,
+    createdAt: conversation.createdAt.toISOString(),
+  };
+}
+
+export function toWebhookMessage(message: Message): WebhookMessage {
+  return {
+    id: message.id,
+    sender: message.sender,
+    text: message.text,
+    timestamp: message.timestamp.toISOString(),
+  };
+}
+
+let queueTimer: ReturnType<typeof setTimeout> | null = null;
+let queueTimerDueAt = Infinity;
+
+async function runQueue(): Promise<void> {
+  queueTimer = null;
+  queueTimerDueAt = Infinity;
+
+  try {
+    await processDueDeliveries();
+    const dueAt = await nextDueAt();
+    if (dueAt) {
+      scheduleWebhookQueue(dueAt.getTime() - Date.now());
+    }
+  } catch (error) {
+    console.error('Webhook queue error:', error);
+    scheduleWebhookQueue(QUEUE_ERROR_RETRY_MS);
+  }
+}
+
+// Runs the queue in this process after `delayMs`, keeping only the earliest
+// pending run. Timers don't survive a serverless function being frozen, so
+// such deployments should also call POST /api/admin/webhooks/process on a
+// schedule; the queue itself lives in the database either way.
+export function scheduleWebhookQueue(delayMs: number = 0): void {
+  const dueAt = Date.now() + Math.max(0, delayMs);
+  if (queueTimer && queueTimerDueAt <= dueAt) return;
+
+  if (queueTimer) clearTimeout(queueTimer);
+  queueTimerDueAt = dueAt;
+  queueTimer = setTimeout(runQueue, Math.max(0, delayMs));
+}
+
+function conversationIdOf(data: WebhookEventData[WebhookEventType]): string | null {
+  return 'conversation' in data ? data.conversation.id : null;
+}
+
+function createEvent<T extends WebhookEventType>(workspaceId: string, type: T, data: WebhookEventData[T]): WebhookEvent<T> {
+  return { id: `evt_${randomUUID()}`, type, createdAt: new Date().toISOString(), workspaceId, data };
+}
+
+// Queues the event for every active subscription in the workspace that
+// listens to it. Never throws: a webhook problem must not break the chat.
+export async function emitWebhookEvent<T extends WebhookEventType>(
+  workspaceId: string,
+  type: T,
+  data: WebhookEventData[T]
+): Promise<void> {
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { workspaceId, active: true, events: { has: type } },
+      select: { id: true },
+    });
+    if (subscriptions.length === 0) return;
+
+    const event = createEvent(workspaceId, type, data);
+    await prisma.webhookDelivery.createMany({
+      data: subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        eventType: type,
+        payload: event as unknown as Prisma.InputJsonValue,
+        conversationId: conversationIdOf(data),
+      })),
+    });
+
+    scheduleWebhookQueue();
+  } catch (error) {
+    console.error(`Failed to queue ${type} webhook:`, error);
+  }
+}
+
+// Queues a test event for one subscription so a receiver can be checked end to end
+export async function queueTestEvent(subscription: { id: string; workspaceId: string }): Promise<WebhookDelivery> {
+  const event = {
+    id: `evt_${randomUUID()}`,
+    type: WEBHOOK_TEST_EVENT,
+    createdAt: new Date().toISOString(),
+    workspaceId: subscription.workspaceId,
+    data: { message: 'This is a test event from SpurMart support chat.' },
+  };
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId: subscription.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: event,
+    },
+  });
+
+  scheduleWebhookQueue();
+  return delivery;
+}
@@ -0,0 +1,123 @@
+import { WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SIGNATURE_HEADER, signWebhookBody } from './signature';
+
+// Retries back off exponentially: 30s, 1m, 2m, ... 32m, giving up after
+// roughly an hour of failures
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// How long a claimed delivery is hidden from other workers. If the process
+// dies mid-attempt the delivery becomes due again after this.
+const CLAIM_LEASE_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+const MAX_ERROR_LENGTH = 500;
+
+export interface QueueRunResult {
+  attempted: number;
+  succeeded: number;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+// Marks a due delivery as in flight. The conditional update makes sure only
+// one worker picks it up when several run the queue at once.
+async function claim(delivery: WebhookDelivery): Promise<boolean> {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+  });
+  return count === 1;
+}
+
+async function send(
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SpurMart-Webhooks/1.0',
+        'X-Spur-Event': delivery.eventType,
+        'X-Spur-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: await signWebhookBody(body, subscription.secret, timestamp),
+      },
+      body,
+      // A redirect would re-send the payload somewhere the subscriber didn't register
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    return response.ok
+      ? { ok: true, status: response.status, error: null }
+      : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+// Makes one attempt and records the outcome: delivered, scheduled for a
+// retry, or failed for good once the attempts run out.
+async function attempt(delivery: WebhookDelivery & { subscription: WebhookSubscription }): Promise<boolean> {
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+
+  const result = delivery.subscription.active
+    ? await send(delivery, delivery.subscription)
+    : { ok: false, status: null, error: 'Subscription is disabled' };
+
+  const failedForGood = !delivery.subscription.active || attempts >= MAX_DELIVERY_ATTEMPTS;
+  // updateMany: the delivery may have been erased with its conversation meanwhile
+  await prisma.webhookDelivery.updateMany({
+    where: { id: delivery.id },
+    data: {
+      status: result.ok ? 'SUCCEEDED' : failedForGood ? 'FAILED' : 'PENDING',
+      attempts,
+      lastAttemptAt: now,
+      responseStatus: result.status,
+      lastError: result.error?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      ...(result.ok || failedForGood ? {} : { nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)) }),
+    },
+  });
+
+  return result.ok;
+}
+
+// Attempts every delivery that is due, up to one batch
+export async function processDueDeliveries(limit: number = BATCH_SIZE): Promise<QueueRunResult> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    include: { subscription: true },
+  });
+
+  const claimed = [];
+  for (const delivery of due) {
+    if (await claim(delivery)) {
+      claimed.push(delivery);
+    }
+  }
+
+  // Attempts run in parallel so one slow receiver doesn't hold up the rest
+  const results = await Promise.all(claimed.map((delivery) => attempt(delivery)));
+  return { attempted: results.length, succeeded: results.filter(Boolean).length };
+}
+
+// When the earliest pending delivery is due, or null when the queue is empty
+export async function nextDueAt(): Promise<Date | null> {
+  const next = await prisma.webhookDelivery.findFirst({
+    where: { status: 'PENDING' },
+    orderBy: { nextAttemptAt: 'asc' },
+    select: { nextAttemptAt: true },
+  });
+  return next?.nextAttemptAt ?? null;
+}
@@ -0,0 +1,9 @@
+import { sign } from '@/lib/signing';
+
+export const SIGNATURE_HEADER = 'X-Spur-Signature';
+
+// Header value `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+// Including the timestamp lets receivers reject replayed deliveries.
+export async function signWebhookBody(body: string, secret: string, timestamp: number): Promise<string> {
+  return `t=${timestamp},v1=${await sign(`${timestamp}.${body}`, secret)}`;
+}
@@ -0,0 +1,73 @@
+import { Channel, HandoffState, Intent, Sender, Sentiment, Urgency } from '@prisma/client';
+
+// Events a subscription can listen to
+export const WEBHOOK_EVENT_TYPES = [
+  'conversation.created',
+  'message.created',
+  'conversation.escalated',
+  'usage.budget_threshold',
+  'conversation.rule_matched',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Sent by the admin "test" route to a single subscription, whatever it listens to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export interface WebhookConversation {
+  id: string;
+  sessionId: string;
+  channel: Channel;
+  // Customer's phone number on WhatsApp and SMS
+  externalUserId: string | null;
+  handoffState: HandoffState;
+  escalationReason: string | null;
+  assignedAgent: string | null;
+  // Rolled up from the customer's classified messages
+  sentiment: Sentiment | null;
+  intent: Intent | null;
+  urgency: Urgency | null;
+  tags: string[];
+  createdAt: string;
+}
+
+export interface WebhookMessage {
+  id: string;
+  sender: Sender;
+  text: string;
+  timestamp: string;
+}
+
+export interface WebhookBudgetAlert {
+  // UTC month, e.g. 2026-04
+  period: string;
+  thresholdPercent: number;
+  spendUsd: number;
+  budgetUsd: number;
+}
+
+export interface WebhookRuleMatch {
+  id: string;
+  name: string;
+  // Types of the actions the rule ran, e.g. "escalate"
+  actions: string[];
+}
+
+export interface WebhookEventData {
+  'conversation.created': { conversation: WebhookConversation };
+  'message.created': { conversation: WebhookConversation; message: WebhookMessage };
+  'conversation.escalated': { conversation: WebhookConversation };
+  'usage.budget_threshold': { budget: WebhookBudgetAlert };
+  // `message` is the customer message that matched
+  'conversation.rule_matched': { conversation: WebhookConversation; message: WebhookMessage; rule: WebhookRuleMatch };
+}
+
+// JSON body POSTed to the subscriber
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  // Same for every subscription the event goes to, so receivers can dedupe retries
+  id: string;
+  type: T;
+  createdAt: string;
+  workspaceId: string;
+  data: WebhookEventData[T];
+}
@@ -0,0 +1,17 @@
+// Shared by the widget and the server, so it must not import anything
+// server-only.
+
+// Header (or `widgetKey` query param) carrying a workspace's public key
+export const WIDGET_KEY_HEADER = 'x-widget-key';
+
+// Headers the widget sends with every chat request so the server can pick
+// the right workspace. Without a key the server falls back to the hostname.
+export function widgetHeaders(widgetKey?: string): Record<string, string> {
+  return widgetKey ? { [WIDGET_KEY_HEADER]: widgetKey } : {};
+}
+
+// Same for plain links and downloads, which can't send headers
+export function widgetUrl(path: string, widgetKey?: string, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams(widgetKey ? { ...params, widgetKey } : params).toString();
+  return query ? `${path}?${query}` : path;
+}
@@ -0,0 +1,41 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Workspace } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { WIDGET_KEY_HEADER } from '@/lib/widget-key';
+
+// Used when a request carries no key and its hostname isn't mapped to a
+// workspace. Seeded by the workspaces migration.
+const DEFAULT_WORKSPACE_SLUG = 'spurmart';
+
+export function generateWidgetKey(): string {
+  return `pk_${randomBytes(16).toString('hex')}`;
+}
+
+// Finds the workspace a chat request belongs to: by the widget's public key,
+// then by hostname, then the default workspace. A key that doesn't match
+// anything is rejected rather than falling back, so a misconfigured widget
+// never ends up talking to another store's assistant.
+export async function resolveWorkspace(request: NextRequest): Promise<Workspace | null> {
+  const widgetKey = request.headers.get(WIDGET_KEY_HEADER) || request.nextUrl.searchParams.get('widgetKey');
+  if (widgetKey) {
+    return prisma.workspace.findUnique({ where: { publicKey: widgetKey } });
+  }
+
+  const hostname = request.headers.get('host')?.split(':')[0].toLowerCase();
+  if (hostname) {
+    const workspace = await prisma.workspace.findFirst({ where: { hostnames: { has: hostname } } });
+    if (workspace) return workspace;
+  }
+
+  return prisma.workspace.findUnique({
+    where: { slug: process.env.DEFAULT_WORKSPACE_SLUG || DEFAULT_WORKSPACE_SLUG },
+  });
+}
+
+export function workspaceNotFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Unknown workspace. Please check the widget key.' },
+    { status: 404 }
+  );
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-session';
+import { applyCors, applyFrameAncestors } from '@/lib/cors';
+
+// Sends visitors without a valid admin session to the login page. The admin
+// API routes do their own check (see requireAdmin) so they can also accept
+// the API key. Chat API and embed requests get their cross-origin headers.
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (pathname.startsWith('/api/chat/')) {
+    return applyCors(request);
+  }
+  if (pathname === '/embed') {
+    return applyFrameAncestors(request);
+  }
+  if (pathname === '/admin/login') {
+    return NextResponse.next();
+  }
+
+  const session = request.cookies.get(ADMIN_SESSION_COOKIE)?.value;
+  if (await verifyAdminSessionToken(session, process.env.ADMIN_API_KEY)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/admin/login', request.url);
+  loginUrl.searchParams.set('next', pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/chat/:path*', '/embed'],
+};